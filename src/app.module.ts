@@ -10,6 +10,16 @@ import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
 import { CatalogModule } from './catalog/catalog.module';
 import { OrdersModule } from './orders/orders.module';
+import { SmsModule } from './sms/sms.module';
+import { TimeSlotsModule } from './time-slots/time-slots.module';
+import { ZonesModule } from './zones/zones.module';
+import { RidersModule } from './riders/riders.module';
+import { TrackingModule } from './tracking/tracking.module';
+import { RealtimeModule } from './realtime/realtime.module';
+import { PaymentsModule } from './payments/payments.module';
+import { InvoicesModule } from './invoices/invoices.module';
+import { CouponsModule } from './coupons/coupons.module';
+import { LoyaltyModule } from './loyalty/loyalty.module';
 
 // Common
 import { HttpExceptionFilter } from './common/filters/http-exception.filter';
@@ -66,6 +76,16 @@ class HealthController {
     UsersModule,
     CatalogModule,
     OrdersModule,
+    SmsModule,
+    TimeSlotsModule,
+    ZonesModule,
+    RidersModule,
+    TrackingModule,
+    RealtimeModule,
+    PaymentsModule,
+    InvoicesModule,
+    CouponsModule,
+    LoyaltyModule,
   ],
   controllers: [HealthController],
   providers: [
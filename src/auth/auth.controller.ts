@@ -1,15 +1,16 @@
-import { Controller, Post, Body } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Controller, Get, Post, Body, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { Throttle } from '@nestjs/throttler';
 import { AuthService } from './auth.service';
 import { RequestOtpDto } from './dto/request-otp.dto';
 import { VerifyOtpDto } from './dto/verify-otp.dto';
 import { CompleteSignupDto } from './dto/complete-signup.dto';
-import { Public } from '../common';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { Public, JwtAuthGuard, CurrentUser } from '../common';
 
 /**
  * Authentication controller for OTP-based login.
- * All routes are public (no JWT required).
+ * Login and token routes are public; session management requires a JWT.
  */
 @ApiTags('Auth')
 @Controller('auth')
@@ -34,13 +35,20 @@ export class AuthController {
           type: 'object',
           properties: {
             message: { type: 'string', example: 'OTP sent successfully' },
-            otp: { type: 'string', example: '123456', description: 'Only in development' },
+            otp: {
+              type: 'string',
+              example: '123456',
+              description: 'Only with a local SMS provider and OTP_RETURN_IN_RESPONSE=true',
+            },
           },
         },
       },
     },
   })
-  @ApiResponse({ status: 429, description: 'Too many requests' })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests, resend cooldown, daily cap or lockout (see retryAfter)',
+  })
   async requestOtp(@Body() dto: RequestOtpDto) {
     return this.authService.requestOtp(dto);
   }
@@ -62,6 +70,8 @@ export class AuthController {
           type: 'object',
           properties: {
             accessToken: { type: 'string' },
+            refreshToken: { type: 'string' },
+            refreshTokenExpiresAt: { type: 'string', format: 'date-time' },
             user: { type: 'object' },
             isNewUser: { type: 'boolean' },
           },
@@ -70,6 +80,7 @@ export class AuthController {
     },
   })
   @ApiResponse({ status: 401, description: 'Invalid or expired OTP' })
+  @ApiResponse({ status: 429, description: 'Locked out after too many wrong codes (see retryAfter)' })
   async verifyOtp(@Body() dto: VerifyOtpDto) {
     return this.authService.verifyOtp(dto);
   }
@@ -90,13 +101,70 @@ export class AuthController {
   }
 
   /**
-   * Refresh access token (placeholder).
+   * Refresh access token.
+   * The submitted refresh token is consumed and a new pair is returned.
    */
   @Post('refresh-token')
   @Public()
-  @ApiOperation({ summary: 'Refresh access token (not implemented)' })
-  @ApiResponse({ status: 400, description: 'Not implemented yet' })
-  async refreshToken(@Body('refreshToken') refreshToken: string) {
-    return this.authService.refreshToken(refreshToken);
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: 'Exchange a refresh token for a new token pair' })
+  @ApiResponse({
+    status: 201,
+    description: 'New access and refresh tokens returned',
+    schema: {
+      properties: {
+        success: { type: 'boolean', example: true },
+        data: {
+          type: 'object',
+          properties: {
+            accessToken: { type: 'string' },
+            refreshToken: { type: 'string' },
+            refreshTokenExpiresAt: { type: 'string', format: 'date-time' },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Invalid, expired, reused or revoked refresh token' })
+  async refreshToken(@Body() dto: RefreshTokenDto) {
+    return this.authService.refreshToken(dto.refreshToken);
+  }
+
+  /**
+   * Log out the current device by revoking its refresh token session.
+   */
+  @Post('logout')
+  @Public()
+  @ApiOperation({ summary: 'Log out this device' })
+  @ApiResponse({ status: 201, description: 'Session revoked' })
+  @ApiResponse({ status: 401, description: 'Invalid refresh token' })
+  async logout(@Body() dto: RefreshTokenDto) {
+    return this.authService.logout(dto.refreshToken);
+  }
+
+  /**
+   * Log out from every device.
+   */
+  @Post('logout-all')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Log out from all devices' })
+  @ApiResponse({ status: 201, description: 'All sessions revoked' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async logoutAll(@CurrentUser('_id') userId: string) {
+    return this.authService.logoutAll(userId);
+  }
+
+  /**
+   * List devices the current user is signed in on.
+   */
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List active sessions' })
+  @ApiResponse({ status: 200, description: 'Active sessions returned' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getSessions(@CurrentUser('_id') userId: string) {
+    return this.authService.getSessions(userId);
   }
 }
@@ -1,18 +1,29 @@
 import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
+import { MongooseModule } from '@nestjs/mongoose';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
+import { TokenService } from './token.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
+import { JwtQueryStrategy } from './strategies/jwt-query.strategy';
 import { UsersModule } from '../users/users.module';
+import { SmsModule } from '../sms/sms.module';
+import { Session, SessionSchema } from './schemas/session.schema';
+import { RefreshToken, RefreshTokenSchema } from './schemas/refresh-token.schema';
 
 /**
- * Authentication module - handles OTP login and JWT tokens.
+ * Authentication module - handles OTP login, JWT tokens and refresh sessions.
  */
 @Module({
   imports: [
+    MongooseModule.forFeature([
+      { name: Session.name, schema: SessionSchema },
+      { name: RefreshToken.name, schema: RefreshTokenSchema },
+    ]),
     UsersModule, // For user lookup and creation
+    SmsModule, // For sending OTP codes
     PassportModule.register({ defaultStrategy: 'jwt' }),
     JwtModule.registerAsync({
       imports: [ConfigModule],
@@ -26,7 +37,7 @@ import { UsersModule } from '../users/users.module';
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
-  exports: [AuthService, JwtStrategy, PassportModule],
+  providers: [AuthService, TokenService, JwtStrategy, JwtQueryStrategy],
+  exports: [AuthService, TokenService, JwtStrategy, PassportModule],
 })
 export class AuthModule {}
@@ -2,15 +2,21 @@ import {
   Injectable,
   BadRequestException,
   UnauthorizedException,
+  ServiceUnavailableException,
   Logger,
 } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
+import { createHmac, randomInt } from 'crypto';
 import { UsersService } from '../users/users.service';
+import { StaffInvitationsService } from '../users/staff-invitations.service';
+import { TokenService, AuthTokens } from './token.service';
+import { SmsService } from '../sms/sms.service';
+import { SmsTemplate } from '../sms/templates/sms-templates';
+import { SmsStatus } from '../sms/enums/sms-status.enum';
 import { RequestOtpDto } from './dto/request-otp.dto';
 import { VerifyOtpDto } from './dto/verify-otp.dto';
 import { CompleteSignupDto } from './dto/complete-signup.dto';
-import { JwtPayload } from './strategies/jwt.strategy';
+import { normalizePhone } from '../common/utils/phone.util';
 
 /**
  * Authentication service handling OTP-based login flow.
@@ -21,90 +27,140 @@ export class AuthService {
 
   constructor(
     private usersService: UsersService,
-    private jwtService: JwtService,
+    private staffInvitationsService: StaffInvitationsService,
+    private tokenService: TokenService,
+    private smsService: SmsService,
     private configService: ConfigService,
   ) {}
 
   /**
-   * Normalize phone number to consistent format.
+   * Fixed test code for an allowlisted phone number, if any.
+   * Both OTP_TEST_PHONES (comma-separated) and OTP_TEST_CODE must be set.
    */
-  private normalizePhone(phone: string): string {
-    // Remove +880 prefix and ensure 01X format
-    let normalized = phone.replace(/^\+880/, '0');
-    if (!normalized.startsWith('0')) {
-      normalized = '0' + normalized;
+  private getTestOtp(phoneNumber: string): string | null {
+    const testCode = this.configService.get<string>('OTP_TEST_CODE', '');
+    const testPhones = this.configService
+      .get<string>('OTP_TEST_PHONES', '')
+      .split(',')
+      .map((phone) => phone.trim())
+      .filter(Boolean)
+      .map((phone) => normalizePhone(phone));
+
+    if (!testPhones.includes(phoneNumber)) {
+      return null;
     }
-    return normalized;
+
+    if (!/^\d{6}$/.test(testCode)) {
+      this.logger.warn('OTP_TEST_CODE must be 6 digits; ignoring test phone allowlist');
+      return null;
+    }
+
+    return testCode;
   }
 
   /**
-   * Generate a random 6-digit OTP.
-   * In development, uses a fixed OTP for easier testing.
+   * Generate a random 6-digit OTP using a CSPRNG.
    */
   private generateOtp(): string {
-    const isDev = this.configService.get('NODE_ENV') !== 'production';
-    if (isDev) {
-      return '787800'; // Fixed OTP for development testing
-    }
-    return Math.floor(100000 + Math.random() * 900000).toString();
+    return randomInt(100000, 1000000).toString();
+  }
+
+  /**
+   * Hash an OTP for storage. Bound to the phone number so a hash
+   * cannot be replayed against another account.
+   */
+  private hashOtp(phoneNumber: string, otpCode: string): string {
+    const secret =
+      this.configService.get<string>('OTP_HASH_SECRET') ||
+      this.configService.get<string>('JWT_SECRET', 'fallback-secret');
+    return createHmac('sha256', secret).update(`${phoneNumber}:${otpCode}`).digest('hex');
+  }
+
+  /**
+   * Whether the OTP may be echoed in the API response.
+   * Requires an explicit opt-in and a local (non-delivering) SMS provider.
+   */
+  private shouldExposeOtp(): boolean {
+    return (
+      this.smsService.isLocalProvider() &&
+      this.configService.get<string>('OTP_RETURN_IN_RESPONSE') === 'true'
+    );
   }
 
   /**
    * Request OTP for phone number.
-   * In production, this would send SMS via provider.
+   * The code is delivered by SMS through the configured provider.
    */
   async requestOtp(dto: RequestOtpDto): Promise<{ message: string; otp?: string }> {
-    const phoneNumber = this.normalizePhone(dto.phoneNumber);
-    const otpCode = this.generateOtp();
-    const otpExpiry = new Date(
-      Date.now() + this.configService.get<number>('OTP_EXPIRY_MINUTES', 5) * 60 * 1000,
+    const phoneNumber = normalizePhone(dto.phoneNumber);
+    const testOtp = this.getTestOtp(phoneNumber);
+    const otpCode = testOtp || this.generateOtp();
+    const expiryMinutes = Number(this.configService.get('OTP_EXPIRY_MINUTES', 5));
+    const otpExpiry = new Date(Date.now() + expiryMinutes * 60 * 1000);
+
+    // Save hashed OTP to user (creates temp user if not exists)
+    await this.usersService.saveOtp(
+      phoneNumber,
+      this.hashOtp(phoneNumber, otpCode),
+      otpExpiry,
     );
 
-    // Save OTP to user (creates temp user if not exists)
-    await this.usersService.saveOtp(phoneNumber, otpCode, otpExpiry);
+    // Test phones already know their code; don't spend an SMS on them
+    if (testOtp) {
+      this.logger.log(`Test OTP issued for allowlisted phone ${phoneNumber}`);
+      return { message: 'OTP sent successfully' };
+    }
 
-    this.logger.log(`OTP generated for ${phoneNumber}: ${otpCode}`);
+    const existingUser = await this.usersService.findByPhone(phoneNumber);
+    const sms = await this.smsService.sendTemplate(
+      phoneNumber,
+      SmsTemplate.OTP,
+      { code: otpCode, minutes: expiryMinutes },
+      { language: existingUser?.preferredLanguage },
+    );
 
-    // In development, return OTP for testing
-    // In production, integrate with SMS provider (e.g., Twilio, SSL Wireless)
-    const isDev = this.configService.get('NODE_ENV') !== 'production';
+    if (sms.status === SmsStatus.FAILED) {
+      this.logger.error(`Failed to send OTP to ${phoneNumber}: ${sms.lastError}`);
+      throw new ServiceUnavailableException('Could not send OTP. Please try again.');
+    }
 
     return {
       message: 'OTP sent successfully',
-      ...(isDev && { otp: otpCode }), // Only return OTP in development
+      ...(this.shouldExposeOtp() && { otp: otpCode }), // Local development only
     };
   }
 
   /**
    * Verify OTP and return auth tokens.
    */
-  async verifyOtp(dto: VerifyOtpDto): Promise<{
-    accessToken: string;
-    user: object;
-    isNewUser: boolean;
-  }> {
-    const phoneNumber = this.normalizePhone(dto.phoneNumber);
+  async verifyOtp(dto: VerifyOtpDto): Promise<
+    AuthTokens & {
+      user: object;
+      isNewUser: boolean;
+    }
+  > {
+    const phoneNumber = normalizePhone(dto.phoneNumber);
 
-    const user = await this.usersService.verifyOtp(phoneNumber, dto.otpCode);
+    const verifiedUser = await this.usersService.verifyOtp(
+      phoneNumber,
+      this.hashOtp(phoneNumber, dto.otpCode),
+    );
 
-    if (!user) {
+    if (!verifiedUser) {
       throw new UnauthorizedException('Invalid or expired OTP');
     }
 
+    // Grant staff role if an admin invited this phone number
+    const user = await this.staffInvitationsService.acceptPendingInvitation(verifiedUser);
+
     // Check if user has completed profile
     const isNewUser = user.fullName === 'New User' || !user.address;
 
-    // Generate JWT token
-    const payload: JwtPayload = {
-      sub: user._id.toString(),
-      phone: user.phoneNumber,
-      role: user.role,
-    };
-
-    const accessToken = this.jwtService.sign(payload);
+    // Start a session for this device
+    const tokens = await this.tokenService.issueTokens(user, dto);
 
     return {
-      accessToken,
+      ...tokens,
       user: user.toJSON(),
       isNewUser,
     };
@@ -113,11 +169,12 @@ export class AuthService {
   /**
    * Complete signup with profile information.
    */
-  async completeSignup(dto: CompleteSignupDto): Promise<{
-    accessToken: string;
-    user: object;
-  }> {
-    const phoneNumber = this.normalizePhone(dto.phoneNumber);
+  async completeSignup(dto: CompleteSignupDto): Promise<
+    AuthTokens & {
+      user: object;
+    }
+  > {
+    const phoneNumber = normalizePhone(dto.phoneNumber);
 
     // Find existing user (should exist after OTP verification)
     const existingUser = await this.usersService.findByPhone(phoneNumber);
@@ -130,35 +187,49 @@ export class AuthService {
       throw new BadRequestException('Phone number not verified');
     }
 
-    // Update user profile
+    // Update user profile (role is never taken from the client)
     existingUser.fullName = dto.fullName;
     existingUser.address = dto.address;
-    if (dto.role) {
-      existingUser.role = dto.role;
-    }
     await existingUser.save();
 
-    // Generate new token with updated role
-    const payload: JwtPayload = {
-      sub: existingUser._id.toString(),
-      phone: existingUser.phoneNumber,
-      role: existingUser.role,
-    };
-
-    const accessToken = this.jwtService.sign(payload);
+    // Issue new tokens with updated profile
+    const tokens = await this.tokenService.issueTokens(existingUser, dto);
 
     return {
-      accessToken,
+      ...tokens,
       user: existingUser.toJSON(),
     };
   }
 
   /**
-   * Refresh access token (placeholder for future implementation).
+   * Exchange a refresh token for a new access/refresh token pair.
+   */
+  async refreshToken(refreshToken: string): Promise<AuthTokens> {
+    return this.tokenService.rotateRefreshToken(refreshToken, (userId) =>
+      this.usersService.findById(userId),
+    );
+  }
+
+  /**
+   * Log out the device that owns the given refresh token.
+   */
+  async logout(refreshToken: string): Promise<{ message: string }> {
+    await this.tokenService.revokeByRefreshToken(refreshToken);
+    return { message: 'Logged out successfully' };
+  }
+
+  /**
+   * Log out from every device.
+   */
+  async logoutAll(userId: string): Promise<{ message: string; revokedSessions: number }> {
+    const revokedSessions = await this.tokenService.revokeAllForUser(userId);
+    return { message: 'Logged out from all devices', revokedSessions };
+  }
+
+  /**
+   * List active sessions (signed-in devices) for a user.
    */
-  async refreshToken(refreshToken: string): Promise<{ accessToken: string }> {
-    // TODO: Implement refresh token logic
-    // For now, this is a placeholder for the API structure
-    throw new BadRequestException('Refresh token not implemented yet');
+  async getSessions(userId: string) {
+    return this.tokenService.getActiveSessions(userId);
   }
 }
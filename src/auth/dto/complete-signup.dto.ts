@@ -1,9 +1,9 @@
-import { IsString, MinLength, MaxLength, IsOptional, IsEnum, Matches } from 'class-validator';
+import { IsString, MinLength, MaxLength, IsOptional, Matches } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { UserRole } from '../../users/enums/user-role.enum';
 
 /**
  * DTO for completing signup after OTP verification.
+ * Roles cannot be chosen here; staff roles come from admin invitations.
  */
 export class CompleteSignupDto {
   @ApiProperty({
@@ -37,11 +37,20 @@ export class CompleteSignupDto {
   address: string;
 
   @ApiPropertyOptional({
-    description: 'User role (default: customer)',
-    enum: UserRole,
-    default: UserRole.CUSTOMER,
+    description: 'Stable identifier of the device signing in',
+    example: '6f1c2a4e-9b7d-4c1e-8a3f-2d5e7b9c0a11',
   })
   @IsOptional()
-  @IsEnum(UserRole)
-  role?: UserRole;
+  @IsString()
+  @MaxLength(100)
+  deviceId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Human-readable device name',
+    example: 'Samsung Galaxy A54',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deviceName?: string;
 }
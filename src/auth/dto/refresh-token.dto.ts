@@ -0,0 +1,14 @@
+import { IsString, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for refreshing an access token or logging out a device.
+ */
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token returned by verify-otp, complete-signup or refresh-token',
+  })
+  @IsString()
+  @MinLength(20)
+  refreshToken: string;
+}
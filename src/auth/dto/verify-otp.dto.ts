@@ -1,5 +1,5 @@
-import { IsString, Matches, Length } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsString, Matches, Length, IsOptional, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 /**
  * DTO for verifying OTP.
@@ -23,4 +23,22 @@ export class VerifyOtpDto {
   @Length(6, 6, { message: 'OTP must be exactly 6 digits' })
   @Matches(/^\d{6}$/, { message: 'OTP must contain only digits' })
   otpCode: string;
+
+  @ApiPropertyOptional({
+    description: 'Stable identifier of the device signing in',
+    example: '6f1c2a4e-9b7d-4c1e-8a3f-2d5e7b9c0a11',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deviceId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Human-readable device name',
+    example: 'Samsung Galaxy A54',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deviceName?: string;
 }
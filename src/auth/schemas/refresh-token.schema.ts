@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type RefreshTokenDocument = RefreshToken & Document;
+
+/**
+ * Refresh token schema.
+ * Only a SHA-256 hash of the token is stored. Each token can be used once;
+ * using it issues a replacement in the same session (rotation).
+ */
+@Schema({ timestamps: true })
+export class RefreshToken {
+  @Prop({ type: String, required: true, unique: true })
+  tokenHash: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Session', required: true })
+  session: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  user: Types.ObjectId;
+
+  @Prop({ type: Date, required: true })
+  expiresAt: Date;
+
+  // Set when the token has been exchanged for a new one
+  @Prop({ type: Date })
+  usedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'RefreshToken' })
+  replacedBy: Types.ObjectId;
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const RefreshTokenSchema = SchemaFactory.createForClass(RefreshToken);
+
+// Index for revoking a whole token family (tokenHash already has unique: true in @Prop)
+RefreshTokenSchema.index({ session: 1 });
+
+// Let MongoDB drop expired tokens automatically
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
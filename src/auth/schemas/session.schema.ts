@@ -0,0 +1,55 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SessionDocument = Session & Document;
+
+/**
+ * Login session schema.
+ * One session per signed-in device. All refresh tokens issued for a device
+ * belong to the same session (token family), so revoking the session
+ * invalidates every refresh token and access token tied to it.
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class Session {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  user: Types.ObjectId;
+
+  @Prop({ type: String, required: true, trim: true })
+  deviceId: string;
+
+  @Prop({ type: String, trim: true })
+  deviceName: string;
+
+  @Prop({ type: Date, required: true })
+  expiresAt: Date;
+
+  @Prop({ type: Date })
+  lastUsedAt: Date;
+
+  @Prop({ type: Date })
+  revokedAt: Date;
+
+  @Prop({ type: String })
+  revokedReason: string;
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const SessionSchema = SchemaFactory.createForClass(Session);
+
+// Indexes
+SessionSchema.index({ user: 1, deviceId: 1 });
+SessionSchema.index({ user: 1, revokedAt: 1 });
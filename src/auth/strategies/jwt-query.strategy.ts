@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { ExtractJwt, Strategy } from 'passport-jwt';
+import { ConfigService } from '@nestjs/config';
+import { JwtStrategy, JwtPayload } from './jwt.strategy';
+
+/**
+ * JWT strategy that also accepts the token from the `access_token` query
+ * parameter. Only for streaming endpoints, since browser EventSource
+ * cannot send an Authorization header.
+ */
+@Injectable()
+export class JwtQueryStrategy extends PassportStrategy(Strategy, 'jwt-query') {
+  constructor(
+    configService: ConfigService,
+    private jwtStrategy: JwtStrategy,
+  ) {
+    super({
+      jwtFromRequest: ExtractJwt.fromExtractors([
+        ExtractJwt.fromAuthHeaderAsBearerToken(),
+        ExtractJwt.fromUrlQueryParameter('access_token'),
+      ]),
+      ignoreExpiration: false,
+      secretOrKey: configService.get<string>('JWT_SECRET', 'fallback-secret'),
+    });
+  }
+
+  /**
+   * Same session and user checks as the regular JWT strategy.
+   */
+  async validate(payload: JwtPayload) {
+    return this.jwtStrategy.validate(payload);
+  }
+}
@@ -3,6 +3,7 @@ import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
 import { UsersService } from '../../users/users.service';
+import { TokenService } from '../token.service';
 
 /**
  * JWT token payload structure.
@@ -11,6 +12,7 @@ export interface JwtPayload {
   sub: string; // User ID
   phone: string; // Phone number
   role: string; // User role
+  sid?: string; // Session ID (absent on tokens issued before sessions existed)
 }
 
 /**
@@ -22,6 +24,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private configService: ConfigService,
     private usersService: UsersService,
+    private tokenService: TokenService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -35,6 +38,10 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
    * This user object will be attached to request.user
    */
   async validate(payload: JwtPayload) {
+    if (payload.sid && !(await this.tokenService.isSessionActive(payload.sid))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
     const user = await this.usersService.findById(payload.sub);
 
     if (!user) {
@@ -0,0 +1,263 @@
+import { Injectable, UnauthorizedException, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { Session, SessionDocument } from './schemas/session.schema';
+import { RefreshToken, RefreshTokenDocument } from './schemas/refresh-token.schema';
+import { UserDocument } from '../users/schemas/user.schema';
+import { JwtPayload } from './strategies/jwt.strategy';
+
+/**
+ * Access + refresh token pair returned to the mobile app.
+ */
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+/**
+ * Device details sent by the app when signing in.
+ */
+export interface DeviceInfo {
+  deviceId?: string;
+  deviceName?: string;
+}
+
+/**
+ * Token service - issues access tokens and manages refresh token sessions.
+ *
+ * Refresh tokens are rotated on every use. Presenting a token that was
+ * already exchanged is treated as theft and revokes the whole session.
+ */
+@Injectable()
+export class TokenService {
+  private readonly logger = new Logger(TokenService.name);
+
+  constructor(
+    @InjectModel(Session.name) private sessionModel: Model<SessionDocument>,
+    @InjectModel(RefreshToken.name)
+    private refreshTokenModel: Model<RefreshTokenDocument>,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Hash a raw refresh token for storage and lookup.
+   */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Refresh token lifetime in milliseconds.
+   */
+  private getRefreshTokenTtl(): number {
+    const days = Number(this.configService.get('REFRESH_TOKEN_EXPIRES_DAYS', 30));
+    return days * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Sign an access token bound to a session.
+   */
+  private signAccessToken(user: UserDocument, sessionId: string): string {
+    const payload: JwtPayload = {
+      sub: user._id.toString(),
+      phone: user.phoneNumber,
+      role: user.role,
+      sid: sessionId,
+    };
+    return this.jwtService.sign(payload);
+  }
+
+  /**
+   * Create and store a new refresh token in a session.
+   */
+  private async createRefreshToken(
+    session: SessionDocument,
+  ): Promise<{ token: string; document: RefreshTokenDocument }> {
+    const token = randomBytes(48).toString('base64url');
+    const document = await this.refreshTokenModel.create({
+      tokenHash: this.hashToken(token),
+      session: session._id,
+      user: session.user,
+      expiresAt: session.expiresAt,
+    });
+    return { token, document };
+  }
+
+  /**
+   * Start a new session for a device and issue its first token pair.
+   * Signing in again on the same device replaces the previous session.
+   */
+  async issueTokens(user: UserDocument, device: DeviceInfo = {}): Promise<AuthTokens> {
+    const deviceId = device.deviceId || 'unknown';
+
+    await this.revokeSessions(
+      { user: user._id, deviceId, revokedAt: { $exists: false } },
+      'replaced_by_new_login',
+    );
+
+    const session = await this.sessionModel.create({
+      user: user._id,
+      deviceId,
+      deviceName: device.deviceName,
+      expiresAt: new Date(Date.now() + this.getRefreshTokenTtl()),
+      lastUsedAt: new Date(),
+    });
+
+    const { token } = await this.createRefreshToken(session);
+
+    return {
+      accessToken: this.signAccessToken(user, session._id.toString()),
+      refreshToken: token,
+      refreshTokenExpiresAt: session.expiresAt,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair (rotation).
+   * The session keeps its original expiry; rotation does not extend it.
+   */
+  async rotateRefreshToken(
+    refreshToken: string,
+    loadUser: (userId: string) => Promise<UserDocument | null>,
+  ): Promise<AuthTokens> {
+    const stored = await this.refreshTokenModel
+      .findOne({ tokenHash: this.hashToken(refreshToken) })
+      .exec();
+
+    if (!stored) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const session = await this.sessionModel.findById(stored.session).exec();
+
+    if (!session || session.revokedAt) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    // Atomically mark the token as used so concurrent requests cannot both rotate it
+    const claimed = await this.refreshTokenModel
+      .findOneAndUpdate(
+        { _id: stored._id, usedAt: { $exists: false } },
+        { $set: { usedAt: new Date() } },
+        { new: true },
+      )
+      .exec();
+
+    if (!claimed) {
+      // Reuse of a rotated token: assume it was stolen and kill the family
+      this.logger.warn(
+        `Refresh token reuse detected for session ${session._id.toString()}, revoking`,
+      );
+      await this.revokeSessions({ _id: session._id }, 'refresh_token_reuse');
+      throw new UnauthorizedException('Refresh token has already been used');
+    }
+
+    if (session.expiresAt < new Date()) {
+      await this.revokeSessions({ _id: session._id }, 'expired');
+      throw new UnauthorizedException('Refresh token expired');
+    }
+
+    const user = await loadUser(stored.user.toString());
+    if (!user || !user.isVerified) {
+      await this.revokeSessions({ _id: session._id }, 'user_unavailable');
+      throw new UnauthorizedException('User not found');
+    }
+
+    const { token, document } = await this.createRefreshToken(session);
+    claimed.replacedBy = document._id as Types.ObjectId;
+    await claimed.save();
+
+    session.lastUsedAt = new Date();
+    await session.save();
+
+    return {
+      accessToken: this.signAccessToken(user, session._id.toString()),
+      refreshToken: token,
+      refreshTokenExpiresAt: session.expiresAt,
+    };
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to (logout on one device).
+   */
+  async revokeByRefreshToken(refreshToken: string): Promise<void> {
+    const stored = await this.refreshTokenModel
+      .findOne({ tokenHash: this.hashToken(refreshToken) })
+      .exec();
+
+    if (!stored) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    await this.revokeSessions({ _id: stored.session }, 'logout');
+  }
+
+  /**
+   * Revoke every active session of a user (logout from all devices).
+   */
+  async revokeAllForUser(userId: string, reason = 'logout_all'): Promise<number> {
+    return this.revokeSessions(
+      { user: new Types.ObjectId(userId), revokedAt: { $exists: false } },
+      reason,
+    );
+  }
+
+  /**
+   * List active sessions for a user.
+   */
+  async getActiveSessions(userId: string): Promise<SessionDocument[]> {
+    return this.sessionModel
+      .find({
+        user: new Types.ObjectId(userId),
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      })
+      .sort({ lastUsedAt: -1 })
+      .exec();
+  }
+
+  /**
+   * Check whether a session is still valid (used by JwtStrategy).
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+    const session = await this.sessionModel
+      .findById(sessionId)
+      .select('revokedAt expiresAt')
+      .lean()
+      .exec();
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  /**
+   * Revoke matching sessions and delete their outstanding refresh tokens.
+   */
+  private async revokeSessions(
+    filter: Record<string, unknown>,
+    reason: string,
+  ): Promise<number> {
+    const sessions = await this.sessionModel.find(filter).select('_id').lean().exec();
+    if (sessions.length === 0) {
+      return 0;
+    }
+
+    const ids = sessions.map((s) => s._id);
+    await this.sessionModel.updateMany(
+      { _id: { $in: ids }, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } },
+    );
+    await this.refreshTokenModel.deleteMany({
+      session: { $in: ids },
+      usedAt: { $exists: false },
+    });
+
+    return ids.length;
+  }
+}
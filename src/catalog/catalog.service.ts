@@ -45,6 +45,13 @@ export class CatalogService {
     return item;
   }
 
+  /**
+   * Get clothing items by ID, including inactive ones (e.g. for old orders).
+   */
+  async getClothingItemsByIds(ids: Types.ObjectId[]): Promise<ClothingItemDocument[]> {
+    return this.clothingItemModel.find({ _id: { $in: ids } }).exec();
+  }
+
   /**
    * Create a new clothing item (admin only).
    */
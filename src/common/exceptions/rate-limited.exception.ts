@@ -0,0 +1,22 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Thrown when a caller must wait before retrying (lockouts, cooldowns, caps).
+ * HttpExceptionFilter exposes `code` and `retryAfter` to the client and sets
+ * the Retry-After header.
+ *
+ * @example
+ * throw new RateLimitedException('Too many attempts', 900, 'OTP_LOCKED');
+ */
+export class RateLimitedException extends HttpException {
+  constructor(
+    message: string,
+    public readonly retryAfter: number, // seconds
+    public readonly code = 'RATE_LIMITED',
+  ) {
+    super(
+      { message, code, retryAfter: Math.max(1, Math.ceil(retryAfter)) },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
@@ -24,6 +24,8 @@ export class HttpExceptionFilter implements ExceptionFilter {
     let status = HttpStatus.INTERNAL_SERVER_ERROR;
     let message = 'Internal server error';
     let errors: string[] | undefined;
+    let code: string | undefined;
+    let retryAfter: number | undefined;
 
     if (exception instanceof HttpException) {
       status = exception.getStatus();
@@ -40,6 +42,14 @@ export class HttpExceptionFilter implements ExceptionFilter {
           errors = responseObj.message;
           message = 'Validation failed';
         }
+
+        // Machine-readable details for structured errors (e.g. lockouts)
+        if (typeof responseObj.code === 'string') {
+          code = responseObj.code;
+        }
+        if (typeof responseObj.retryAfter === 'number') {
+          retryAfter = responseObj.retryAfter;
+        }
       }
     } else if (exception instanceof Error) {
       message = exception.message;
@@ -51,11 +61,17 @@ export class HttpExceptionFilter implements ExceptionFilter {
       exception instanceof Error ? exception.stack : undefined,
     );
 
+    if (retryAfter !== undefined) {
+      response.setHeader('Retry-After', retryAfter.toString());
+    }
+
     // Send consistent error response
     response.status(status).json({
       success: false,
       message,
+      code,
       errors,
+      retryAfter,
       timestamp: new Date().toISOString(),
       path: request.url,
     });
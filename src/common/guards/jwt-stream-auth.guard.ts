@@ -0,0 +1,16 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * JWT guard for streaming endpoints (Server-Sent Events).
+ * Accepts the token from the Authorization header or `?access_token=`.
+ */
+@Injectable()
+export class JwtStreamAuthGuard extends AuthGuard('jwt-query') {
+  handleRequest<TUser = any>(err: Error | null, user: TUser): TUser {
+    if (err || !user) {
+      throw err || new UnauthorizedException('Invalid or expired token');
+    }
+    return user;
+  }
+}
@@ -1,14 +1,23 @@
 // Filters
 export * from './filters/http-exception.filter';
 
+// Exceptions
+export * from './exceptions/rate-limited.exception';
+
 // Interceptors
 export * from './interceptors/response.interceptor';
 
 // Guards
 export * from './guards/jwt-auth.guard';
 export * from './guards/roles.guard';
+export * from './guards/jwt-stream-auth.guard';
 
 // Decorators
 export * from './decorators/public.decorator';
 export * from './decorators/roles.decorator';
 export * from './decorators/current-user.decorator';
+
+// Utils
+export * from './utils/phone.util';
+export * from './utils/date.util';
+export * from './utils/geo.util';
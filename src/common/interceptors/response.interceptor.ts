@@ -3,7 +3,9 @@ import {
   NestInterceptor,
   ExecutionContext,
   CallHandler,
+  StreamableFile,
 } from '@nestjs/common';
+import { SSE_METADATA } from '@nestjs/common/constants';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
 
@@ -26,8 +28,18 @@ export class ResponseInterceptor<T> implements NestInterceptor<T, ApiResponse<T>
     context: ExecutionContext,
     next: CallHandler,
   ): Observable<ApiResponse<T>> {
+    // Server-Sent Events are written frame by frame; leave them untouched
+    if (Reflect.getMetadata(SSE_METADATA, context.getHandler())) {
+      return next.handle();
+    }
+
     return next.handle().pipe(
       map((data) => {
+        // Files are streamed as-is
+        if (data instanceof StreamableFile) {
+          return data;
+        }
+
         // If data already has our response structure, pass through
         if (data && typeof data === 'object' && 'success' in data) {
           return data;
@@ -0,0 +1,37 @@
+/**
+ * Bangladesh Standard Time offset (UTC+6, no daylight saving).
+ */
+export const DHAKA_UTC_OFFSET = '+06:00';
+
+/**
+ * Build a Date from a local Dhaka calendar date and wall-clock time.
+ *
+ * @example
+ * toDhakaDate('2024-01-15', '09:30'); // 2024-01-15T03:30:00.000Z
+ */
+export function toDhakaDate(date: string, time: string): Date {
+  return new Date(`${date}T${time}:00${DHAKA_UTC_OFFSET}`);
+}
+
+/**
+ * Format a Date as a Dhaka calendar date (YYYY-MM-DD).
+ */
+export function toDhakaDateString(value: Date): string {
+  const shifted = new Date(value.getTime() + 6 * 60 * 60 * 1000);
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * Day of the week in Dhaka (0 = Sunday ... 6 = Saturday).
+ */
+export function getDhakaWeekday(value: Date): number {
+  return new Date(value.getTime() + 6 * 60 * 60 * 1000).getUTCDay();
+}
+
+/**
+ * Format a Date as Dhaka wall-clock time (HH:mm).
+ */
+export function toDhakaTimeString(value: Date): string {
+  const shifted = new Date(value.getTime() + 6 * 60 * 60 * 1000);
+  return shifted.toISOString().slice(11, 16);
+}
@@ -0,0 +1,41 @@
+/**
+ * Geographic helpers. Coordinates follow GeoJSON order: [longitude, latitude].
+ */
+
+/**
+ * Check whether a point lies inside a polygon ring (ray casting).
+ * Points exactly on an edge may fall either side.
+ */
+export function isPointInPolygon(point: [number, number], ring: number[][]): boolean {
+  const [x, y] = point;
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const crosses = yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Great-circle distance between two points in kilometres (haversine).
+ */
+export function haversineDistanceKm(
+  from: { lat: number; lng: number },
+  to: { lat: number; lng: number },
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
@@ -0,0 +1,14 @@
+/**
+ * Normalize a Bangladesh phone number to the local 01XXXXXXXXX format.
+ *
+ * @example
+ * normalizePhone('+8801712345678'); // '01712345678'
+ */
+export function normalizePhone(phone: string): string {
+  // Remove +880 prefix and ensure 01X format
+  let normalized = phone.trim().replace(/^\+880/, '0');
+  if (!normalized.startsWith('0')) {
+    normalized = '0' + normalized;
+  }
+  return normalized;
+}
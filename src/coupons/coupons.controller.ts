@@ -0,0 +1,115 @@
+import { Controller, Get, Post, Patch, Body, Param, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { CouponsService } from './coupons.service';
+import { CreateCouponDto } from './dto/create-coupon.dto';
+import { UpdateCouponDto } from './dto/update-coupon.dto';
+import { ValidateCouponDto } from './dto/validate-coupon.dto';
+import { JwtAuthGuard, RolesGuard, CurrentUser, Roles } from '../common';
+import { UserRole } from '../users/enums/user-role.enum';
+
+/**
+ * Coupons controller - discount codes and checking them before checkout.
+ */
+@ApiTags('Coupons')
+@ApiBearerAuth('JWT-auth')
+@Controller('coupons')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CouponsController {
+  constructor(private readonly couponsService: CouponsService) {}
+
+  // ========== Customer Endpoints ==========
+
+  /**
+   * Check a coupon against a cart before placing the order.
+   */
+  @Post('validate')
+  @ApiOperation({ summary: 'Check a coupon code against order items' })
+  @ApiResponse({ status: 201, description: 'Coupon applies; discount on the items' })
+  @ApiResponse({ status: 400, description: 'Coupon invalid, expired, used up or not applicable' })
+  async validateCoupon(@CurrentUser('_id') userId: string, @Body() dto: ValidateCouponDto) {
+    return this.couponsService.validate(userId, dto);
+  }
+
+  // ========== Admin Endpoints ==========
+
+  /**
+   * Create a coupon (admin only).
+   */
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Create coupon (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Coupon created' })
+  @ApiResponse({ status: 409, description: 'Coupon code already exists' })
+  async createCoupon(@Body() dto: CreateCouponDto, @CurrentUser('_id') adminId: string) {
+    return this.couponsService.createCoupon(dto, adminId);
+  }
+
+  /**
+   * List coupons (admin only).
+   */
+  @Get()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get coupons (Admin only)' })
+  @ApiQuery({ name: 'active', required: false, type: Boolean })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Paginated coupons' })
+  async getCoupons(
+    @Query('active') active?: string,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.couponsService.getCoupons(
+      active === undefined ? undefined : active === 'true',
+      page,
+      limit,
+    );
+  }
+
+  /**
+   * Get a coupon (admin only).
+   */
+  @Get(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get coupon by ID (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Coupon details' })
+  @ApiResponse({ status: 404, description: 'Coupon not found' })
+  async getCoupon(@Param('id') id: string) {
+    return this.couponsService.getCouponById(id);
+  }
+
+  /**
+   * Update a coupon's rules or deactivate it (admin only).
+   */
+  @Patch(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Update coupon (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Coupon updated' })
+  @ApiResponse({ status: 404, description: 'Coupon not found' })
+  async updateCoupon(@Param('id') id: string, @Body() dto: UpdateCouponDto) {
+    return this.couponsService.updateCoupon(id, dto);
+  }
+
+  /**
+   * Orders a coupon was used on (admin only).
+   */
+  @Get(':id/redemptions')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get coupon redemptions (Admin only)' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Paginated redemptions' })
+  async getRedemptions(
+    @Param('id') id: string,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.couponsService.getRedemptions(id, page, limit);
+  }
+}
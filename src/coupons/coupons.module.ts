@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CouponsService } from './coupons.service';
+import { CouponsController } from './coupons.controller';
+import { Coupon, CouponSchema } from './schemas/coupon.schema';
+import { CouponRedemption, CouponRedemptionSchema } from './schemas/coupon-redemption.schema';
+import { CouponUsage, CouponUsageSchema } from './schemas/coupon-usage.schema';
+import { Order, OrderSchema } from '../orders/schemas/order.schema';
+import { OrderPricingModule } from '../orders/order-pricing.module';
+
+/**
+ * Coupons module - admin-managed discount codes and redemptions.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Coupon.name, schema: CouponSchema },
+      { name: CouponRedemption.name, schema: CouponRedemptionSchema },
+      { name: CouponUsage.name, schema: CouponUsageSchema },
+      { name: Order.name, schema: OrderSchema },
+    ]),
+    OrderPricingModule, // For pricing carts in coupon checks
+  ],
+  controllers: [CouponsController],
+  providers: [CouponsService],
+  exports: [CouponsService], // Export for use in Orders module
+})
+export class CouponsModule {}
@@ -0,0 +1,510 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Coupon, CouponDocument } from './schemas/coupon.schema';
+import { CouponRedemption, CouponRedemptionDocument } from './schemas/coupon-redemption.schema';
+import { CouponUsage, CouponUsageDocument } from './schemas/coupon-usage.schema';
+import { CreateCouponDto } from './dto/create-coupon.dto';
+import { UpdateCouponDto } from './dto/update-coupon.dto';
+import { ValidateCouponDto } from './dto/validate-coupon.dto';
+import { CouponType } from './enums/coupon-type.enum';
+import { Order, OrderDocument } from '../orders/schemas/order.schema';
+import { OrderStatus } from '../orders/enums/order-status.enum';
+import { OrderPricingService } from '../orders/order-pricing.service';
+import { ClothingCategory } from '../catalog/enums/clothing-category.enum';
+
+/**
+ * What a coupon is checked and priced against.
+ */
+export interface CouponCart {
+  itemsTotal: number;
+  deliveryCharge: number;
+  items: { category: ClothingCategory; subtotal: number }[];
+}
+
+/**
+ * A coupon that applies to a cart and the discount it gives.
+ */
+export interface AppliedCoupon {
+  coupon: CouponDocument;
+  discount: number;
+}
+
+/**
+ * Result of checking a coupon before the order is placed.
+ * The delivery charge isn't known until the addresses are, so a free
+ * delivery coupon is flagged rather than priced.
+ */
+export interface CouponValidation {
+  code: string;
+  type: CouponType;
+  description: string;
+  itemsTotal: number;
+  discount: number;
+  freeDelivery: boolean;
+}
+
+/**
+ * Coupons service - admin-managed discount codes and their redemptions.
+ */
+@Injectable()
+export class CouponsService {
+  constructor(
+    @InjectModel(Coupon.name) private couponModel: Model<CouponDocument>,
+    @InjectModel(CouponRedemption.name)
+    private redemptionModel: Model<CouponRedemptionDocument>,
+    @InjectModel(CouponUsage.name) private usageModel: Model<CouponUsageDocument>,
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    private orderPricingService: OrderPricingService,
+  ) {}
+
+  /**
+   * Normalize a code for lookup.
+   */
+  private normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  /**
+   * Map DTO fields onto stored coupon fields.
+   */
+  private toCouponFields(dto: CreateCouponDto | UpdateCouponDto): Partial<Coupon> {
+    const { validFrom, validUntil, ...rest } = dto;
+    const fields: Partial<Coupon> = { ...rest };
+    if (validFrom) {
+      fields.validFrom = new Date(validFrom);
+    }
+    if (validUntil) {
+      fields.validUntil = new Date(validUntil);
+    }
+    return fields;
+  }
+
+  /**
+   * Fail if a coupon's settings don't make sense together.
+   */
+  private assertConsistent(coupon: Partial<Coupon>): void {
+    if (coupon.type === CouponType.PERCENTAGE && !(coupon.value! > 0 && coupon.value! <= 100)) {
+      throw new BadRequestException('A percentage coupon needs a value between 1 and 100');
+    }
+    if (coupon.type === CouponType.FLAT && !(coupon.value! > 0)) {
+      throw new BadRequestException('A flat coupon needs a value above 0 BDT');
+    }
+    if (coupon.validFrom && coupon.validUntil && coupon.validUntil <= coupon.validFrom) {
+      throw new BadRequestException('validUntil must be after validFrom');
+    }
+  }
+
+  // ========== Admin ==========
+
+  /**
+   * Create a coupon (admin only).
+   */
+  async createCoupon(dto: CreateCouponDto, adminId: string): Promise<CouponDocument> {
+    const fields = this.toCouponFields(dto);
+    fields.code = this.normalizeCode(dto.code);
+    this.assertConsistent(fields);
+
+    const existing = await this.couponModel.findOne({ code: fields.code }).exec();
+    if (existing) {
+      throw new ConflictException('A coupon with this code already exists');
+    }
+
+    return this.couponModel.create({ ...fields, createdBy: new Types.ObjectId(adminId) });
+  }
+
+  /**
+   * Get coupons, newest first (admin only).
+   */
+  async getCoupons(
+    isActive?: boolean,
+    page = 1,
+    limit = 20,
+  ): Promise<{
+    coupons: CouponDocument[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    const query: Record<string, unknown> = {};
+    if (isActive !== undefined) query.isActive = isActive;
+
+    const total = await this.couponModel.countDocuments(query);
+    const totalPages = Math.ceil(total / limit);
+
+    const coupons = await this.couponModel
+      .find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .exec();
+
+    return { coupons, total, page, totalPages };
+  }
+
+  /**
+   * Get a coupon by ID.
+   */
+  async getCouponById(id: string): Promise<CouponDocument> {
+    const coupon = await this.couponModel.findById(id).exec();
+    if (!coupon) {
+      throw new NotFoundException('Coupon not found');
+    }
+    return coupon;
+  }
+
+  /**
+   * Update a coupon's rules (admin only).
+   * The code is fixed once created since customers may already have it.
+   */
+  async updateCoupon(id: string, dto: UpdateCouponDto): Promise<CouponDocument> {
+    const coupon = await this.getCouponById(id);
+    Object.assign(coupon, this.toCouponFields(dto));
+    this.assertConsistent(coupon);
+    return coupon.save();
+  }
+
+  /**
+   * Orders a coupon was used on, newest first (admin only).
+   */
+  async getRedemptions(
+    couponId: string,
+    page = 1,
+    limit = 20,
+  ): Promise<{
+    redemptions: CouponRedemptionDocument[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    const query = { coupon: new Types.ObjectId(couponId) };
+
+    const total = await this.redemptionModel.countDocuments(query);
+    const totalPages = Math.ceil(total / limit);
+
+    const redemptions = await this.redemptionModel
+      .find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .populate('user', 'fullName phoneNumber')
+      .populate('order', 'status pricing.grandTotal')
+      .exec();
+
+    return { redemptions, total, page, totalPages };
+  }
+
+  // ========== Pricing ==========
+
+  /**
+   * Discount a coupon gives on a cart, in whole BDT.
+   * Zero when the cart is below the minimum or has no eligible items.
+   */
+  computeDiscount(coupon: Coupon, cart: CouponCart): number {
+    if (cart.itemsTotal < coupon.minOrderValue) {
+      return 0;
+    }
+
+    const eligibleItems = coupon.categories?.length
+      ? cart.items.filter((item) => coupon.categories.includes(item.category))
+      : cart.items;
+    if (eligibleItems.length === 0) {
+      return 0;
+    }
+    const eligibleTotal = eligibleItems.reduce((sum, item) => sum + item.subtotal, 0);
+
+    switch (coupon.type) {
+      case CouponType.PERCENTAGE: {
+        const discount = Math.floor((eligibleTotal * coupon.value) / 100);
+        return coupon.maxDiscount !== undefined && coupon.maxDiscount !== null
+          ? Math.min(discount, coupon.maxDiscount)
+          : discount;
+      }
+      case CouponType.FLAT:
+        return Math.min(coupon.value, eligibleTotal);
+      case CouponType.FREE_DELIVERY:
+        return cart.deliveryCharge;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Find an active coupon by code and check every rule for this customer
+   * and cart, explaining the first one that fails.
+   */
+  private async checkEligibility(
+    code: string,
+    userId: string,
+    cart: CouponCart,
+  ): Promise<CouponDocument> {
+    const coupon = await this.couponModel.findOne({ code: this.normalizeCode(code) }).exec();
+    if (!coupon || !coupon.isActive) {
+      throw new BadRequestException('This coupon code is not valid');
+    }
+
+    const now = new Date();
+    if (coupon.validFrom && now < coupon.validFrom) {
+      throw new BadRequestException('This coupon is not active yet');
+    }
+    if (coupon.validUntil && now > coupon.validUntil) {
+      throw new BadRequestException('This coupon has expired');
+    }
+    if (coupon.usageLimit && coupon.usedCount >= coupon.usageLimit) {
+      throw new BadRequestException('This coupon has been fully redeemed');
+    }
+
+    const customer = new Types.ObjectId(userId);
+    const usedByCustomer = await this.redemptionModel
+      .countDocuments({ coupon: coupon._id, user: customer, releasedAt: null })
+      .exec();
+    if (usedByCustomer >= coupon.perUserLimit) {
+      throw this.perUserLimitError(coupon);
+    }
+
+    if (coupon.firstOrderOnly) {
+      const previousOrder = await this.orderModel
+        .exists({ customer, status: { $ne: OrderStatus.CANCELLED } })
+        .exec();
+      if (previousOrder) {
+        throw new BadRequestException('This coupon is only valid on your first order');
+      }
+    }
+
+    if (cart.itemsTotal < coupon.minOrderValue) {
+      throw new BadRequestException(
+        `This coupon needs a minimum order of ${coupon.minOrderValue} BDT`,
+      );
+    }
+    if (
+      coupon.categories.length > 0 &&
+      !cart.items.some((item) => coupon.categories.includes(item.category))
+    ) {
+      throw new BadRequestException(
+        `This coupon only applies to ${coupon.categories.join(', ')} items`,
+      );
+    }
+
+    return coupon;
+  }
+
+  /**
+   * Error for a customer who has used up their uses of a coupon.
+   */
+  private perUserLimitError(coupon: Coupon): BadRequestException {
+    return new BadRequestException(
+      coupon.perUserLimit === 1
+        ? 'You have already used this coupon'
+        : `You have already used this coupon ${coupon.perUserLimit} times`,
+    );
+  }
+
+  /**
+   * Check a coupon for an order about to be placed and price it.
+   */
+  async evaluate(code: string, userId: string, cart: CouponCart): Promise<AppliedCoupon> {
+    const coupon = await this.checkEligibility(code, userId, cart);
+    return { coupon, discount: this.computeApplicableDiscount(coupon, cart) };
+  }
+
+  /**
+   * Discount a coupon gives on a cart; fails if there is none.
+   */
+  private computeApplicableDiscount(coupon: Coupon, cart: CouponCart): number {
+    const discount = this.computeDiscount(coupon, cart);
+    if (discount <= 0) {
+      throw new BadRequestException(
+        coupon.type === CouponType.FREE_DELIVERY
+          ? 'Delivery is already free for this order'
+          : 'This coupon gives no discount on this order',
+      );
+    }
+    return discount;
+  }
+
+  /**
+   * Check a coupon against the items a customer is about to order.
+   * Items are priced and the coupon checked as at checkout, except that
+   * a free delivery coupon can't be priced without the addresses.
+   */
+  async validate(userId: string, dto: ValidateCouponDto): Promise<CouponValidation> {
+    const { items, itemsTotal } = await this.orderPricingService.priceItems(dto.items);
+    const cart: CouponCart = { itemsTotal, deliveryCharge: 0, items };
+
+    const coupon = await this.checkEligibility(dto.code, userId, cart);
+    const freeDelivery = coupon.type === CouponType.FREE_DELIVERY;
+    return {
+      code: coupon.code,
+      type: coupon.type,
+      description: coupon.description,
+      itemsTotal,
+      discount: freeDelivery ? 0 : this.computeApplicableDiscount(coupon, cart),
+      freeDelivery,
+    };
+  }
+
+  /**
+   * Discount of an order's coupon after its items or delivery charge changed.
+   * Limits and validity were checked when the order was placed and aren't
+   * checked again.
+   */
+  async recalculateDiscount(
+    couponId: Types.ObjectId | undefined,
+    cart: CouponCart,
+  ): Promise<number> {
+    if (!couponId) {
+      return 0;
+    }
+    const coupon = await this.couponModel.findById(couponId).exec();
+    return coupon ? this.computeDiscount(coupon, cart) : 0;
+  }
+
+  // ========== Redemptions ==========
+
+  /**
+   * Claim one of a customer's uses of a coupon. When the customer is at
+   * the limit the filter misses and the upsert hits the unique index.
+   */
+  private async claimUserUse(coupon: CouponDocument, user: Types.ObjectId): Promise<boolean> {
+    try {
+      await this.usageModel
+        .updateOne(
+          { coupon: coupon._id, user, count: { $lt: coupon.perUserLimit } },
+          { $inc: { count: 1 } },
+          { upsert: true },
+        )
+        .exec();
+      return true;
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Add to or take from a customer's count of uses of a coupon.
+   */
+  private async countUserUse(
+    couponId: Types.ObjectId,
+    user: Types.ObjectId,
+    by: number,
+  ): Promise<void> {
+    // Uses from before the count was kept aren't in it
+    const filter =
+      by < 0 ? { coupon: couponId, user, count: { $gt: 0 } } : { coupon: couponId, user };
+    await this.usageModel.updateOne(filter, { $inc: { count: by } }, { upsert: by > 0 }).exec();
+  }
+
+  /**
+   * Use up one redemption of a coupon for an order.
+   * The global and per-customer limits are claimed atomically so
+   * concurrent orders can't overshoot them.
+   */
+  async redeem(
+    coupon: CouponDocument,
+    userId: string,
+    orderId: Types.ObjectId,
+    discount: number,
+  ): Promise<void> {
+    const claimed = await this.couponModel
+      .findOneAndUpdate(
+        {
+          _id: coupon._id,
+          $or: [
+            { usageLimit: null },
+            { $expr: { $lt: ['$usedCount', '$usageLimit'] } },
+          ],
+        },
+        { $inc: { usedCount: 1 } },
+        { new: true },
+      )
+      .exec();
+    if (!claimed) {
+      throw new BadRequestException('This coupon has been fully redeemed');
+    }
+
+    const user = new Types.ObjectId(userId);
+    let claimedUserUse = false;
+    try {
+      claimedUserUse = await this.claimUserUse(coupon, user);
+      if (!claimedUserUse) {
+        throw this.perUserLimitError(coupon);
+      }
+      await this.redemptionModel.create({
+        coupon: coupon._id,
+        code: coupon.code,
+        user,
+        order: orderId,
+        discount,
+      });
+    } catch (error) {
+      await this.couponModel.updateOne({ _id: coupon._id }, { $inc: { usedCount: -1 } }).exec();
+      if (claimedUserUse) {
+        await this.countUserUse(coupon._id as Types.ObjectId, user, -1);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Undo a redemption whose order was never saved.
+   */
+  async undoRedemption(orderId: Types.ObjectId): Promise<void> {
+    const redemption = await this.redemptionModel.findOneAndDelete({ order: orderId }).exec();
+    if (redemption && !redemption.releasedAt) {
+      await this.couponModel
+        .updateOne({ _id: redemption.coupon }, { $inc: { usedCount: -1 } })
+        .exec();
+      await this.countUserUse(redemption.coupon, redemption.user, -1);
+    }
+  }
+
+  /**
+   * Give back the coupon use of a cancelled order.
+   * Returns false if the order had no coupon or it was already released.
+   */
+  async release(orderId: Types.ObjectId): Promise<boolean> {
+    const redemption = await this.redemptionModel
+      .findOneAndUpdate(
+        { order: orderId, releasedAt: null },
+        { $set: { releasedAt: new Date() } },
+      )
+      .exec();
+    if (!redemption) {
+      return false;
+    }
+    await this.couponModel
+      .updateOne({ _id: redemption.coupon }, { $inc: { usedCount: -1 } })
+      .exec();
+    await this.countUserUse(redemption.coupon, redemption.user, -1);
+    return true;
+  }
+
+  /**
+   * Count a released coupon use again when a cancelled order is restored.
+   * Limits are not rechecked since the order already had the discount.
+   */
+  async reinstate(orderId: Types.ObjectId): Promise<boolean> {
+    const redemption = await this.redemptionModel
+      .findOneAndUpdate(
+        { order: orderId, releasedAt: { $ne: null } },
+        { $unset: { releasedAt: 1 } },
+      )
+      .exec();
+    if (!redemption) {
+      return false;
+    }
+    await this.couponModel
+      .updateOne({ _id: redemption.coupon }, { $inc: { usedCount: 1 } })
+      .exec();
+    await this.countUserUse(redemption.coupon, redemption.user, 1);
+    return true;
+  }
+}
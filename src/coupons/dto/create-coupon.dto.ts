@@ -0,0 +1,99 @@
+import {
+  IsString,
+  IsEnum,
+  IsNumber,
+  IsInt,
+  IsOptional,
+  IsBoolean,
+  IsArray,
+  IsDateString,
+  Matches,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CouponType } from '../enums/coupon-type.enum';
+import { ClothingCategory } from '../../catalog/enums/clothing-category.enum';
+
+export class CreateCouponDto {
+  @ApiProperty({ description: 'Code customers enter (letters, digits, - and _)', example: 'EID25' })
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]{3,30}$/, {
+    message: 'code must be 3-30 letters, digits, hyphens or underscores',
+  })
+  code: string;
+
+  @ApiPropertyOptional({ example: '25% off for Eid, up to 200 BDT' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @ApiProperty({ enum: CouponType, example: CouponType.PERCENTAGE })
+  @IsEnum(CouponType)
+  type: CouponType;
+
+  @ApiPropertyOptional({
+    description: 'Percent for percentage coupons, BDT for flat coupons; unused for free delivery',
+    example: 25,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  value?: number;
+
+  @ApiPropertyOptional({ description: 'Cap on a percentage discount in BDT', example: 200 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxDiscount?: number;
+
+  @ApiPropertyOptional({ description: 'Items total (BDT) the order must reach', example: 500 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minOrderValue?: number;
+
+  @ApiPropertyOptional({ example: '2025-03-25T00:00:00+06:00' })
+  @IsOptional()
+  @IsDateString()
+  validFrom?: string;
+
+  @ApiPropertyOptional({ example: '2025-04-05T23:59:59+06:00' })
+  @IsOptional()
+  @IsDateString()
+  validUntil?: string;
+
+  @ApiPropertyOptional({ description: 'Redemptions allowed in total (omit for unlimited)', example: 500 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimit?: number;
+
+  @ApiPropertyOptional({ description: 'Redemptions allowed per customer', example: 1, default: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  perUserLimit?: number;
+
+  @ApiPropertyOptional({ description: "Only for a customer's first order", default: false })
+  @IsOptional()
+  @IsBoolean()
+  firstOrderOnly?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Only items in these categories are discounted (omit for all)',
+    enum: ClothingCategory,
+    isArray: true,
+    example: [ClothingCategory.WOMEN],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(ClothingCategory, { each: true })
+  categories?: ClothingCategory[];
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,84 @@
+import {
+  IsString,
+  IsEnum,
+  IsNumber,
+  IsInt,
+  IsOptional,
+  IsBoolean,
+  IsArray,
+  IsDateString,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { CouponType } from '../enums/coupon-type.enum';
+import { ClothingCategory } from '../../catalog/enums/clothing-category.enum';
+
+export class UpdateCouponDto {
+  @ApiPropertyOptional({ example: '25% off for Eid, up to 200 BDT' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @ApiPropertyOptional({ enum: CouponType })
+  @IsOptional()
+  @IsEnum(CouponType)
+  type?: CouponType;
+
+  @ApiPropertyOptional({ example: 25 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  value?: number;
+
+  @ApiPropertyOptional({ example: 200 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxDiscount?: number;
+
+  @ApiPropertyOptional({ example: 500 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minOrderValue?: number;
+
+  @ApiPropertyOptional({ example: '2025-03-25T00:00:00+06:00' })
+  @IsOptional()
+  @IsDateString()
+  validFrom?: string;
+
+  @ApiPropertyOptional({ example: '2025-04-05T23:59:59+06:00' })
+  @IsOptional()
+  @IsDateString()
+  validUntil?: string;
+
+  @ApiPropertyOptional({ example: 500 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimit?: number;
+
+  @ApiPropertyOptional({ example: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  perUserLimit?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  firstOrderOnly?: boolean;
+
+  @ApiPropertyOptional({ enum: ClothingCategory, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(ClothingCategory, { each: true })
+  categories?: ClothingCategory[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,20 @@
+import { IsString, IsArray, ArrayMinSize, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { OrderItemDto } from '../../orders/dto/create-order.dto';
+
+/**
+ * DTO for checking a coupon against a cart before placing the order.
+ */
+export class ValidateCouponDto {
+  @ApiProperty({ example: 'EID25' })
+  @IsString()
+  code: string;
+
+  @ApiProperty({ description: 'Items the customer is about to order', type: [OrderItemDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => OrderItemDto)
+  items: OrderItemDto[];
+}
@@ -0,0 +1,8 @@
+/**
+ * How a coupon's discount is worked out.
+ */
+export enum CouponType {
+  PERCENTAGE = 'percentage', // Percent of the eligible items total, optionally capped
+  FLAT = 'flat', // Fixed BDT amount off the eligible items total
+  FREE_DELIVERY = 'free_delivery', // Waives the delivery charge
+}
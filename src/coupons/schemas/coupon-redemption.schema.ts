@@ -0,0 +1,52 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CouponRedemptionDocument = CouponRedemption & Document;
+
+/**
+ * Coupon redemption schema.
+ * One coupon applied to one order; released again if the order is cancelled.
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class CouponRedemption {
+  @Prop({ type: Types.ObjectId, ref: 'Coupon', required: true })
+  coupon: Types.ObjectId;
+
+  @Prop({ type: String, required: true })
+  code: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  user: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Order', required: true, unique: true })
+  order: Types.ObjectId;
+
+  // Discount (BDT) when the order was placed
+  @Prop({ type: Number, required: true, min: 0 })
+  discount: number;
+
+  // Set when the order was cancelled and the use given back
+  @Prop({ type: Date })
+  releasedAt?: Date;
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const CouponRedemptionSchema = SchemaFactory.createForClass(CouponRedemption);
+
+// Indexes
+CouponRedemptionSchema.index({ coupon: 1, user: 1, releasedAt: 1 });
+CouponRedemptionSchema.index({ coupon: 1, createdAt: -1 });
@@ -0,0 +1,30 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CouponUsageDocument = CouponUsage & Document;
+
+/**
+ * Coupon usage schema.
+ * How many unreleased uses of a coupon a customer has; claimed with a
+ * conditional increment so concurrent orders can't pass the per-user limit.
+ */
+@Schema({ timestamps: true })
+export class CouponUsage {
+  @Prop({ type: Types.ObjectId, ref: 'Coupon', required: true })
+  coupon: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  user: Types.ObjectId;
+
+  @Prop({ type: Number, min: 0, default: 0 })
+  count: number;
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const CouponUsageSchema = SchemaFactory.createForClass(CouponUsage);
+
+// Indexes
+CouponUsageSchema.index({ coupon: 1, user: 1 }, { unique: true });
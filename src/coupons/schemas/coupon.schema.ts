@@ -0,0 +1,86 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { CouponType } from '../enums/coupon-type.enum';
+import { ClothingCategory } from '../../catalog/enums/clothing-category.enum';
+
+export type CouponDocument = Coupon & Document;
+
+/**
+ * Coupon schema.
+ * An admin-managed discount code with its eligibility rules.
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class Coupon {
+  // Stored uppercase (e.g. "EID25")
+  @Prop({ type: String, required: true, unique: true, uppercase: true, trim: true })
+  code: string;
+
+  @Prop({ type: String, default: '' })
+  description: string;
+
+  @Prop({ type: String, enum: CouponType, required: true })
+  type: CouponType;
+
+  // Percent for PERCENTAGE, BDT for FLAT, unused for FREE_DELIVERY
+  @Prop({ type: Number, min: 0, default: 0 })
+  value: number;
+
+  // Cap on a percentage discount in BDT
+  @Prop({ type: Number, min: 0 })
+  maxDiscount?: number;
+
+  // Items total (BDT) the order must reach
+  @Prop({ type: Number, min: 0, default: 0 })
+  minOrderValue: number;
+
+  @Prop({ type: Date })
+  validFrom?: Date;
+
+  @Prop({ type: Date })
+  validUntil?: Date;
+
+  // Redemptions allowed across all customers (unset = unlimited)
+  @Prop({ type: Number, min: 1 })
+  usageLimit?: number;
+
+  @Prop({ type: Number, min: 1, default: 1 })
+  perUserLimit: number;
+
+  // Redemptions on orders that haven't been cancelled
+  @Prop({ type: Number, min: 0, default: 0 })
+  usedCount: number;
+
+  // Only for a customer's first order that isn't cancelled
+  @Prop({ type: Boolean, default: false })
+  firstOrderOnly: boolean;
+
+  // Only items in these categories count towards the discount (empty = all)
+  @Prop({ type: [String], enum: ClothingCategory, default: [] })
+  categories: ClothingCategory[];
+
+  @Prop({ type: Boolean, default: true })
+  isActive: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const CouponSchema = SchemaFactory.createForClass(Coupon);
+
+// Indexes
+CouponSchema.index({ isActive: 1, validUntil: 1 });
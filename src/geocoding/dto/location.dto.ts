@@ -0,0 +1,12 @@
+import { IsLatitude, IsLongitude } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class LocationDto {
+  @ApiProperty({ example: 23.7461 })
+  @IsLatitude()
+  lat: number;
+
+  @ApiProperty({ example: 90.3742 })
+  @IsLongitude()
+  lng: number;
+}
@@ -0,0 +1,46 @@
+import { Module, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { GeocodingService } from './geocoding.service';
+import { GEOCODING_PROVIDER, GeocodingProvider } from './providers/geocoding-provider.interface';
+import { OfflineGeocodingProvider } from './providers/offline-geocoding.provider';
+import { NominatimGeocodingProvider } from './providers/nominatim-geocoding.provider';
+
+/**
+ * Pick the geocoding provider from GEOCODING_PROVIDER (offline | nominatim).
+ */
+function createGeocodingProvider(configService: ConfigService): GeocodingProvider {
+  const provider = configService.get<string>('GEOCODING_PROVIDER', 'offline');
+
+  switch (provider) {
+    case 'nominatim':
+      return new NominatimGeocodingProvider({
+        baseUrl: configService.get<string>(
+          'NOMINATIM_BASE_URL',
+          'https://nominatim.openstreetmap.org',
+        ),
+        userAgent: configService.getOrThrow<string>('GEOCODING_USER_AGENT'),
+        countryCodes: configService.get<string>('GEOCODING_COUNTRY_CODES', 'bd'),
+      });
+    case 'offline':
+      return new OfflineGeocodingProvider();
+    default:
+      new Logger('GeocodingModule').warn(`Unknown GEOCODING_PROVIDER "${provider}", using offline`);
+      return new OfflineGeocodingProvider();
+  }
+}
+
+/**
+ * Geocoding module - pluggable address-to-coordinates lookup.
+ */
+@Module({
+  providers: [
+    GeocodingService,
+    {
+      provide: GEOCODING_PROVIDER,
+      useFactory: createGeocodingProvider,
+      inject: [ConfigService],
+    },
+  ],
+  exports: [GeocodingService], // Export for use in Users and Orders modules
+})
+export class GeocodingModule {}
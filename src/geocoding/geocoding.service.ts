@@ -0,0 +1,47 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import {
+  GEOCODING_PROVIDER,
+  GeocodingProvider,
+  GeocodingResult,
+} from './providers/geocoding-provider.interface';
+
+/**
+ * Geocoding service - resolves addresses to coordinates through the
+ * configured provider. Lookups are best-effort: provider failures are
+ * logged and treated as "not found" so they never block a customer.
+ */
+@Injectable()
+export class GeocodingService {
+  private readonly logger = new Logger(GeocodingService.name);
+
+  constructor(@Inject(GEOCODING_PROVIDER) private provider: GeocodingProvider) {}
+
+  /**
+   * Find coordinates (and the neighbourhood) for an address.
+   */
+  async geocode(address: { fullAddress: string; area?: string }): Promise<GeocodingResult | null> {
+    const query =
+      address.area && !address.fullAddress.toLowerCase().includes(address.area.toLowerCase())
+        ? `${address.fullAddress}, ${address.area}`
+        : address.fullAddress;
+
+    try {
+      return await this.provider.geocode(query);
+    } catch (error) {
+      this.logger.warn(`Geocoding via ${this.provider.name} failed: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Find the neighbourhood at a map position.
+   */
+  async reverse(lat: number, lng: number): Promise<GeocodingResult | null> {
+    try {
+      return await this.provider.reverse(lat, lng);
+    } catch (error) {
+      this.logger.warn(`Reverse geocoding via ${this.provider.name} failed: ${error}`);
+      return null;
+    }
+  }
+}
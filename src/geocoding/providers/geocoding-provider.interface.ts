@@ -0,0 +1,32 @@
+/**
+ * Injection token for the active geocoding provider.
+ */
+export const GEOCODING_PROVIDER = 'GEOCODING_PROVIDER';
+
+/**
+ * A resolved position for an address.
+ */
+export interface GeocodingResult {
+  lat: number;
+  lng: number;
+  area?: string;
+  formattedAddress?: string;
+}
+
+/**
+ * Contract every geocoding integration implements.
+ * Methods return null when nothing matches and throw on transport errors.
+ */
+export interface GeocodingProvider {
+  readonly name: string;
+
+  /**
+   * Find coordinates for a free-text address.
+   */
+  geocode(address: string): Promise<GeocodingResult | null>;
+
+  /**
+   * Find the neighbourhood at a map position.
+   */
+  reverse(lat: number, lng: number): Promise<GeocodingResult | null>;
+}
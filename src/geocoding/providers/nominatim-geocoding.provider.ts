@@ -0,0 +1,70 @@
+import { GeocodingProvider, GeocodingResult } from './geocoding-provider.interface';
+
+export interface NominatimConfig {
+  baseUrl: string;
+  userAgent: string;
+  countryCodes: string;
+}
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name?: string;
+  address?: Record<string, string>;
+}
+
+/**
+ * OpenStreetMap Nominatim provider.
+ * The public instance requires an identifying User-Agent and allows
+ * about one request per second; point NOMINATIM_BASE_URL at a
+ * self-hosted instance for production traffic.
+ */
+export class NominatimGeocodingProvider implements GeocodingProvider {
+  readonly name = 'nominatim';
+
+  constructor(private readonly config: NominatimConfig) {}
+
+  async geocode(address: string): Promise<GeocodingResult | null> {
+    const params = new URLSearchParams({
+      q: address,
+      format: 'jsonv2',
+      addressdetails: '1',
+      limit: '1',
+      countrycodes: this.config.countryCodes,
+    });
+    const places = await this.request<NominatimPlace[]>(`/search?${params}`);
+    return places[0] ? this.toResult(places[0]) : null;
+  }
+
+  async reverse(lat: number, lng: number): Promise<GeocodingResult | null> {
+    const params = new URLSearchParams({
+      lat: String(lat),
+      lon: String(lng),
+      format: 'jsonv2',
+      addressdetails: '1',
+      zoom: '16',
+    });
+    const place = await this.request<NominatimPlace & { error?: string }>(`/reverse?${params}`);
+    return place.error ? null : this.toResult(place);
+  }
+
+  private async request<T>(path: string): Promise<T> {
+    const response = await fetch(`${this.config.baseUrl}${path}`, {
+      headers: { 'User-Agent': this.config.userAgent, Accept: 'application/json' },
+    });
+    if (!response.ok) {
+      throw new Error(`Nominatim request failed: ${response.status} ${response.statusText}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  private toResult(place: NominatimPlace): GeocodingResult {
+    const address = place.address || {};
+    return {
+      lat: Number(place.lat),
+      lng: Number(place.lon),
+      area: address.suburb || address.neighbourhood || address.city_district || address.quarter,
+      formattedAddress: place.display_name,
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import { GeocodingProvider, GeocodingResult } from './geocoding-provider.interface';
+import { haversineDistanceKm } from '../../common/utils/geo.util';
+
+/**
+ * Approximate centres of Dhaka neighbourhoods.
+ */
+const DHAKA_AREAS: Array<{ area: string; lat: number; lng: number }> = [
+  { area: 'Dhanmondi', lat: 23.7461, lng: 90.3742 },
+  { area: 'Lalmatia', lat: 23.7566, lng: 90.3694 },
+  { area: 'Mohammadpur', lat: 23.7662, lng: 90.3589 },
+  { area: 'Kalabagan', lat: 23.7502, lng: 90.3834 },
+  { area: 'Farmgate', lat: 23.7581, lng: 90.3897 },
+  { area: 'Tejgaon', lat: 23.7637, lng: 90.3948 },
+  { area: 'Mirpur', lat: 23.8223, lng: 90.3654 },
+  { area: 'Shyamoli', lat: 23.7746, lng: 90.3653 },
+  { area: 'Agargaon', lat: 23.7776, lng: 90.3806 },
+  { area: 'Gulshan', lat: 23.7925, lng: 90.4078 },
+  { area: 'Banani', lat: 23.7937, lng: 90.4066 },
+  { area: 'Baridhara', lat: 23.8032, lng: 90.4217 },
+  { area: 'Mohakhali', lat: 23.7786, lng: 90.4009 },
+  { area: 'Badda', lat: 23.7806, lng: 90.4262 },
+  { area: 'Rampura', lat: 23.7612, lng: 90.4209 },
+  { area: 'Bashundhara', lat: 23.8193, lng: 90.4526 },
+  { area: 'Uttara', lat: 23.8759, lng: 90.3795 },
+  { area: 'Motijheel', lat: 23.733, lng: 90.4172 },
+  { area: 'Ramna', lat: 23.7383, lng: 90.3958 },
+  { area: 'Paltan', lat: 23.7352, lng: 90.4125 },
+  { area: 'Shantinagar', lat: 23.7394, lng: 90.4149 },
+  { area: 'Malibagh', lat: 23.7487, lng: 90.4153 },
+  { area: 'Khilgaon', lat: 23.7515, lng: 90.4286 },
+  { area: 'Azimpur', lat: 23.7259, lng: 90.3856 },
+  { area: 'Old Dhaka', lat: 23.7104, lng: 90.4074 },
+  { area: 'Jatrabari', lat: 23.7104, lng: 90.4346 },
+];
+
+// Pins further than this from every known centre are not given an area
+const MAX_REVERSE_DISTANCE_KM = 3;
+
+/**
+ * Offline stand-in for development and tests.
+ * Recognises Dhaka neighbourhood names in an address and returns the
+ * neighbourhood centre; never makes network calls.
+ */
+export class OfflineGeocodingProvider implements GeocodingProvider {
+  readonly name = 'offline';
+
+  async geocode(address: string): Promise<GeocodingResult | null> {
+    const text = address.toLowerCase();
+    const match = DHAKA_AREAS.find(({ area }) => text.includes(area.toLowerCase()));
+    if (!match) {
+      return null;
+    }
+    return { lat: match.lat, lng: match.lng, area: match.area };
+  }
+
+  async reverse(lat: number, lng: number): Promise<GeocodingResult | null> {
+    let nearest: { area: string; distance: number } | null = null;
+    for (const candidate of DHAKA_AREAS) {
+      const distance = haversineDistanceKm({ lat, lng }, candidate);
+      if (!nearest || distance < nearest.distance) {
+        nearest = { area: candidate.area, distance };
+      }
+    }
+
+    if (!nearest || nearest.distance > MAX_REVERSE_DISTANCE_KM) {
+      return null;
+    }
+    return { lat, lng, area: nearest.area };
+  }
+}
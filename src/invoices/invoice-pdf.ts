@@ -0,0 +1,252 @@
+import * as PDFDocument from 'pdfkit';
+
+/**
+ * Company details printed in the receipt header.
+ */
+export interface InvoiceCompany {
+  name: string;
+  address: string;
+  phone?: string;
+  email?: string;
+  // VAT registration number (BIN)
+  vatRegistrationNumber?: string;
+}
+
+/**
+ * One line item on the receipt.
+ */
+export interface InvoiceLine {
+  name: { en: string; bn?: string };
+  services: string[];
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+/**
+ * A labelled amount below the line items (charges are positive,
+ * discounts and refunds negative).
+ */
+export interface InvoiceAmount {
+  label: string;
+  amount: number;
+}
+
+/**
+ * Everything printed on a receipt.
+ */
+export interface InvoiceView {
+  invoiceNumber: string;
+  issuedAt: Date;
+  orderRef: string;
+  orderStatus: string;
+  company: InvoiceCompany;
+  customer: { name: string; phone: string; address: string };
+  lines: InvoiceLine[];
+  itemsTotal: number;
+  // Delivery charge, fees and discounts, in print order
+  adjustments: InvoiceAmount[];
+  grandTotal: number;
+  payment: { method: { en: string; bn: string }; status: string; paidAmount: number };
+  refundedAmount: number;
+  amountDue: number;
+}
+
+const BENGALI_FONT = 'Bengali';
+const BENGALI_RUN = /([\u0980-\u09FF][\u0980-\u09FF\s]*)/;
+
+const PAGE_MARGIN = 40;
+const COLUMNS = {
+  index: { x: 40, width: 20 },
+  item: { x: 62, width: 190 },
+  services: { x: 256, width: 110 },
+  quantity: { x: 370, width: 35 },
+  unitPrice: { x: 408, width: 70 },
+  amount: { x: 482, width: 73 },
+};
+
+function formatAmount(amount: number): string {
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}BDT ${Math.abs(amount).toLocaleString('en-IN', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+/**
+ * Write text that may mix Bangla and Latin script, switching to the
+ * Bengali font for Bangla runs (the standard fonts have no Bangla glyphs).
+ */
+function writeMixed(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  x: number,
+  y: number,
+  options: PDFKit.Mixins.TextOptions = {},
+  latinFont = 'Helvetica',
+): void {
+  const runs = text.split(BENGALI_RUN).filter((run) => run.length > 0);
+  if (runs.length === 0) {
+    return;
+  }
+  runs.forEach((run, i) => {
+    doc.font(BENGALI_RUN.test(run) ? BENGALI_FONT : latinFont);
+    const runOptions = { ...options, continued: i < runs.length - 1 };
+    if (i === 0) {
+      doc.text(run, x, y, runOptions);
+    } else {
+      doc.text(run, runOptions);
+    }
+  });
+  doc.font(latinFont);
+}
+
+/**
+ * Render a receipt as an A4 PDF.
+ * Fonts are read from disk, so this works without network access.
+ */
+export function renderInvoicePdf(view: InvoiceView, bengaliFontPath: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      info: {
+        Title: `Receipt ${view.invoiceNumber}`,
+        Author: view.company.name,
+      },
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.registerFont(BENGALI_FONT, bengaliFontPath);
+    const right = doc.page.width - PAGE_MARGIN;
+
+    // Company header
+    doc.font('Helvetica-Bold').fontSize(18).text(view.company.name, PAGE_MARGIN, PAGE_MARGIN);
+    doc.font('Helvetica').fontSize(9);
+    const companyLines = [
+      view.company.address,
+      view.company.phone && `Phone: ${view.company.phone}`,
+      view.company.email && `Email: ${view.company.email}`,
+      view.company.vatRegistrationNumber && `BIN: ${view.company.vatRegistrationNumber}`,
+    ].filter((line): line is string => !!line);
+    for (const line of companyLines) {
+      writeMixed(doc, line, PAGE_MARGIN, doc.y, { width: 260 });
+    }
+
+    // Receipt details
+    doc.font('Helvetica-Bold').fontSize(16).text('RECEIPT', 330, PAGE_MARGIN, {
+      width: right - 330,
+      align: 'right',
+    });
+    doc.font(BENGALI_FONT).fontSize(12).text('রসিদ', { width: right - 330, align: 'right' });
+    doc.font('Helvetica').fontSize(9);
+    const details = [
+      `Invoice no: ${view.invoiceNumber}`,
+      `Date: ${view.issuedAt.toISOString().slice(0, 10)}`,
+      `Order: ${view.orderRef}`,
+      `Status: ${view.orderStatus}`,
+    ];
+    for (const line of details) {
+      doc.text(line, 330, doc.y, { width: right - 330, align: 'right' });
+    }
+
+    // Customer
+    let y = Math.max(doc.y, PAGE_MARGIN + 80) + 15;
+    doc.font('Helvetica-Bold').fontSize(10).text('Billed to', PAGE_MARGIN, y);
+    doc.fontSize(9);
+    writeMixed(doc, view.customer.name, PAGE_MARGIN, doc.y, { width: 300 });
+    writeMixed(doc, view.customer.phone, PAGE_MARGIN, doc.y, { width: 300 });
+    writeMixed(doc, view.customer.address, PAGE_MARGIN, doc.y, { width: 300 });
+
+    // Line items
+    y = doc.y + 15;
+    doc.font('Helvetica-Bold').fontSize(9);
+    doc.text('#', COLUMNS.index.x, y, { width: COLUMNS.index.width });
+    doc.text('Item', COLUMNS.item.x, y, { width: COLUMNS.item.width });
+    doc.text('Services', COLUMNS.services.x, y, { width: COLUMNS.services.width });
+    doc.text('Qty', COLUMNS.quantity.x, y, { width: COLUMNS.quantity.width, align: 'right' });
+    doc.text('Unit price', COLUMNS.unitPrice.x, y, { width: COLUMNS.unitPrice.width, align: 'right' });
+    doc.text('Amount', COLUMNS.amount.x, y, { width: COLUMNS.amount.width, align: 'right' });
+    y = doc.y + 4;
+    doc.moveTo(PAGE_MARGIN, y).lineTo(right, y).stroke();
+    y += 6;
+
+    doc.font('Helvetica').fontSize(9);
+    view.lines.forEach((line, i) => {
+      if (y > doc.page.height - 200) {
+        doc.addPage();
+        y = PAGE_MARGIN;
+      }
+      doc.text(String(i + 1), COLUMNS.index.x, y, { width: COLUMNS.index.width });
+      doc.text(line.name.en, COLUMNS.item.x, y, { width: COLUMNS.item.width });
+      let rowBottom = doc.y;
+      if (line.name.bn) {
+        writeMixed(doc, line.name.bn, COLUMNS.item.x, doc.y, { width: COLUMNS.item.width });
+        rowBottom = doc.y;
+      }
+      doc.text(line.services.join(', '), COLUMNS.services.x, y, { width: COLUMNS.services.width });
+      rowBottom = Math.max(rowBottom, doc.y);
+      doc.text(String(line.quantity), COLUMNS.quantity.x, y, {
+        width: COLUMNS.quantity.width,
+        align: 'right',
+      });
+      doc.text(formatAmount(line.unitPrice), COLUMNS.unitPrice.x, y, {
+        width: COLUMNS.unitPrice.width,
+        align: 'right',
+      });
+      doc.text(formatAmount(line.amount), COLUMNS.amount.x, y, {
+        width: COLUMNS.amount.width,
+        align: 'right',
+      });
+      y = rowBottom + 6;
+    });
+    doc.moveTo(PAGE_MARGIN, y).lineTo(right, y).stroke();
+    y += 8;
+
+    // Totals
+    const totalRow = (label: string, amount: string, bold = false) => {
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(bold ? 10 : 9);
+      doc.text(label, 300, y, { width: 175, align: 'right' });
+      doc.text(amount, COLUMNS.amount.x - 10, y, {
+        width: COLUMNS.amount.width + 10,
+        align: 'right',
+      });
+      y = doc.y + 4;
+    };
+    totalRow('Items total', formatAmount(view.itemsTotal));
+    for (const adjustment of view.adjustments) {
+      totalRow(adjustment.label, formatAmount(adjustment.amount));
+    }
+    totalRow('Grand total', formatAmount(view.grandTotal), true);
+    totalRow('Paid', formatAmount(view.payment.paidAmount));
+    if (view.refundedAmount > 0) {
+      totalRow('Refunded', formatAmount(-view.refundedAmount));
+    }
+    totalRow('Balance due', formatAmount(view.amountDue), true);
+
+    // Payment
+    y += 10;
+    doc.font('Helvetica-Bold').fontSize(9).text('Payment method: ', PAGE_MARGIN, y, {
+      continued: true,
+    });
+    doc.font('Helvetica').text(`${view.payment.method.en} (`, { continued: true });
+    doc.font(BENGALI_FONT).text(view.payment.method.bn, { continued: true });
+    doc.font('Helvetica').text(`), ${view.payment.status}`);
+
+    // Footer
+    doc.font('Helvetica').fontSize(9).text('Thank you for choosing us! ', PAGE_MARGIN, doc.y + 20, {
+      continued: true,
+    });
+    doc.font(BENGALI_FONT).text('আমাদের সেবা নেওয়ার জন্য ধন্যবাদ!');
+    doc
+      .font('Helvetica')
+      .fontSize(7)
+      .fillColor('#666666')
+      .text('This receipt was generated electronically and needs no signature.', PAGE_MARGIN);
+
+    doc.end();
+  });
+}
@@ -0,0 +1,61 @@
+import { Controller, Get, Param, UseGuards, StreamableFile } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiProduces } from '@nestjs/swagger';
+import { InvoicesService } from './invoices.service';
+import { JwtAuthGuard, RolesGuard, CurrentUser, Roles } from '../common';
+import { UserRole } from '../users/enums/user-role.enum';
+import { UserDocument } from '../users/schemas/user.schema';
+
+/**
+ * Invoices controller - invoice numbers and downloadable receipts.
+ */
+@ApiTags('Invoices')
+@ApiBearerAuth('JWT-auth')
+@Controller('invoices')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class InvoicesController {
+  constructor(private readonly invoicesService: InvoicesService) {}
+
+  /**
+   * Invoice number for an order, issued on first request.
+   */
+  @Get('orders/:orderId')
+  @ApiOperation({ summary: 'Get invoice for an order' })
+  @ApiResponse({ status: 200, description: 'Invoice number and issue date' })
+  @ApiResponse({ status: 400, description: 'Order not picked up yet' })
+  @ApiResponse({ status: 403, description: 'Access denied to this order' })
+  async getOrderInvoice(@Param('orderId') orderId: string, @CurrentUser() user: UserDocument) {
+    return this.invoicesService.getOrderInvoice(orderId, user);
+  }
+
+  /**
+   * Download the PDF receipt for an order.
+   */
+  @Get('orders/:orderId/pdf')
+  @ApiProduces('application/pdf')
+  @ApiOperation({ summary: 'Download PDF receipt for an order' })
+  @ApiResponse({ status: 200, description: 'PDF receipt' })
+  @ApiResponse({ status: 400, description: 'Order not picked up yet' })
+  @ApiResponse({ status: 403, description: 'Access denied to this order' })
+  async getOrderReceiptPdf(
+    @Param('orderId') orderId: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const { invoiceNumber, pdf } = await this.invoicesService.getOrderReceiptPdf(orderId, user);
+    return new StreamableFile(pdf, {
+      type: 'application/pdf',
+      disposition: `attachment; filename="${invoiceNumber}.pdf"`,
+    });
+  }
+
+  /**
+   * Look up an invoice by number (admin).
+   */
+  @Get(':invoiceNumber')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get invoice by number (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Invoice with its order' })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  async getByNumber(@Param('invoiceNumber') invoiceNumber: string) {
+    return this.invoicesService.getByNumber(invoiceNumber);
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { InvoicesService } from './invoices.service';
+import { InvoicesController } from './invoices.controller';
+import { Invoice, InvoiceSchema } from './schemas/invoice.schema';
+import { InvoiceCounter, InvoiceCounterSchema } from './schemas/invoice-counter.schema';
+import { OrdersModule } from '../orders/orders.module';
+import { OrderPricingModule } from '../orders/order-pricing.module';
+import { CatalogModule } from '../catalog/catalog.module';
+
+/**
+ * Invoices module - sequential invoice numbers and PDF receipts.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Invoice.name, schema: InvoiceSchema },
+      { name: InvoiceCounter.name, schema: InvoiceCounterSchema },
+    ]),
+    OrdersModule, // For order access checks
+    OrderPricingModule, // For the order total
+    CatalogModule, // For bilingual item and service names
+  ],
+  controllers: [InvoicesController],
+  providers: [InvoicesService],
+})
+export class InvoicesModule {}
@@ -0,0 +1,269 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { Invoice, InvoiceDocument } from './schemas/invoice.schema';
+import { InvoiceCounter, InvoiceCounterDocument } from './schemas/invoice-counter.schema';
+import { InvoiceView, InvoiceAmount, renderInvoicePdf } from './invoice-pdf';
+import { OrdersService } from '../orders/orders.service';
+import { OrderDocument } from '../orders/schemas/order.schema';
+import { OrderPricingService } from '../orders/order-pricing.service';
+import { OrderStatus, ORDER_STATUS_LABELS } from '../orders/enums/order-status.enum';
+import { CatalogService } from '../catalog/catalog.service';
+import {
+  PaymentMethod,
+  PAYMENT_METHOD_LABELS,
+} from '../payments/enums/payment-method.enum';
+import { OrderPaymentStatus } from '../payments/enums/order-payment-status.enum';
+import { UserDocument } from '../users/schemas/user.schema';
+import { toDhakaDateString } from '../common/utils/date.util';
+
+/**
+ * Statuses before the price is confirmed at pickup; receipts are only
+ * issued for these once something has been paid.
+ */
+const UNCONFIRMED_STATUSES = [OrderStatus.REQUESTED, OrderStatus.PICKUP_FAILED];
+
+/**
+ * How long to wait for a concurrent request to number an invoice.
+ */
+const NUMBERING_RETRIES = 5;
+const NUMBERING_RETRY_DELAY_MS = 100;
+
+/**
+ * Invoices service - sequential invoice numbers and PDF receipts.
+ */
+@Injectable()
+export class InvoicesService {
+  constructor(
+    @InjectModel(Invoice.name) private invoiceModel: Model<InvoiceDocument>,
+    @InjectModel(InvoiceCounter.name) private counterModel: Model<InvoiceCounterDocument>,
+    private ordersService: OrdersService,
+    private orderPricingService: OrderPricingService,
+    private catalogService: CatalogService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Next number in the series of the (Dhaka) year issued, e.g. "INV-2025-000042".
+   */
+  private async nextInvoiceNumber(issuedAt: Date): Promise<string> {
+    const series = toDhakaDateString(issuedAt).slice(0, 4);
+    const counter = await this.counterModel
+      .findOneAndUpdate({ _id: series }, { $inc: { seq: 1 } }, { upsert: true, new: true })
+      .exec();
+    return `INV-${series}-${String(counter.seq).padStart(6, '0')}`;
+  }
+
+  /**
+   * The order's invoice, issuing a number the first time.
+   */
+  private async issueInvoice(order: OrderDocument): Promise<InvoiceDocument> {
+    const existing = await this.invoiceModel.findOne({ order: order._id }).exec();
+    if (existing) {
+      return existing.invoiceNumber ? existing : this.awaitNumber(existing);
+    }
+
+    const paidAmount = order.payment?.paidAmount ?? 0;
+    if (UNCONFIRMED_STATUSES.includes(order.status) && paidAmount === 0) {
+      throw new BadRequestException('A receipt is available once the order has been picked up');
+    }
+    if (order.status === OrderStatus.CANCELLED && paidAmount === 0) {
+      throw new BadRequestException('Nothing was paid on this cancelled order');
+    }
+
+    let invoice: InvoiceDocument;
+    try {
+      invoice = await this.invoiceModel.create({
+        order: order._id,
+        customer: order.customer._id,
+      });
+    } catch (error) {
+      // Two requests raced to issue the first invoice for this order
+      if ((error as { code?: number }).code === 11000) {
+        const raced = await this.invoiceModel.findOne({ order: order._id }).exec();
+        if (raced) {
+          return raced.invoiceNumber ? raced : this.awaitNumber(raced);
+        }
+      }
+      throw error;
+    }
+    return this.assignNumber(invoice);
+  }
+
+  /**
+   * Give a newly created invoice the next number in its series.
+   */
+  private async assignNumber(invoice: InvoiceDocument): Promise<InvoiceDocument> {
+    const invoiceNumber = await this.nextInvoiceNumber(invoice.createdAt);
+    const numbered = await this.invoiceModel
+      .findOneAndUpdate(
+        { _id: invoice._id, invoiceNumber: { $exists: false } },
+        { $set: { invoiceNumber } },
+        { new: true },
+      )
+      .exec();
+    return numbered ?? (this.invoiceModel.findById(invoice._id).exec() as Promise<InvoiceDocument>);
+  }
+
+  /**
+   * Wait for the request that created an invoice to number it. If it
+   * never does (e.g. it crashed in between), number it here.
+   */
+  private async awaitNumber(invoice: InvoiceDocument): Promise<InvoiceDocument> {
+    for (let attempt = 0; attempt < NUMBERING_RETRIES; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, NUMBERING_RETRY_DELAY_MS));
+      const current = await this.invoiceModel.findById(invoice._id).exec();
+      if (current?.invoiceNumber) {
+        return current;
+      }
+    }
+    return this.assignNumber(invoice);
+  }
+
+  /**
+   * Get (or issue) the invoice for an order.
+   * Same access rules as viewing the order.
+   */
+  async getOrderInvoice(orderId: string, user: UserDocument): Promise<InvoiceDocument> {
+    const order = await this.ordersService.getOrderById(orderId, user);
+    return this.issueInvoice(order);
+  }
+
+  /**
+   * Look up an invoice by number (admin).
+   */
+  async getByNumber(invoiceNumber: string): Promise<InvoiceDocument> {
+    const invoice = await this.invoiceModel
+      .findOne({ invoiceNumber: invoiceNumber.trim().toUpperCase() })
+      .populate('customer', 'fullName phoneNumber')
+      .populate('order', 'status pricing payment createdAt')
+      .exec();
+    if (!invoice) {
+      throw new NotFoundException('Invoice not found');
+    }
+    return invoice;
+  }
+
+  /**
+   * Render the receipt PDF for an order.
+   */
+  async getOrderReceiptPdf(
+    orderId: string,
+    user: UserDocument,
+  ): Promise<{ invoiceNumber: string; pdf: Buffer }> {
+    const order = await this.ordersService.getOrderById(orderId, user);
+    const invoice = await this.issueInvoice(order);
+    const view = await this.buildView(order, invoice);
+    const pdf = await renderInvoicePdf(view, this.getBengaliFontPath());
+    return { invoiceNumber: invoice.invoiceNumber, pdf };
+  }
+
+  /**
+   * Bundled Bangla font, overridable with INVOICE_BENGALI_FONT.
+   */
+  private getBengaliFontPath(): string {
+    return (
+      this.configService.get<string>('INVOICE_BENGALI_FONT') ||
+      require.resolve(
+        '@fontsource/noto-sans-bengali/files/noto-sans-bengali-bengali-400-normal.woff',
+      )
+    );
+  }
+
+  /**
+   * Collect everything printed on the receipt from the order and catalog.
+   */
+  private async buildView(order: OrderDocument, invoice: InvoiceDocument): Promise<InvoiceView> {
+    const [clothingItems, services] = await Promise.all([
+      this.catalogService.getClothingItemsByIds(order.items.map((item) => item.clothingItem)),
+      this.catalogService.getServices(),
+    ]);
+    const namesById = new Map(clothingItems.map((item) => [item._id.toString(), item.name]));
+    const serviceNames = new Map(services.map((service) => [service.type, service.name.en]));
+
+    const customer = order.customer as unknown as UserDocument;
+    const address = order.deliveryAddress || order.pickupAddress;
+    const pricing = order.pricing;
+
+    const adjustments: InvoiceAmount[] = [
+      {
+        label: pricing.deliveryZoneName
+          ? `Delivery charge (${pricing.deliveryZoneName})`
+          : 'Delivery charge',
+        amount: pricing.deliveryCharge,
+      },
+    ];
+    if (pricing.redeliveryFee > 0) {
+      adjustments.push({ label: 'Re-delivery fee', amount: pricing.redeliveryFee });
+    }
+    if (pricing.discount > 0) {
+      adjustments.push({
+        label: pricing.couponCode ? `Discount (${pricing.couponCode})` : 'Discount',
+        amount: -pricing.discount,
+      });
+    }
+    if (pricing.pointsDiscount > 0) {
+      adjustments.push({
+        label: `Loyalty points (${pricing.pointsRedeemed} pts)`,
+        amount: -pricing.pointsDiscount,
+      });
+    }
+
+    // A cancelled order's charges fall away, leaving only the fee
+    const cancelled = order.status === OrderStatus.CANCELLED;
+    if (cancelled) {
+      const charged = adjustments.reduce((sum, line) => sum + line.amount, pricing.itemsTotal);
+      adjustments.push({ label: 'Order cancelled', amount: -charged });
+      if (pricing.cancellationFee > 0) {
+        adjustments.push({ label: 'Cancellation fee', amount: pricing.cancellationFee });
+      }
+    }
+    const grandTotal = this.orderPricingService.computeGrandTotal(pricing, cancelled);
+
+    const payment = order.payment ?? {
+      method: PaymentMethod.CASH_ON_DELIVERY,
+      status: OrderPaymentStatus.UNPAID,
+      paidAmount: 0,
+    };
+
+    return {
+      invoiceNumber: invoice.invoiceNumber,
+      issuedAt: invoice.createdAt,
+      orderRef: '#' + order._id.toString().slice(-6).toUpperCase(),
+      orderStatus: ORDER_STATUS_LABELS[order.status].en,
+      company: {
+        name: this.configService.get<string>('COMPANY_NAME', 'LaundryBD'),
+        address: this.configService.get<string>('COMPANY_ADDRESS', 'Dhaka, Bangladesh'),
+        phone: this.configService.get<string>('COMPANY_PHONE'),
+        email: this.configService.get<string>('COMPANY_EMAIL'),
+        vatRegistrationNumber: this.configService.get<string>('COMPANY_BIN'),
+      },
+      customer: {
+        name: customer.fullName || '',
+        phone: address.contactPhone || customer.phoneNumber || '',
+        address: [address.fullAddress, address.area].filter(Boolean).join(', '),
+      },
+      lines: order.items.map((item) => {
+        const name = namesById.get(item.clothingItem.toString());
+        return {
+          name: { en: name?.en || item.clothingItemName, bn: name?.bn },
+          services: item.services.map((type) => serviceNames.get(type) || type),
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          amount: item.subtotal,
+        };
+      }),
+      itemsTotal: pricing.itemsTotal,
+      adjustments,
+      grandTotal,
+      payment: {
+        method: PAYMENT_METHOD_LABELS[payment.method],
+        status: payment.status.replace(/_/g, ' '),
+        paidAmount: payment.paidAmount,
+      },
+      refundedAmount: pricing.refundedAmount || 0,
+      amountDue: Math.max(0, grandTotal - payment.paidAmount),
+    };
+  }
+}
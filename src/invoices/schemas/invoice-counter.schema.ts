@@ -0,0 +1,19 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type InvoiceCounterDocument = InvoiceCounter & Document<string>;
+
+/**
+ * Last invoice number used per series (one series per year).
+ */
+@Schema({ versionKey: false })
+export class InvoiceCounter {
+  // Series key, e.g. "2025"
+  @Prop({ type: String, required: true })
+  _id: string;
+
+  @Prop({ type: Number, required: true, default: 0 })
+  seq: number;
+}
+
+export const InvoiceCounterSchema = SchemaFactory.createForClass(InvoiceCounter);
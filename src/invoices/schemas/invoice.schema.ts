@@ -0,0 +1,44 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type InvoiceDocument = Invoice & Document;
+
+/**
+ * Invoice schema.
+ * Reserves a sequential invoice number for an order the first time a
+ * receipt is requested; the receipt itself is rendered from the order.
+ * The invoice is created first and numbered once it is known to be the
+ * order's only one, so racing requests don't use up numbers.
+ */
+@Schema({
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class Invoice {
+  // e.g. "INV-2025-000042"; set right after the invoice is created
+  @Prop({ type: String })
+  invoiceNumber: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Order', required: true, unique: true })
+  order: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  customer: Types.ObjectId;
+
+  // Timestamp added by Mongoose (the issue date)
+  createdAt: Date;
+}
+
+export const InvoiceSchema = SchemaFactory.createForClass(Invoice);
+
+// Indexes
+InvoiceSchema.index({ invoiceNumber: 1 }, { unique: true, sparse: true });
+InvoiceSchema.index({ customer: 1, createdAt: -1 });
@@ -0,0 +1,18 @@
+import { IsInt, IsString, IsNotEmpty, MaxLength, NotEquals } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for a manual points correction by an admin.
+ */
+export class AdjustPointsDto {
+  @ApiProperty({ description: 'Points to add (positive) or remove (negative)', example: 200 })
+  @IsInt()
+  @NotEquals(0)
+  points: number;
+
+  @ApiProperty({ description: 'Why the balance is corrected', example: 'Goodwill for late delivery' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  note: string;
+}
@@ -0,0 +1,9 @@
+/**
+ * Kind of entry in a customer's points ledger.
+ */
+export enum LoyaltyTransactionType {
+  EARNED = 'earned', // Awarded for a delivered order
+  REDEEMED = 'redeemed', // Spent as a discount on an order
+  EXPIRED = 'expired', // Unused points past their expiry date
+  ADJUSTED = 'adjusted', // Manual correction, points returned or clawed back
+}
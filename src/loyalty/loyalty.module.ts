@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { LoyaltyService } from './loyalty.service';
+import { LoyaltyWallet, LoyaltyWalletSchema } from './schemas/loyalty-wallet.schema';
+import {
+  LoyaltyTransaction,
+  LoyaltyTransactionSchema,
+} from './schemas/loyalty-transaction.schema';
+
+/**
+ * Loyalty module - points wallet, earning, redemption and expiry.
+ * The wallet endpoints live on the users controller.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: LoyaltyWallet.name, schema: LoyaltyWalletSchema },
+      { name: LoyaltyTransaction.name, schema: LoyaltyTransactionSchema },
+    ]),
+  ],
+  providers: [LoyaltyService],
+  exports: [LoyaltyService], // Export for use in Users, Orders and Payments modules
+})
+export class LoyaltyModule {}
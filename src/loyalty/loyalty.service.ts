@@ -0,0 +1,653 @@
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { LoyaltyWallet, LoyaltyWalletDocument } from './schemas/loyalty-wallet.schema';
+import {
+  LoyaltyTransaction,
+  LoyaltyTransactionDocument,
+  LoyaltyConsumption,
+} from './schemas/loyalty-transaction.schema';
+import { LoyaltyTransactionType } from './enums/loyalty-transaction-type.enum';
+import { AdjustPointsDto } from './dto/adjust-points.dto';
+import { OrderDocument } from '../orders/schemas/order.schema';
+
+/**
+ * Earning and redemption rules, from config.
+ */
+export interface LoyaltyRules {
+  // BDT spent on a delivered order per point earned
+  bdtPerPoint: number;
+  // BDT taken off an order per point redeemed
+  pointValue: number;
+  minRedeemPoints: number;
+  // Largest share of the order (after coupons) points may pay for
+  maxRedeemPercent: number;
+  expiryDays: number;
+}
+
+/**
+ * A customer's points balance with recent ledger entries.
+ */
+export interface LoyaltyWalletView {
+  balance: number;
+  balanceValue: number;
+  lifetimeEarned: number;
+  lifetimeRedeemed: number;
+  nextExpiry: { points: number; expiresAt: Date } | null;
+  rules: LoyaltyRules;
+  transactions: LoyaltyTransactionDocument[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+/**
+ * Points to spend on an order and the discount they give.
+ */
+export interface PointsRedemption {
+  points: number;
+  discount: number;
+}
+
+/**
+ * Short order reference used in ledger notes, e.g. "#3C9F1A".
+ */
+function orderRef(orderId: Types.ObjectId): string {
+  return '#' + orderId.toString().slice(-6).toUpperCase();
+}
+
+/**
+ * Loyalty service - points earned on delivered orders, spent as order
+ * discounts, and the ledger behind each customer's wallet.
+ */
+@Injectable()
+export class LoyaltyService {
+  private readonly logger = new Logger(LoyaltyService.name);
+
+  constructor(
+    @InjectModel(LoyaltyWallet.name) private walletModel: Model<LoyaltyWalletDocument>,
+    @InjectModel(LoyaltyTransaction.name)
+    private transactionModel: Model<LoyaltyTransactionDocument>,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Current earning and redemption rules.
+   */
+  getRules(): LoyaltyRules {
+    return {
+      bdtPerPoint: Number(this.configService.get('LOYALTY_BDT_PER_POINT', 100)),
+      pointValue: Number(this.configService.get('LOYALTY_POINT_VALUE', 1)),
+      minRedeemPoints: Number(this.configService.get('LOYALTY_MIN_REDEEM_POINTS', 50)),
+      maxRedeemPercent: Number(this.configService.get('LOYALTY_MAX_REDEEM_PERCENT', 50)),
+      expiryDays: Number(this.configService.get('LOYALTY_POINTS_EXPIRY_DAYS', 365)),
+    };
+  }
+
+  /**
+   * Points a delivered order earns on what the customer was charged,
+   * less anything refunded.
+   */
+  private pointsForOrder(order: OrderDocument): number {
+    const charged = order.pricing.grandTotal - (order.pricing.refundedAmount || 0);
+    return Math.max(0, Math.floor(charged / this.getRules().bdtPerPoint));
+  }
+
+  // ========== Ledger ==========
+
+  /**
+   * A customer's wallet, created empty on first use.
+   */
+  private async getOrCreateWallet(userId: Types.ObjectId): Promise<LoyaltyWalletDocument> {
+    return this.walletModel
+      .findOneAndUpdate(
+        { user: userId },
+        { $setOnInsert: { user: userId } },
+        { upsert: true, new: true },
+      )
+      .exec() as Promise<LoyaltyWalletDocument>;
+  }
+
+  /**
+   * Add points as a new lot that expires after the configured period.
+   */
+  private async credit(
+    userId: Types.ObjectId,
+    points: number,
+    type: LoyaltyTransactionType,
+    fields: Partial<LoyaltyTransaction>,
+  ): Promise<LoyaltyTransactionDocument> {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + this.getRules().expiryDays);
+
+    const transaction = await this.transactionModel.create({
+      ...fields,
+      user: userId,
+      type,
+      points,
+      expiresAt,
+      remaining: points,
+    });
+    await this.walletModel
+      .updateOne(
+        { user: userId },
+        {
+          $inc: {
+            balance: points,
+            lifetimeEarned: type === LoyaltyTransactionType.EARNED ? points : 0,
+          },
+        },
+        { upsert: true },
+      )
+      .exec();
+    return transaction;
+  }
+
+  /**
+   * Take points out of the balance, spending the lots closest to expiry
+   * first (or a given lot first). The lots are drawn down before the
+   * balance so the two can't drift apart; fails if either is short.
+   */
+  private async debit(
+    userId: Types.ObjectId,
+    points: number,
+    preferLot?: Types.ObjectId,
+  ): Promise<LoyaltyConsumption[]> {
+    const consumed: LoyaltyConsumption[] = [];
+    let left = points;
+    // A lot spent by a concurrent debit is skipped; look again in case
+    // other lots still cover the rest
+    for (let attempt = 0; attempt < 3 && left > 0; attempt++) {
+      const lots = await this.transactionModel
+        .find({ user: userId, remaining: { $gt: 0 }, expiresAt: { $gt: new Date() } })
+        .sort({ expiresAt: 1, createdAt: 1 })
+        .exec();
+      if (lots.length === 0) {
+        break;
+      }
+      if (preferLot) {
+        lots.sort((a, b) => Number(b._id.equals(preferLot)) - Number(a._id.equals(preferLot)));
+      }
+
+      for (const lot of lots) {
+        if (left === 0) {
+          break;
+        }
+        const take = Math.min(lot.remaining ?? 0, left);
+        const claimed = await this.transactionModel
+          .findOneAndUpdate(
+            { _id: lot._id, remaining: { $gte: take } },
+            { $inc: { remaining: -take } },
+          )
+          .exec();
+        if (claimed) {
+          consumed.push({ lot: lot._id as Types.ObjectId, points: take });
+          left -= take;
+        }
+      }
+    }
+
+    const wallet =
+      left === 0
+        ? await this.walletModel
+            .findOneAndUpdate(
+              { user: userId, balance: { $gte: points } },
+              { $inc: { balance: -points } },
+              { new: true },
+            )
+            .exec()
+        : null;
+    if (!wallet) {
+      await this.restoreLots(consumed);
+      throw new BadRequestException('Not enough points in your wallet');
+    }
+    return consumed;
+  }
+
+  /**
+   * Put points taken by a debit back into the lots they came from, or
+   * only `points` of them after skipping the first `skip` (already given
+   * back). Lots that have expired meanwhile lapse again on the next
+   * expiry pass.
+   */
+  private async restoreLots(
+    consumed: LoyaltyConsumption[],
+    points = Infinity,
+    skip = 0,
+  ): Promise<void> {
+    const restores: { lot: Types.ObjectId; points: number }[] = [];
+    let start = 0;
+    for (const entry of consumed) {
+      const from = Math.max(start, skip);
+      const to = Math.min(start + entry.points, skip + points);
+      if (to > from) {
+        restores.push({ lot: entry.lot, points: to - from });
+      }
+      start += entry.points;
+    }
+    await Promise.all(
+      restores.map((entry) =>
+        this.transactionModel
+          .updateOne({ _id: entry.lot }, { $inc: { remaining: entry.points } })
+          .exec(),
+      ),
+    );
+  }
+
+  /**
+   * Expire a customer's lots that are past their date.
+   * Run lazily whenever the wallet is read or spent from.
+   */
+  private async expirePoints(userId: Types.ObjectId): Promise<void> {
+    const lots = await this.transactionModel
+      .find({ user: userId, remaining: { $gt: 0 }, expiresAt: { $lte: new Date() } })
+      .exec();
+
+    for (const lot of lots) {
+      const points = lot.remaining ?? 0;
+      const claimed = await this.transactionModel
+        .updateOne({ _id: lot._id, remaining: points }, { $set: { remaining: 0 } })
+        .exec();
+      if (claimed.modifiedCount === 0) {
+        continue;
+      }
+      await this.walletModel
+        .updateOne({ user: userId }, [
+          { $set: { balance: { $max: [0, { $subtract: ['$balance', points] }] } } },
+        ])
+        .exec();
+      await this.transactionModel.create({
+        user: userId,
+        type: LoyaltyTransactionType.EXPIRED,
+        points: -points,
+        note: `Points credited on ${lot.createdAt.toISOString().slice(0, 10)} expired`,
+        consumed: [{ lot: lot._id, points }],
+      });
+    }
+  }
+
+  // ========== Wallet ==========
+
+  /**
+   * A customer's balance, next expiry and ledger, newest first.
+   */
+  async getWallet(userId: string, page = 1, limit = 20): Promise<LoyaltyWalletView> {
+    const user = new Types.ObjectId(userId);
+    await this.expirePoints(user);
+
+    const [wallet, nextLot, total, transactions] = await Promise.all([
+      this.getOrCreateWallet(user),
+      this.transactionModel
+        .findOne({ user, remaining: { $gt: 0 }, expiresAt: { $gt: new Date() } })
+        .sort({ expiresAt: 1 })
+        .exec(),
+      this.transactionModel.countDocuments({ user }),
+      this.transactionModel
+        .find({ user })
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('order', 'status pricing.grandTotal')
+        .exec(),
+    ]);
+
+    const rules = this.getRules();
+    return {
+      balance: wallet.balance,
+      balanceValue: wallet.balance * rules.pointValue,
+      lifetimeEarned: wallet.lifetimeEarned,
+      lifetimeRedeemed: wallet.lifetimeRedeemed,
+      nextExpiry: nextLot
+        ? { points: nextLot.remaining as number, expiresAt: nextLot.expiresAt as Date }
+        : null,
+      rules,
+      transactions,
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Add or remove points by hand (admin only).
+   */
+  async adjustPoints(
+    userId: string,
+    dto: AdjustPointsDto,
+    adminId: string,
+  ): Promise<LoyaltyTransactionDocument> {
+    const user = new Types.ObjectId(userId);
+    const fields = { note: dto.note, createdBy: new Types.ObjectId(adminId) };
+
+    if (dto.points > 0) {
+      return this.credit(user, dto.points, LoyaltyTransactionType.ADJUSTED, fields);
+    }
+
+    await this.expirePoints(user);
+    const wallet = await this.getOrCreateWallet(user);
+    if (wallet.balance < -dto.points) {
+      throw new BadRequestException(`Customer only has ${wallet.balance} points`);
+    }
+    const consumed = await this.debit(user, -dto.points);
+    return this.transactionModel.create({
+      ...fields,
+      user,
+      type: LoyaltyTransactionType.ADJUSTED,
+      points: dto.points,
+      consumed,
+    });
+  }
+
+  // ========== Orders ==========
+
+  /**
+   * Check that a customer can spend this many points on an order and
+   * work out the discount. The payable amount is the order total after
+   * any coupon.
+   */
+  async quoteRedemption(
+    userId: string,
+    points: number,
+    payable: number,
+  ): Promise<PointsRedemption> {
+    const rules = this.getRules();
+    if (points < rules.minRedeemPoints) {
+      throw new BadRequestException(`Redeem at least ${rules.minRedeemPoints} points`);
+    }
+
+    const user = new Types.ObjectId(userId);
+    await this.expirePoints(user);
+    const wallet = await this.getOrCreateWallet(user);
+    if (wallet.balance < points) {
+      throw new BadRequestException(`You only have ${wallet.balance} points`);
+    }
+
+    const maxPoints = Math.floor((payable * rules.maxRedeemPercent) / 100 / rules.pointValue);
+    if (points > maxPoints) {
+      throw new BadRequestException(
+        maxPoints > 0
+          ? `At most ${maxPoints} points can be used on this order`
+          : 'Points cannot be used on this order',
+      );
+    }
+
+    return { points, discount: points * rules.pointValue };
+  }
+
+  /**
+   * Spend points on an order being placed.
+   */
+  async redeemForOrder(userId: string, points: number, orderId: Types.ObjectId): Promise<void> {
+    const user = new Types.ObjectId(userId);
+    const consumed = await this.debit(user, points);
+    await this.walletModel
+      .updateOne({ user }, { $inc: { lifetimeRedeemed: points } })
+      .exec();
+    await this.transactionModel.create({
+      user,
+      type: LoyaltyTransactionType.REDEEMED,
+      points: -points,
+      order: orderId,
+      note: `Discount on order ${orderRef(orderId)}`,
+      consumed,
+    });
+  }
+
+  /**
+   * Points an order has spent, cut down to the redemption cap for its
+   * new payable amount (the order total after any coupon). The discount
+   * per point stays what it was when the points were spent.
+   */
+  capRedemption(redeemed: PointsRedemption, payable: number): PointsRedemption {
+    if (redeemed.points <= 0) {
+      return { points: 0, discount: 0 };
+    }
+    const perPoint = redeemed.discount / redeemed.points;
+    const maxPoints = Math.floor(
+      (Math.max(0, payable) * this.getRules().maxRedeemPercent) / 100 / perPoint,
+    );
+    const points = Math.min(redeemed.points, maxPoints);
+    return { points, discount: points * perPoint };
+  }
+
+  /**
+   * Give back the points spent on an order that was cancelled or could
+   * not be placed, or those beyond `keep` when the order shrank.
+   * Returns the points given back.
+   */
+  async returnRedeemedPoints(
+    orderId: Types.ObjectId,
+    note: string,
+    keep = 0,
+  ): Promise<number> {
+    const redemption = await this.transactionModel
+      .findOne({ order: orderId, type: LoyaltyTransactionType.REDEEMED })
+      .exec();
+    if (!redemption) {
+      return 0;
+    }
+    const points = -redemption.points - redemption.reversedPoints - keep;
+    if (points <= 0) {
+      return 0;
+    }
+
+    const claimed = await this.transactionModel
+      .updateOne(
+        { _id: redemption._id, reversedPoints: redemption.reversedPoints },
+        { $inc: { reversedPoints: points } },
+      )
+      .exec();
+    if (claimed.modifiedCount === 0) {
+      return 0;
+    }
+
+    await this.restoreLots(redemption.consumed, points, redemption.reversedPoints);
+    await this.walletModel
+      .updateOne({ user: redemption.user }, { $inc: { balance: points, lifetimeRedeemed: -points } })
+      .exec();
+    await this.transactionModel.create({
+      user: redemption.user,
+      type: LoyaltyTransactionType.ADJUSTED,
+      points,
+      order: orderId,
+      note,
+    });
+    return points;
+  }
+
+  /**
+   * Spend points again on a cancelled order that was restored, up to
+   * the points its pricing still uses and as far as the balance allows.
+   * Returns the points taken.
+   */
+  async reclaimReturnedPoints(orderId: Types.ObjectId, redeemed: number): Promise<number> {
+    const redemption = await this.transactionModel
+      .findOne({ order: orderId, type: LoyaltyTransactionType.REDEEMED })
+      .exec();
+    if (!redemption || redemption.reversedPoints <= 0) {
+      return 0;
+    }
+
+    await this.expirePoints(redemption.user);
+    const wallet = await this.getOrCreateWallet(redemption.user);
+    // Points given back because the order shrank stay with the customer
+    const held = -redemption.points - redemption.reversedPoints;
+    const points = Math.min(redeemed - held, redemption.reversedPoints, wallet.balance);
+    if (points <= 0) {
+      return 0;
+    }
+
+    const consumed = await this.debit(redemption.user, points);
+    redemption.reversedPoints -= points;
+    await redemption.save();
+    await this.walletModel
+      .updateOne({ user: redemption.user }, { $inc: { lifetimeRedeemed: points } })
+      .exec();
+    await this.transactionModel.create({
+      user: redemption.user,
+      type: LoyaltyTransactionType.ADJUSTED,
+      points: -points,
+      order: orderId,
+      note: `Discount on order ${orderRef(orderId)} reinstated`,
+      consumed,
+    });
+    return points;
+  }
+
+  /**
+   * Award points for a delivered order. Safe to call again: an order
+   * delivered a second time only gets back points taken when its
+   * delivery was reversed.
+   */
+  async earnForOrder(order: OrderDocument): Promise<void> {
+    const points = this.pointsForOrder(order);
+    if (points <= 0) {
+      return;
+    }
+    const orderId = order._id as Types.ObjectId;
+    const earned = await this.transactionModel
+      .findOne({ order: orderId, type: LoyaltyTransactionType.EARNED })
+      .exec();
+    if (earned) {
+      await this.reEarnForOrder(earned, points);
+      return;
+    }
+
+    try {
+      await this.credit(order.customer, points, LoyaltyTransactionType.EARNED, {
+        order: orderId,
+        note: `Earned on order ${orderRef(orderId)}`,
+      });
+    } catch (error) {
+      // Another request awarded this order's points first
+      if ((error as { code?: number }).code === 11000) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Give back points taken from an order's earnings, up to what the
+   * order now earns.
+   */
+  private async reEarnForOrder(
+    earned: LoyaltyTransactionDocument,
+    points: number,
+  ): Promise<void> {
+    const held = earned.points - earned.reversedPoints;
+    const due = Math.min(points - held, earned.reversedPoints);
+    if (due <= 0) {
+      return;
+    }
+
+    const claimed = await this.transactionModel
+      .updateOne(
+        { _id: earned._id, reversedPoints: earned.reversedPoints },
+        { $inc: { reversedPoints: -due } },
+      )
+      .exec();
+    if (claimed.modifiedCount === 0) {
+      return;
+    }
+
+    const orderId = earned.order as Types.ObjectId;
+    await this.credit(earned.user, due, LoyaltyTransactionType.ADJUSTED, {
+      order: orderId,
+      note: `Earned again on order ${orderRef(orderId)}`,
+    });
+    await this.walletModel
+      .updateOne({ user: earned.user }, { $inc: { lifetimeEarned: due } })
+      .exec();
+  }
+
+  /**
+   * Take back points earned on an order that has since been refunded,
+   * so the customer keeps only what the amount still charged earns.
+   * Limited to the current balance. Returns the points taken.
+   */
+  async clawBackForOrder(order: OrderDocument): Promise<number> {
+    return this.takeBackEarned(
+      order._id as Types.ObjectId,
+      this.pointsForOrder(order),
+      `Clawed back after refund on order ${orderRef(order._id as Types.ObjectId)}`,
+    );
+  }
+
+  /**
+   * Take back all points earned on an order whose delivery was reversed.
+   * Limited to the current balance. Returns the points taken.
+   */
+  async reverseEarnedPoints(orderId: Types.ObjectId): Promise<number> {
+    return this.takeBackEarned(orderId, 0, `Delivery of order ${orderRef(orderId)} reversed`);
+  }
+
+  /**
+   * Reduce the points an order's earnings left with the customer to
+   * `keep`, as far as the balance allows.
+   */
+  private async takeBackEarned(
+    orderId: Types.ObjectId,
+    keep: number,
+    note: string,
+  ): Promise<number> {
+    const earned = await this.transactionModel
+      .findOne({ order: orderId, type: LoyaltyTransactionType.EARNED })
+      .exec();
+    if (!earned) {
+      return 0;
+    }
+
+    const due = earned.points - earned.reversedPoints - keep;
+    if (due <= 0) {
+      return 0;
+    }
+
+    await this.expirePoints(earned.user);
+    const wallet = await this.getOrCreateWallet(earned.user);
+    const points = Math.min(due, wallet.balance);
+    if (points < due) {
+      this.logger.warn(
+        `Only ${points} of ${due} points could be taken back for order ${orderId.toString()}`,
+      );
+    }
+    if (points <= 0) {
+      return 0;
+    }
+
+    // Claim first so a concurrent take-back can't count the same points
+    const claimed = await this.transactionModel
+      .updateOne(
+        { _id: earned._id, reversedPoints: earned.reversedPoints },
+        { $inc: { reversedPoints: points } },
+      )
+      .exec();
+    if (claimed.modifiedCount === 0) {
+      return 0;
+    }
+
+    // Take the order's own points first
+    let consumed: LoyaltyConsumption[];
+    try {
+      consumed = await this.debit(earned.user, points, earned._id as Types.ObjectId);
+    } catch (error) {
+      await this.transactionModel
+        .updateOne({ _id: earned._id }, { $inc: { reversedPoints: -points } })
+        .exec();
+      throw error;
+    }
+    await this.walletModel
+      .updateOne({ user: earned.user }, { $inc: { lifetimeEarned: -points } })
+      .exec();
+    await this.transactionModel.create({
+      user: earned.user,
+      type: LoyaltyTransactionType.ADJUSTED,
+      points: -points,
+      order: orderId,
+      note,
+      consumed,
+    });
+    return points;
+  }
+}
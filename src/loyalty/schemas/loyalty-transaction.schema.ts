@@ -0,0 +1,89 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { LoyaltyTransactionType } from '../enums/loyalty-transaction-type.enum';
+
+export type LoyaltyTransactionDocument = LoyaltyTransaction & Document;
+
+/**
+ * Points taken from one credited entry by a debit.
+ */
+@Schema({ _id: false })
+export class LoyaltyConsumption {
+  @Prop({ type: Types.ObjectId, ref: 'LoyaltyTransaction', required: true })
+  lot: Types.ObjectId;
+
+  @Prop({ type: Number, required: true, min: 1 })
+  points: number;
+}
+
+export const LoyaltyConsumptionSchema = SchemaFactory.createForClass(LoyaltyConsumption);
+
+/**
+ * Loyalty transaction schema.
+ * One ledger entry. Credits (points > 0) are also lots that expire and are
+ * spent oldest-expiry first; debits record which lots they drew from.
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      delete ret.consumed;
+      return ret;
+    },
+  },
+})
+export class LoyaltyTransaction {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  user: Types.ObjectId;
+
+  @Prop({ type: String, enum: LoyaltyTransactionType, required: true })
+  type: LoyaltyTransactionType;
+
+  // Positive for credits, negative for debits
+  @Prop({ type: Number, required: true })
+  points: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'Order' })
+  order?: Types.ObjectId;
+
+  @Prop({ type: String, default: '' })
+  note: string;
+
+  // Credits: when unspent points expire, and how many are left
+  @Prop({ type: Date })
+  expiresAt?: Date;
+
+  @Prop({ type: Number, min: 0 })
+  remaining?: number;
+
+  // Debits: lots the points came from, so they can be given back
+  @Prop({ type: [LoyaltyConsumptionSchema], default: [] })
+  consumed: LoyaltyConsumption[];
+
+  // Earned: points since clawed back; redeemed: points since returned
+  @Prop({ type: Number, min: 0, default: 0 })
+  reversedPoints: number;
+
+  // Admin who made a manual adjustment
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const LoyaltyTransactionSchema = SchemaFactory.createForClass(LoyaltyTransaction);
+
+// Indexes
+LoyaltyTransactionSchema.index({ user: 1, createdAt: -1 });
+LoyaltyTransactionSchema.index({ user: 1, remaining: 1, expiresAt: 1 });
+// Points are earned at most once per order
+LoyaltyTransactionSchema.index(
+  { order: 1, type: 1 },
+  { unique: true, partialFilterExpression: { type: LoyaltyTransactionType.EARNED } },
+);
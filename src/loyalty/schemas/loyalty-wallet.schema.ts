@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type LoyaltyWalletDocument = LoyaltyWallet & Document;
+
+/**
+ * Loyalty wallet schema.
+ * A customer's current points balance; the history is in the transactions
+ * collection.
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class LoyaltyWallet {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, unique: true })
+  user: Types.ObjectId;
+
+  @Prop({ type: Number, min: 0, default: 0 })
+  balance: number;
+
+  @Prop({ type: Number, min: 0, default: 0 })
+  lifetimeEarned: number;
+
+  @Prop({ type: Number, min: 0, default: 0 })
+  lifetimeRedeemed: number;
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const LoyaltyWalletSchema = SchemaFactory.createForClass(LoyaltyWallet);
@@ -54,6 +54,16 @@ async function bootstrap() {
     .addTag('Users', 'User profile management')
     .addTag('Catalog', 'Clothing items and services')
     .addTag('Orders', 'Order management')
+    .addTag('SMS', 'SMS delivery reports and message log')
+    .addTag('Time Slots', 'Pickup and delivery time slot booking')
+    .addTag('Zones', 'Service zones and delivery charges')
+    .addTag('Riders', 'Rider duty status, shifts and rosters')
+    .addTag('Tracking', 'Live rider location and delivery ETA')
+    .addTag('Realtime', 'Server-Sent Events stream of order updates')
+    .addTag('Garments', 'Garment tags and laundry station scans')
+    .addTag('Payments', 'Online payments and cash-on-delivery reconciliation')
+    .addTag('Invoices', 'Invoice numbers and PDF receipts')
+    .addTag('Coupons', 'Discount coupons and checkout validation')
     .build();
 
   const document = SwaggerModule.createDocument(app, swaggerConfig);
@@ -0,0 +1,414 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { ConfigService } from "@nestjs/config";
+import { Model, Types } from "mongoose";
+import { Order, OrderDocument } from "./schemas/order.schema";
+import {
+  DispatchLog,
+  DispatchLogDocument,
+  DispatchCandidate,
+} from "./schemas/dispatch-log.schema";
+import { OrderStatus } from "./enums/order-status.enum";
+import { DispatchStrategy } from "./enums/dispatch-strategy.enum";
+import { DispatchMode } from "./enums/dispatch-mode.enum";
+import { UsersService } from "../users/users.service";
+import { UserDocument } from "../users/schemas/user.schema";
+import { ZonesService } from "../zones/zones.service";
+import { RidersService } from "../riders/riders.service";
+import { RealtimeService } from "../realtime/realtime.service";
+import { RealtimeEventType } from "../realtime/enums/realtime-event-type.enum";
+import { haversineDistanceKm } from "../common/utils/geo.util";
+
+type Position = { lat: number; lng: number };
+
+/**
+ * Dispatch service - picks a rider for new orders.
+ *
+ * Every rider is checked against the order (availability, zone, current load)
+ * and the eligible ones are ranked by the configured strategy. Each
+ * attempt is written to the dispatch log with the reasoning per rider.
+ */
+@Injectable()
+export class DispatchService {
+  private readonly logger = new Logger(DispatchService.name);
+
+  constructor(
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    @InjectModel(DispatchLog.name)
+    private dispatchLogModel: Model<DispatchLogDocument>,
+    private usersService: UsersService,
+    private zonesService: ZonesService,
+    private ridersService: RidersService,
+    private realtimeService: RealtimeService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Strategy from DISPATCH_STRATEGY (round_robin | least_loaded | nearest).
+   */
+  getStrategy(): DispatchStrategy {
+    const strategy = this.configService.get<string>(
+      "DISPATCH_STRATEGY",
+      DispatchStrategy.LEAST_LOADED,
+    );
+    if (!Object.values(DispatchStrategy).includes(strategy as DispatchStrategy)) {
+      this.logger.warn(
+        `Unknown DISPATCH_STRATEGY "${strategy}", using least_loaded`,
+      );
+      return DispatchStrategy.LEAST_LOADED;
+    }
+    return strategy as DispatchStrategy;
+  }
+
+  /**
+   * Whether new orders are dispatched as soon as they are placed.
+   */
+  isAutoDispatchEnabled(): boolean {
+    return this.configService.get<string>("DISPATCH_AUTO_ASSIGN") === "true";
+  }
+
+  /**
+   * When the rider will be needed: the scheduled pickup, or now if
+   * none is set or it has already passed.
+   */
+  getAssignmentTime(order: OrderDocument): Date {
+    const now = new Date();
+    return order.scheduledPickupTime && order.scheduledPickupTime > now
+      ? order.scheduledPickupTime
+      : now;
+  }
+
+  /**
+   * Active (not delivered or cancelled) order count per rider.
+   * Same definition as OrdersService.getDeliveryOrders.
+   */
+  private async getActiveOrderCounts(
+    riderIds: Types.ObjectId[],
+  ): Promise<Map<string, number>> {
+    const counts = await this.orderModel.aggregate<{
+      _id: Types.ObjectId;
+      count: number;
+    }>([
+      {
+        $match: {
+          deliveryPerson: { $in: riderIds },
+          status: { $nin: [OrderStatus.DELIVERED, OrderStatus.CANCELLED] },
+        },
+      },
+      { $group: { _id: "$deliveryPerson", count: { $sum: 1 } } },
+    ]);
+    return new Map(counts.map((c) => [c._id.toString(), c.count]));
+  }
+
+  /**
+   * Best guess at where each rider is: the address of the active order
+   * they touched most recently (pickup if not yet collected, else drop-off).
+   */
+  private async getLastKnownPositions(
+    riderIds: Types.ObjectId[],
+  ): Promise<Map<string, Position>> {
+    const orders = await this.orderModel
+      .find({
+        deliveryPerson: { $in: riderIds },
+        status: { $nin: [OrderStatus.DELIVERED, OrderStatus.CANCELLED] },
+      })
+      .select("deliveryPerson status pickupAddress deliveryAddress updatedAt")
+      .sort({ updatedAt: -1 })
+      .lean()
+      .exec();
+
+    const positions = new Map<string, Position>();
+    for (const order of orders) {
+      const riderId = order.deliveryPerson.toString();
+      if (positions.has(riderId)) {
+        continue;
+      }
+      const location =
+        order.status === OrderStatus.REQUESTED
+          ? order.pickupAddress?.location
+          : order.deliveryAddress?.location;
+      if (location) {
+        positions.set(riderId, { lat: location.lat, lng: location.lng });
+      }
+    }
+    return positions;
+  }
+
+  /**
+   * Check every rider against an order and rank the eligible ones.
+   * Returned candidates are sorted: ranked riders first, best first.
+   */
+  async evaluateRiders(
+    order: OrderDocument,
+    strategy: DispatchStrategy = this.getStrategy(),
+  ): Promise<DispatchCandidate[]> {
+    const riders = await this.usersService.findDeliveryPersonnel();
+    const riderIds = riders.map((rider) => rider._id as Types.ObjectId);
+    const maxActiveOrders = Number(
+      this.configService.get("DISPATCH_MAX_ACTIVE_ORDERS", 8),
+    );
+
+    const [loads, positions, zones, availability] = await Promise.all([
+      this.getActiveOrderCounts(riderIds),
+      this.getLastKnownPositions(riderIds),
+      this.zonesService.getActiveZones(),
+      this.ridersService.getAvailability(
+        riderIds.map((id) => id.toString()),
+        this.getAssignmentTime(order),
+      ),
+    ]);
+    const pickupZone = zones.length
+      ? this.zonesService.matchZone(zones, order.pickupAddress)
+      : null;
+    const pickupLocation = order.pickupAddress.location;
+
+    const candidates = riders.map((rider: UserDocument): DispatchCandidate => {
+      const riderId = rider._id.toString();
+      const activeOrders = loads.get(riderId) || 0;
+      const position = positions.get(riderId);
+      const distanceKm =
+        position && pickupLocation
+          ? Math.round(haversineDistanceKm(position, pickupLocation) * 10) / 10
+          : undefined;
+
+      const reasons: string[] = [];
+      if (!rider.isVerified) {
+        reasons.push("account not verified");
+      }
+      reasons.push(...(availability.get(riderId)?.reasons || []));
+      if (
+        pickupZone &&
+        rider.serviceZones?.length &&
+        !rider.serviceZones.some((zone) => zone.equals(pickupZone._id as Types.ObjectId))
+      ) {
+        reasons.push(`does not cover ${pickupZone.name}`);
+      }
+      if (activeOrders >= maxActiveOrders) {
+        reasons.push(`at capacity (${activeOrders}/${maxActiveOrders} active orders)`);
+      }
+      const eligible = reasons.length === 0;
+
+      if (eligible) {
+        reasons.push(
+          `${activeOrders} active order${activeOrders === 1 ? "" : "s"}`,
+          distanceKm !== undefined
+            ? `${distanceKm} km from pickup`
+            : "position unknown",
+          rider.lastAssignedAt
+            ? `last assigned ${rider.lastAssignedAt.toISOString()}`
+            : "never assigned",
+        );
+      }
+
+      return {
+        rider: rider._id as Types.ObjectId,
+        riderName: rider.fullName,
+        eligible,
+        activeOrders,
+        distanceKm,
+        lastAssignedAt: rider.lastAssignedAt,
+        reasons,
+      };
+    });
+
+    const byLoad = (a: DispatchCandidate, b: DispatchCandidate) =>
+      a.activeOrders - b.activeOrders;
+    const byDistance = (a: DispatchCandidate, b: DispatchCandidate) =>
+      (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity);
+    const byLastAssigned = (a: DispatchCandidate, b: DispatchCandidate) =>
+      (a.lastAssignedAt?.getTime() ?? 0) - (b.lastAssignedAt?.getTime() ?? 0);
+
+    const comparators = {
+      [DispatchStrategy.ROUND_ROBIN]: [byLastAssigned, byLoad],
+      [DispatchStrategy.LEAST_LOADED]: [byLoad, byDistance, byLastAssigned],
+      [DispatchStrategy.NEAREST]: [byDistance, byLoad, byLastAssigned],
+    }[strategy];
+
+    const ranked = candidates
+      .filter((candidate) => candidate.eligible)
+      .sort((a, b) => {
+        for (const compare of comparators) {
+          const result = compare(a, b);
+          if (result !== 0 && !Number.isNaN(result)) {
+            return result;
+          }
+        }
+        return 0;
+      });
+    ranked.forEach((candidate, index) => (candidate.rank = index + 1));
+
+    return [...ranked, ...candidates.filter((c) => !c.eligible)];
+  }
+
+  /**
+   * Pick and assign a rider for a REQUESTED order.
+   * Returns the dispatch log entry; `assignedTo` is unset if nobody was eligible.
+   */
+  async autoAssign(
+    orderId: string,
+    strategy: DispatchStrategy = this.getStrategy(),
+  ): Promise<DispatchLogDocument> {
+    const order = await this.orderModel.findById(orderId).exec();
+
+    if (!order) {
+      throw new NotFoundException("Order not found");
+    }
+
+    if (order.status !== OrderStatus.REQUESTED || order.deliveryPerson) {
+      throw new BadRequestException(
+        "Only unassigned orders awaiting pickup can be dispatched",
+      );
+    }
+
+    const candidates = await this.evaluateRiders(order, strategy);
+    const picked = candidates.find((candidate) => candidate.rank === 1);
+
+    if (!picked) {
+      return this.dispatchLogModel.create({
+        order: order._id,
+        mode: DispatchMode.AUTO,
+        strategy,
+        summary:
+          candidates.length === 0
+            ? "No delivery personnel registered"
+            : "No eligible rider available",
+        candidates,
+      });
+    }
+
+    // Only assign if nobody else did in the meantime
+    const assigned = await this.orderModel
+      .findOneAndUpdate(
+        {
+          _id: order._id,
+          status: OrderStatus.REQUESTED,
+          deliveryPerson: { $exists: false },
+        },
+        { $set: { deliveryPerson: picked.rider } },
+        { new: true },
+      )
+      .exec();
+
+    if (!assigned) {
+      throw new ConflictException("Order was changed while dispatching");
+    }
+
+    await this.usersService.recordAssignment(picked.rider.toString());
+
+    const rider = await this.usersService.findById(picked.rider.toString());
+    this.realtimeService.publishOrderEvent(
+      assigned,
+      RealtimeEventType.ORDER_ASSIGNED,
+      {
+        deliveryPerson: {
+          id: picked.rider.toString(),
+          fullName: picked.riderName,
+          phoneNumber: rider?.phoneNumber,
+        },
+      },
+    );
+
+    return this.dispatchLogModel.create({
+      order: order._id,
+      mode: DispatchMode.AUTO,
+      strategy,
+      assignedTo: picked.rider,
+      summary: `Assigned to ${picked.riderName} by ${strategy}: ${picked.reasons.join(", ")}`,
+      candidates,
+    });
+  }
+
+  /**
+   * Dispatch every unassigned REQUESTED order, oldest first.
+   */
+  async dispatchPending(
+    strategy: DispatchStrategy = this.getStrategy(),
+  ): Promise<{ assigned: number; unassigned: number; failed: number }> {
+    const orders = await this.orderModel
+      .find({
+        deliveryPerson: { $exists: false },
+        status: OrderStatus.REQUESTED,
+      })
+      .select("_id")
+      .sort({ createdAt: 1 })
+      .lean()
+      .exec();
+
+    const result = { assigned: 0, unassigned: 0, failed: 0 };
+    // One at a time so each pick sees the load from the previous one
+    for (const order of orders) {
+      try {
+        const log = await this.autoAssign(order._id.toString(), strategy);
+        if (log.assignedTo) {
+          result.assigned++;
+        } else {
+          result.unassigned++;
+        }
+      } catch (error) {
+        result.failed++;
+        this.logger.warn(
+          `Dispatch for order ${order._id.toString()} failed: ${error}`,
+        );
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Record an admin's manual assignment, with the engine's view of the
+   * riders for comparison.
+   */
+  async logManualAssignment(
+    order: OrderDocument,
+    rider: UserDocument,
+    adminId: string | undefined,
+    previousDeliveryPerson: Types.ObjectId | undefined,
+    note?: string,
+  ): Promise<DispatchLogDocument> {
+    const candidates = await this.evaluateRiders(order);
+    const chosen = candidates.find((c) => c.rider.equals(rider._id as Types.ObjectId));
+
+    let summary = `Manually assigned to ${rider.fullName}`;
+    if (chosen && !chosen.eligible) {
+      summary += ` (overriding dispatch rules: ${chosen.reasons.join(", ")})`;
+    }
+    if (note) {
+      summary += ` - ${note}`;
+    }
+
+    return this.dispatchLogModel.create({
+      order: order._id,
+      mode: DispatchMode.MANUAL,
+      assignedTo: rider._id,
+      assignedBy: adminId ? new Types.ObjectId(adminId) : undefined,
+      previousDeliveryPerson,
+      summary,
+      candidates,
+    });
+  }
+
+  /**
+   * Dispatch history for an order, newest first (admin only).
+   */
+  async getDispatchLogs(orderId: string): Promise<DispatchLogDocument[]> {
+    const order = Types.ObjectId.isValid(orderId)
+      ? await this.orderModel.exists({ _id: orderId }).exec()
+      : null;
+    if (!order) {
+      throw new NotFoundException("Order not found");
+    }
+
+    return this.dispatchLogModel
+      .find({ order: new Types.ObjectId(orderId) })
+      .sort({ createdAt: -1 })
+      .populate("assignedTo", "fullName phoneNumber")
+      .populate("assignedBy", "fullName")
+      .exec();
+  }
+}
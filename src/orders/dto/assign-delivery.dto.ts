@@ -1,5 +1,5 @@
-import { IsString } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsOptional, IsBoolean, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class AssignDeliveryDto {
   @ApiProperty({
@@ -8,4 +8,21 @@ export class AssignDeliveryDto {
   })
   @IsString()
   deliveryPersonId: string;
+
+  @ApiPropertyOptional({
+    description: 'Why this rider was chosen (kept in the dispatch log)',
+    example: 'Customer asked for the same rider as last time',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+
+  @ApiPropertyOptional({
+    description: 'Assign even if the rider is off duty, off shift or on leave',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
 }
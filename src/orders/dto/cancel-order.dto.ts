@@ -0,0 +1,23 @@
+import { IsEnum, IsString, MaxLength, ValidateIf, IsNotEmpty } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CancellationReason } from '../enums/cancellation-reason.enum';
+
+export class CancelOrderDto {
+  @ApiProperty({
+    description: 'Reason for cancelling',
+    enum: CancellationReason,
+    example: CancellationReason.ORDERED_BY_MISTAKE,
+  })
+  @IsEnum(CancellationReason)
+  reason: CancellationReason;
+
+  @ApiPropertyOptional({
+    description: 'Additional details (required when reason is "other")',
+    example: 'Will be out of town this week',
+  })
+  @ValidateIf((dto: CancelOrderDto) => dto.reason === CancellationReason.OTHER || !!dto.note)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  note?: string;
+}
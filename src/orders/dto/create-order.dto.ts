@@ -8,13 +8,17 @@ import {
   Min,
   IsDateString,
   MaxLength,
+  IsMongoId,
+  IsInt,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { ServiceType } from '../../catalog/enums/service-type.enum';
 import { ClothingCategory } from '../../catalog/enums/clothing-category.enum';
+import { LocationDto } from '../../geocoding/dto/location.dto';
+import { PaymentMethod } from '../../payments/enums/payment-method.enum';
 
-class OrderItemDto {
+export class OrderItemDto {
   @ApiProperty({
     description: 'Clothing item ID',
     example: '507f1f77bcf86cd799439011',
@@ -48,7 +52,7 @@ class OrderItemDto {
   quantity: number;
 }
 
-class AddressDto {
+export class AddressDto {
   @ApiProperty({
     description: 'Full address',
     example: 'House 10, Road 5, Dhanmondi, Dhaka 1205',
@@ -73,6 +77,24 @@ class AddressDto {
   @IsOptional()
   @IsString()
   contactPhone?: string;
+
+  @ApiPropertyOptional({
+    description: 'Neighbourhood, used to find the service zone',
+    example: 'Dhanmondi',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  area?: string;
+
+  @ApiPropertyOptional({
+    description: 'Map coordinates of the address',
+    type: LocationDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LocationDto)
+  location?: LocationDto;
 }
 
 export class CreateOrderDto {
@@ -85,13 +107,22 @@ export class CreateOrderDto {
   @Type(() => OrderItemDto)
   items: OrderItemDto[];
 
-  @ApiProperty({
-    description: 'Pickup address',
+  @ApiPropertyOptional({
+    description: 'Pickup address (required unless pickupAddressId is given)',
     type: AddressDto,
   })
+  @IsOptional()
   @ValidateNested()
   @Type(() => AddressDto)
-  pickupAddress: AddressDto;
+  pickupAddress?: AddressDto;
+
+  @ApiPropertyOptional({
+    description: 'Saved address ID to use as the pickup address (see GET users/me/addresses)',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @IsOptional()
+  @IsMongoId()
+  pickupAddressId?: string;
 
   @ApiPropertyOptional({
     description: 'Delivery address (if different from pickup)',
@@ -102,6 +133,14 @@ export class CreateOrderDto {
   @Type(() => AddressDto)
   deliveryAddress?: AddressDto;
 
+  @ApiPropertyOptional({
+    description: 'Saved address ID to use as the delivery address',
+    example: '507f1f77bcf86cd799439014',
+  })
+  @IsOptional()
+  @IsMongoId()
+  deliveryAddressId?: string;
+
   @ApiPropertyOptional({
     description: 'Additional notes for the order',
     example: 'Please handle with care',
@@ -112,10 +151,53 @@ export class CreateOrderDto {
   notes?: string;
 
   @ApiPropertyOptional({
-    description: 'Scheduled pickup time',
+    description: 'Scheduled pickup time (must fall inside an available pickup slot)',
     example: '2024-01-15T10:00:00Z',
   })
   @IsOptional()
   @IsDateString()
   scheduledPickupTime?: string;
+
+  @ApiPropertyOptional({
+    description: 'Pickup time slot ID (see GET time-slots/available)',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsOptional()
+  @IsMongoId()
+  pickupSlotId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Delivery time slot ID (see GET time-slots/available)',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  deliverySlotId?: string;
+
+  @ApiPropertyOptional({
+    description: 'How the customer will pay (online methods are paid via POST payments/orders/:orderId/initiate)',
+    enum: PaymentMethod,
+    default: PaymentMethod.CASH_ON_DELIVERY,
+  })
+  @IsOptional()
+  @IsEnum(PaymentMethod)
+  paymentMethod?: PaymentMethod;
+
+  @ApiPropertyOptional({
+    description: 'Coupon code (check it first with POST coupons/validate)',
+    example: 'EID25',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  couponCode?: string;
+
+  @ApiPropertyOptional({
+    description: 'Loyalty points to spend on this order (see GET users/me/wallet)',
+    example: 100,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  redeemPoints?: number;
 }
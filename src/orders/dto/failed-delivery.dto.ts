@@ -0,0 +1,25 @@
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DeliveryFailureReason } from '../enums/delivery-failure-reason.enum';
+
+/**
+ * DTO for logging a failed delivery attempt.
+ */
+export class FailedDeliveryDto {
+  @ApiProperty({
+    description: 'Why the order could not be delivered',
+    enum: DeliveryFailureReason,
+    example: DeliveryFailureReason.CUSTOMER_UNAVAILABLE,
+  })
+  @IsEnum(DeliveryFailureReason)
+  reason: DeliveryFailureReason;
+
+  @ApiPropertyOptional({
+    description: 'What happened at the door',
+    example: 'Called twice, no answer. Guard says family is away',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
@@ -0,0 +1,40 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OrderStatus } from '../enums/order-status.enum';
+
+/**
+ * DTO for an admin forcing an order into any status.
+ */
+export class OverrideOrderStatusDto {
+  @ApiProperty({
+    description: 'Status to force the order into',
+    enum: OrderStatus,
+    example: OrderStatus.OUT_FOR_DELIVERY,
+  })
+  @IsEnum(OrderStatus)
+  status: OrderStatus;
+
+  @ApiProperty({
+    description: 'Why the normal workflow is being bypassed',
+    example: 'Rider marked delivered by mistake; customer has not received the order',
+  })
+  @IsString()
+  @MinLength(10)
+  @MaxLength(500)
+  justification: string;
+
+  @ApiPropertyOptional({
+    description: 'Send the customer the usual status SMS',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  notifyCustomer?: boolean;
+}
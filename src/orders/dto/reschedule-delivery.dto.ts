@@ -0,0 +1,14 @@
+import { IsMongoId } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for booking a new delivery slot after a failed attempt.
+ */
+export class RescheduleDeliveryDto {
+  @ApiProperty({
+    description: 'Delivery time slot ID',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @IsMongoId()
+  deliverySlotId: string;
+}
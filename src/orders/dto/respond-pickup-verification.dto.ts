@@ -0,0 +1,23 @@
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for accepting or rejecting the items counted at pickup.
+ */
+export class RespondPickupVerificationDto {
+  @ApiProperty({
+    description: 'Accept the counted items and the new total',
+    example: true,
+  })
+  @IsBoolean()
+  accept: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Reason for rejecting',
+    example: 'I handed over 5 shirts, not 3',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
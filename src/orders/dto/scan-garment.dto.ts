@@ -0,0 +1,33 @@
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { GarmentStatus } from '../enums/garment-status.enum';
+
+/**
+ * DTO for recording a garment tag scan at a laundry station.
+ */
+export class ScanGarmentDto {
+  @ApiProperty({
+    description: 'Tag code read from the garment barcode',
+    example: '65A1F0C2B3D4E5F6A7B8C9D0-03',
+  })
+  @IsString()
+  @MaxLength(40)
+  tagCode: string;
+
+  @ApiProperty({
+    description: 'Status the garment has reached',
+    enum: GarmentStatus,
+    example: GarmentStatus.WASHED,
+  })
+  @IsEnum(GarmentStatus)
+  status: GarmentStatus;
+
+  @ApiPropertyOptional({
+    description: 'Note for this scan',
+    example: 'Stain on collar remains',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
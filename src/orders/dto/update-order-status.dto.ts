@@ -1,4 +1,4 @@
-import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { IsEnum, IsNumber, IsOptional, IsString, Matches, MaxLength, Min } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { OrderStatus } from '../enums/order-status.enum';
 
@@ -19,4 +19,30 @@ export class UpdateOrderStatusDto {
   @IsString()
   @MaxLength(500)
   note?: string;
+
+  @ApiPropertyOptional({
+    description: 'Handoff code from the customer (required for riders marking delivered)',
+    example: '4821',
+  })
+  @IsOptional()
+  @Matches(/^\d{4}$/, { message: 'handoffCode must be 4 digits' })
+  handoffCode?: string;
+
+  @ApiPropertyOptional({
+    description: 'Name of the person who handed over or received the order',
+    example: 'Rahim (guard)',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  recipientName?: string;
+
+  @ApiPropertyOptional({
+    description: 'Cash taken from the customer, in BDT (required for riders marking an unpaid order delivered)',
+    example: 1250,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  cashCollected?: number;
 }
@@ -0,0 +1,97 @@
+import {
+  IsArray,
+  IsOptional,
+  IsString,
+  ValidateNested,
+  ArrayMinSize,
+  IsDateString,
+  MaxLength,
+  IsMongoId,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { OrderItemDto, AddressDto } from './create-order.dto';
+
+/**
+ * DTO for editing an order before pickup.
+ * Omitted fields are left unchanged; items replace the whole list.
+ */
+export class UpdateOrderDto {
+  @ApiPropertyOptional({
+    description: 'Replacement list of order items',
+    type: [OrderItemDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => OrderItemDto)
+  items?: OrderItemDto[];
+
+  @ApiPropertyOptional({
+    description: 'Pickup address',
+    type: AddressDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AddressDto)
+  pickupAddress?: AddressDto;
+
+  @ApiPropertyOptional({
+    description: 'Saved address ID to use as the pickup address',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @IsOptional()
+  @IsMongoId()
+  pickupAddressId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Delivery address',
+    type: AddressDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AddressDto)
+  deliveryAddress?: AddressDto;
+
+  @ApiPropertyOptional({
+    description: 'Saved address ID to use as the delivery address',
+    example: '507f1f77bcf86cd799439014',
+  })
+  @IsOptional()
+  @IsMongoId()
+  deliveryAddressId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Additional notes for the order',
+    example: 'Please handle with care',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+
+  @ApiPropertyOptional({
+    description: 'Scheduled pickup time (must fall inside an available pickup slot)',
+    example: '2024-01-15T10:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  scheduledPickupTime?: string;
+
+  @ApiPropertyOptional({
+    description: 'Pickup time slot ID (see GET time-slots/available)',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsOptional()
+  @IsMongoId()
+  pickupSlotId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Delivery time slot ID (see GET time-slots/available)',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  deliverySlotId?: string;
+}
@@ -0,0 +1,25 @@
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ProcessingStage } from '../enums/processing-stage.enum';
+
+/**
+ * DTO for moving an order to another stage inside the laundry.
+ */
+export class UpdateProcessingStageDto {
+  @ApiProperty({
+    description: 'Processing stage the order has reached',
+    enum: ProcessingStage,
+    example: ProcessingStage.WASHING,
+  })
+  @IsEnum(ProcessingStage)
+  stage: ProcessingStage;
+
+  @ApiPropertyOptional({
+    description: 'Note for this stage',
+    example: 'Delicate cycle for the silk saree',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
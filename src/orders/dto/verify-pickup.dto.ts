@@ -0,0 +1,35 @@
+import {
+  IsArray,
+  IsOptional,
+  IsString,
+  ArrayMinSize,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OrderItemDto } from './create-order.dto';
+
+/**
+ * DTO for recording the items actually collected at pickup.
+ */
+export class VerifyPickupDto {
+  @ApiProperty({
+    description: 'Items counted at the door; replaces the declared list',
+    type: [OrderItemDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => OrderItemDto)
+  items: OrderItemDto[];
+
+  @ApiPropertyOptional({
+    description: 'Note explaining the difference',
+    example: 'Only 3 shirts in the bag, customer says 1 is still in the wash',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
@@ -0,0 +1,14 @@
+/**
+ * Reasons a customer can give when cancelling an order.
+ * Used for admin cancellation breakdowns.
+ */
+export enum CancellationReason {
+  ORDERED_BY_MISTAKE = 'ordered_by_mistake',
+  CHANGED_MIND = 'changed_mind',
+  WRONG_ITEMS = 'wrong_items',
+  WRONG_ADDRESS = 'wrong_address',
+  PICKUP_DELAYED = 'pickup_delayed',
+  PRICE_TOO_HIGH = 'price_too_high',
+  FOUND_ALTERNATIVE = 'found_alternative',
+  OTHER = 'other',
+}
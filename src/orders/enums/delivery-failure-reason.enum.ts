@@ -0,0 +1,11 @@
+/**
+ * Why a rider could not hand over an order.
+ */
+export enum DeliveryFailureReason {
+  CUSTOMER_UNAVAILABLE = 'customer_unavailable',
+  CUSTOMER_UNREACHABLE = 'customer_unreachable', // Phone switched off or not answered
+  WRONG_ADDRESS = 'wrong_address',
+  ACCESS_DENIED = 'access_denied', // e.g. building security would not let the rider in
+  REFUSED = 'refused',
+  OTHER = 'other',
+}
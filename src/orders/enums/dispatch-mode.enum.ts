@@ -0,0 +1,7 @@
+/**
+ * How a rider came to be assigned to an order.
+ */
+export enum DispatchMode {
+  AUTO = 'auto', // Picked by the dispatch engine
+  MANUAL = 'manual', // Chosen by an admin
+}
@@ -0,0 +1,8 @@
+/**
+ * How the dispatcher ranks eligible riders for an order.
+ */
+export enum DispatchStrategy {
+  ROUND_ROBIN = 'round_robin', // Rider who was assigned longest ago
+  LEAST_LOADED = 'least_loaded', // Rider with the fewest active orders
+  NEAREST = 'nearest', // Rider closest to the pickup address
+}
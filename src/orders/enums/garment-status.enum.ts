@@ -0,0 +1,37 @@
+/**
+ * Garment status enum.
+ * Where a tagged garment is on its way through the laundry.
+ * Statuses only move forward; steps a garment doesn't need can be skipped.
+ */
+export enum GarmentStatus {
+  TAGGED = 'tagged', // Tag attached at pickup
+  RECEIVED = 'received', // Checked in at the laundry
+  WASHED = 'washed',
+  IRONED = 'ironed',
+  QC_PASSED = 'qc_passed',
+  PACKED = 'packed',
+}
+
+/**
+ * Garment statuses in processing order.
+ */
+export const GARMENT_STATUS_SEQUENCE: GarmentStatus[] = [
+  GarmentStatus.TAGGED,
+  GarmentStatus.RECEIVED,
+  GarmentStatus.WASHED,
+  GarmentStatus.IRONED,
+  GarmentStatus.QC_PASSED,
+  GarmentStatus.PACKED,
+];
+
+/**
+ * Check if a garment can move from one status to another.
+ */
+export function isGarmentStatusAdvance(
+  currentStatus: GarmentStatus,
+  newStatus: GarmentStatus,
+): boolean {
+  return (
+    GARMENT_STATUS_SEQUENCE.indexOf(newStatus) > GARMENT_STATUS_SEQUENCE.indexOf(currentStatus)
+  );
+}
@@ -1,3 +1,6 @@
+import { UserRole } from '../../users/enums/user-role.enum';
+import { SlotType } from '../../time-slots/enums/slot-type.enum';
+
 /**
  * Order status enum.
  * Represents the lifecycle stages of an order.
@@ -5,9 +8,13 @@
  */
 export enum OrderStatus {
   REQUESTED = 'requested',
+  PICKUP_FAILED = 'pickup_failed', // Rider couldn't collect; awaiting a new pickup
   PICKED_UP = 'picked_up',
   IN_LAUNDRY = 'in_laundry',
+  ON_HOLD = 'on_hold', // Paused at the laundry (e.g. damage or customer query)
+  READY_FOR_DELIVERY = 'ready_for_delivery', // Packed and waiting for a rider
   OUT_FOR_DELIVERY = 'out_for_delivery',
+  DELIVERY_FAILED = 'delivery_failed', // Rider couldn't hand over; back to the hub
   DELIVERED = 'delivered',
   CANCELLED = 'cancelled',
 }
@@ -17,14 +24,162 @@ export enum OrderStatus {
  * Defines which statuses can transition to which.
  */
 export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
-  [OrderStatus.REQUESTED]: [OrderStatus.PICKED_UP, OrderStatus.CANCELLED],
-  [OrderStatus.PICKED_UP]: [OrderStatus.IN_LAUNDRY, OrderStatus.CANCELLED],
-  [OrderStatus.IN_LAUNDRY]: [OrderStatus.OUT_FOR_DELIVERY],
-  [OrderStatus.OUT_FOR_DELIVERY]: [OrderStatus.DELIVERED],
+  [OrderStatus.REQUESTED]: [
+    OrderStatus.PICKED_UP,
+    OrderStatus.PICKUP_FAILED,
+    OrderStatus.CANCELLED,
+  ],
+  [OrderStatus.PICKUP_FAILED]: [OrderStatus.REQUESTED, OrderStatus.CANCELLED],
+  [OrderStatus.PICKED_UP]: [
+    OrderStatus.IN_LAUNDRY,
+    OrderStatus.ON_HOLD,
+    OrderStatus.CANCELLED,
+  ],
+  [OrderStatus.IN_LAUNDRY]: [
+    OrderStatus.READY_FOR_DELIVERY,
+    OrderStatus.ON_HOLD,
+    // Older rider apps go straight out for delivery
+    OrderStatus.OUT_FOR_DELIVERY,
+  ],
+  [OrderStatus.ON_HOLD]: [
+    OrderStatus.IN_LAUNDRY,
+    OrderStatus.READY_FOR_DELIVERY,
+    OrderStatus.CANCELLED,
+  ],
+  [OrderStatus.READY_FOR_DELIVERY]: [OrderStatus.OUT_FOR_DELIVERY, OrderStatus.ON_HOLD],
+  [OrderStatus.OUT_FOR_DELIVERY]: [OrderStatus.DELIVERED, OrderStatus.DELIVERY_FAILED],
+  [OrderStatus.DELIVERY_FAILED]: [
+    OrderStatus.OUT_FOR_DELIVERY,
+    OrderStatus.READY_FOR_DELIVERY,
+    OrderStatus.ON_HOLD,
+  ],
   [OrderStatus.DELIVERED]: [],
   [OrderStatus.CANCELLED]: [],
 };
 
+/**
+ * What moving an order into a status requires and triggers.
+ */
+export interface OrderStatusRule {
+  // Roles that may set this status (riders only on orders assigned to them)
+  allowedRoles: UserRole[];
+  // A note explaining the change is mandatory
+  requiresNote: boolean;
+  // Text the customer about the change
+  notifyCustomer: boolean;
+  // Booked slots given back when entering this status
+  releasesSlots: SlotType[];
+}
+
+/**
+ * Permission and side-effect rules per target status.
+ */
+export const ORDER_STATUS_RULES: Record<OrderStatus, OrderStatusRule> = {
+  [OrderStatus.REQUESTED]: {
+    allowedRoles: [UserRole.ADMIN],
+    requiresNote: false,
+    notifyCustomer: true,
+    releasesSlots: [],
+  },
+  [OrderStatus.PICKUP_FAILED]: {
+    allowedRoles: [UserRole.DELIVERY, UserRole.ADMIN],
+    requiresNote: true,
+    notifyCustomer: true,
+    releasesSlots: [SlotType.PICKUP],
+  },
+  [OrderStatus.PICKED_UP]: {
+    allowedRoles: [UserRole.DELIVERY, UserRole.ADMIN],
+    requiresNote: false,
+    notifyCustomer: true,
+    releasesSlots: [],
+  },
+  [OrderStatus.IN_LAUNDRY]: {
+    allowedRoles: [UserRole.DELIVERY, UserRole.LAUNDRY_STAFF, UserRole.ADMIN],
+    requiresNote: false,
+    notifyCustomer: true,
+    releasesSlots: [],
+  },
+  [OrderStatus.ON_HOLD]: {
+    allowedRoles: [UserRole.LAUNDRY_STAFF, UserRole.ADMIN],
+    requiresNote: true,
+    notifyCustomer: true,
+    releasesSlots: [],
+  },
+  [OrderStatus.READY_FOR_DELIVERY]: {
+    allowedRoles: [UserRole.LAUNDRY_STAFF, UserRole.ADMIN],
+    requiresNote: false,
+    notifyCustomer: false,
+    releasesSlots: [],
+  },
+  [OrderStatus.OUT_FOR_DELIVERY]: {
+    allowedRoles: [UserRole.DELIVERY, UserRole.ADMIN],
+    requiresNote: false,
+    notifyCustomer: true,
+    releasesSlots: [],
+  },
+  [OrderStatus.DELIVERY_FAILED]: {
+    allowedRoles: [UserRole.DELIVERY, UserRole.ADMIN],
+    requiresNote: true,
+    notifyCustomer: true,
+    releasesSlots: [SlotType.DELIVERY],
+  },
+  [OrderStatus.DELIVERED]: {
+    allowedRoles: [UserRole.DELIVERY, UserRole.ADMIN],
+    requiresNote: false,
+    notifyCustomer: true,
+    releasesSlots: [],
+  },
+  [OrderStatus.CANCELLED]: {
+    allowedRoles: [UserRole.DELIVERY, UserRole.ADMIN],
+    requiresNote: false,
+    notifyCustomer: true,
+    releasesSlots: [SlotType.PICKUP, SlotType.DELIVERY],
+  },
+};
+
+/**
+ * Statuses a customer can still cancel from.
+ */
+export const CUSTOMER_CANCELLABLE_STATUSES: OrderStatus[] = [
+  OrderStatus.REQUESTED,
+  OrderStatus.PICKUP_FAILED,
+  OrderStatus.PICKED_UP,
+];
+
+/**
+ * Closest original status for each status. Responses report this as
+ * `status` so app versions that only know the original six keep working;
+ * the full status is sent as `detailedStatus`.
+ */
+export const LEGACY_ORDER_STATUS: Record<OrderStatus, OrderStatus> = {
+  [OrderStatus.REQUESTED]: OrderStatus.REQUESTED,
+  [OrderStatus.PICKUP_FAILED]: OrderStatus.REQUESTED,
+  [OrderStatus.PICKED_UP]: OrderStatus.PICKED_UP,
+  [OrderStatus.IN_LAUNDRY]: OrderStatus.IN_LAUNDRY,
+  [OrderStatus.ON_HOLD]: OrderStatus.IN_LAUNDRY,
+  [OrderStatus.READY_FOR_DELIVERY]: OrderStatus.IN_LAUNDRY,
+  [OrderStatus.OUT_FOR_DELIVERY]: OrderStatus.OUT_FOR_DELIVERY,
+  [OrderStatus.DELIVERY_FAILED]: OrderStatus.OUT_FOR_DELIVERY,
+  [OrderStatus.DELIVERED]: OrderStatus.DELIVERED,
+  [OrderStatus.CANCELLED]: OrderStatus.CANCELLED,
+};
+
+/**
+ * Customer-facing status labels (English and Bangla).
+ */
+export const ORDER_STATUS_LABELS: Record<OrderStatus, { en: string; bn: string }> = {
+  [OrderStatus.REQUESTED]: { en: 'requested', bn: 'অনুরোধ করা হয়েছে' },
+  [OrderStatus.PICKUP_FAILED]: { en: 'not picked up', bn: 'সংগ্রহ করা যায়নি' },
+  [OrderStatus.PICKED_UP]: { en: 'picked up', bn: 'সংগ্রহ করা হয়েছে' },
+  [OrderStatus.IN_LAUNDRY]: { en: 'in laundry', bn: 'লন্ড্রিতে আছে' },
+  [OrderStatus.ON_HOLD]: { en: 'on hold', bn: 'স্থগিত আছে' },
+  [OrderStatus.READY_FOR_DELIVERY]: { en: 'ready for delivery', bn: 'ডেলিভারির জন্য প্রস্তুত' },
+  [OrderStatus.OUT_FOR_DELIVERY]: { en: 'out for delivery', bn: 'ডেলিভারির পথে' },
+  [OrderStatus.DELIVERY_FAILED]: { en: 'not delivered', bn: 'ডেলিভারি করা যায়নি' },
+  [OrderStatus.DELIVERED]: { en: 'delivered', bn: 'ডেলিভারি সম্পন্ন' },
+  [OrderStatus.CANCELLED]: { en: 'cancelled', bn: 'বাতিল করা হয়েছে' },
+};
+
 /**
  * Check if a status transition is valid.
  */
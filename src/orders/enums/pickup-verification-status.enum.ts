@@ -0,0 +1,9 @@
+/**
+ * Pickup verification status enum.
+ * Whether the customer has agreed to the items counted at pickup.
+ */
+export enum PickupVerificationStatus {
+  PENDING = 'pending', // Count differs from the order; waiting for the customer
+  ACCEPTED = 'accepted',
+  REJECTED = 'rejected',
+}
@@ -0,0 +1,12 @@
+/**
+ * Processing stage enum.
+ * Where an order is inside the laundry while its status is in_laundry.
+ */
+export enum ProcessingStage {
+  RECEIVED = 'received',
+  WASHING = 'washing',
+  DRYING = 'drying',
+  IRONING = 'ironing',
+  QUALITY_CHECK = 'quality_check',
+  PACKING = 'packing',
+}
@@ -0,0 +1,76 @@
+import { Controller, Get, Post, Body, Param, UseGuards } from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from "@nestjs/swagger";
+import { GarmentsService } from "./garments.service";
+import { ScanGarmentDto } from "./dto/scan-garment.dto";
+import { JwtAuthGuard, RolesGuard, CurrentUser, Roles } from "../common";
+import { UserRole } from "../users/enums/user-role.enum";
+import { UserDocument } from "../users/schemas/user.schema";
+
+/**
+ * Garments controller - garment tags and laundry station scans.
+ */
+@ApiTags("Garments")
+@ApiBearerAuth("JWT-auth")
+@Controller("garments")
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class GarmentsController {
+  constructor(private readonly garmentsService: GarmentsService) {}
+
+  /**
+   * Record a tag scan at a laundry station (laundry staff).
+   */
+  @Post("scan")
+  @Roles(UserRole.LAUNDRY_STAFF, UserRole.ADMIN)
+  @ApiOperation({ summary: "Scan garment tag (Laundry staff/Admin)" })
+  @ApiResponse({ status: 201, description: "Garment status updated" })
+  @ApiResponse({ status: 400, description: "Status would move backwards" })
+  @ApiResponse({ status: 404, description: "No garment with this tag" })
+  async scan(@Body() dto: ScanGarmentDto, @CurrentUser("_id") staffId: string) {
+    return this.garmentsService.scan(dto, staffId);
+  }
+
+  /**
+   * Garments of an order (laundry staff).
+   */
+  @Get("orders/:orderId")
+  @Roles(UserRole.LAUNDRY_STAFF, UserRole.ADMIN)
+  @ApiOperation({ summary: "Get order garments (Laundry staff/Admin)" })
+  @ApiResponse({ status: 200, description: "Garments in tag order" })
+  async getOrderGarments(@Param("orderId") orderId: string) {
+    return this.garmentsService.getOrderGarments(orderId);
+  }
+
+  /**
+   * Create tags for any untagged garments of an order.
+   */
+  @Post("orders/:orderId/tags")
+  @Roles(UserRole.DELIVERY, UserRole.LAUNDRY_STAFF, UserRole.ADMIN)
+  @ApiOperation({ summary: "Tag order garments (Delivery/Laundry staff/Admin)" })
+  @ApiResponse({ status: 201, description: "All garments of the order" })
+  @ApiResponse({ status: 400, description: "Order is not at the laundry stage" })
+  @ApiResponse({ status: 403, description: "Not assigned to this delivery person" })
+  @ApiResponse({ status: 404, description: "Order not found" })
+  async tagOrder(
+    @Param("orderId") orderId: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.garmentsService.tagOrderById(orderId, user);
+  }
+
+  /**
+   * Look up a garment by tag (laundry staff).
+   */
+  @Get(":tagCode")
+  @Roles(UserRole.LAUNDRY_STAFF, UserRole.ADMIN)
+  @ApiOperation({ summary: "Look up garment by tag (Laundry staff/Admin)" })
+  @ApiResponse({ status: 200, description: "Garment with its scan history" })
+  @ApiResponse({ status: 404, description: "No garment with this tag" })
+  async getByTag(@Param("tagCode") tagCode: string) {
+    return this.garmentsService.getByTag(tagCode);
+  }
+}
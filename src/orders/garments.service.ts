@@ -0,0 +1,270 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import { Order, OrderDocument } from "./schemas/order.schema";
+import { Garment, GarmentDocument } from "./schemas/garment.schema";
+import { ScanGarmentDto } from "./dto/scan-garment.dto";
+import { OrderStatus } from "./enums/order-status.enum";
+import { UserDocument } from "../users/schemas/user.schema";
+import { UserRole } from "../users/enums/user-role.enum";
+import {
+  GarmentStatus,
+  isGarmentStatusAdvance,
+} from "./enums/garment-status.enum";
+
+/**
+ * Order statuses during which garments can be scanned.
+ */
+const SCANNABLE_ORDER_STATUSES = [
+  OrderStatus.PICKED_UP,
+  OrderStatus.IN_LAUNDRY,
+  OrderStatus.ON_HOLD,
+];
+
+/**
+ * Garments service - per-garment tags and their progress through the laundry.
+ */
+@Injectable()
+export class GarmentsService {
+  constructor(
+    @InjectModel(Garment.name) private garmentModel: Model<GarmentDocument>,
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+  ) {}
+
+  /**
+   * Tag code for the nth garment of an order, e.g.
+   * "65A1F0C2B3D4E5F6A7B8C9D0-03". The whole order ID is used since any
+   * shorter slice of it can repeat across orders.
+   */
+  private buildTagCode(order: OrderDocument, sequence: number): string {
+    const prefix = order._id.toString().toUpperCase();
+    return `${prefix}-${String(sequence).padStart(2, "0")}`;
+  }
+
+  /**
+   * Create a tag for every garment of an order that doesn't have one yet.
+   * One garment per unit of each order item; safe to call again, also
+   * concurrently.
+   */
+  async tagOrder(
+    order: OrderDocument,
+    taggedBy: string,
+  ): Promise<GarmentDocument[]> {
+    const existing = await this.garmentModel
+      .find({ order: order._id })
+      .sort({ tagCode: 1 })
+      .exec();
+
+    const countByItem = new Map<number, number>();
+    for (const garment of existing) {
+      countByItem.set(
+        garment.itemIndex,
+        (countByItem.get(garment.itemIndex) || 0) + 1,
+      );
+    }
+
+    let sequence = existing.length;
+    const now = new Date();
+    const toCreate: Partial<Garment>[] = [];
+    order.items.forEach((item, itemIndex) => {
+      const missing = item.quantity - (countByItem.get(itemIndex) || 0);
+      for (let i = 0; i < missing; i++) {
+        sequence++;
+        toCreate.push({
+          order: order._id as Types.ObjectId,
+          tagCode: this.buildTagCode(order, sequence),
+          itemIndex,
+          clothingItem: item.clothingItem,
+          clothingItemName: item.clothingItemName,
+          services: item.services,
+          status: GarmentStatus.TAGGED,
+          scans: [
+            {
+              status: GarmentStatus.TAGGED,
+              scannedAt: now,
+              scannedBy: new Types.ObjectId(taggedBy),
+            },
+          ],
+        });
+      }
+    });
+
+    // Tag codes follow from the tags already there, so a concurrent run
+    // builds the same codes; whichever lands second is skipped. A code
+    // taken by another order is a real clash and fails the run.
+    if (toCreate.length > 0) {
+      try {
+        await this.garmentModel.insertMany(toCreate, { ordered: false });
+      } catch (error) {
+        if ((error as { code?: number }).code !== 11000) {
+          throw error;
+        }
+        const clash = await this.garmentModel
+          .exists({
+            tagCode: { $in: toCreate.map((garment) => garment.tagCode as string) },
+            order: { $ne: order._id },
+          })
+          .exec();
+        if (clash) {
+          throw error;
+        }
+      }
+    }
+    return this.getOrderGarments(order._id.toString());
+  }
+
+  /**
+   * Fail if any of an order's garments has reached the laundry.
+   */
+  async assertRetaggable(orderId: string): Promise<void> {
+    const inProcess = await this.garmentModel
+      .countDocuments({
+        order: new Types.ObjectId(orderId),
+        status: { $ne: GarmentStatus.TAGGED },
+      })
+      .exec();
+    if (inProcess > 0) {
+      throw new BadRequestException(
+        "Garments are already being processed and can no longer be retagged",
+      );
+    }
+  }
+
+  /**
+   * Replace an order's tags after its item list changed at pickup.
+   * Only allowed while no garment has reached the laundry.
+   */
+  async retagOrder(
+    order: OrderDocument,
+    taggedBy: string,
+  ): Promise<GarmentDocument[]> {
+    await this.assertRetaggable(order._id.toString());
+    await this.garmentModel.deleteMany({ order: order._id }).exec();
+    return this.tagOrder(order, taggedBy);
+  }
+
+  /**
+   * Tag an order's garments by order ID (staff re-run after pickup).
+   * Delivery staff may only tag orders assigned to them.
+   */
+  async tagOrderById(
+    orderId: string,
+    user: UserDocument,
+  ): Promise<GarmentDocument[]> {
+    const order = Types.ObjectId.isValid(orderId)
+      ? await this.orderModel.findById(orderId).exec()
+      : null;
+    if (!order) {
+      throw new NotFoundException("Order not found");
+    }
+    const userId = user._id.toString();
+    if (
+      user.role === UserRole.DELIVERY &&
+      order.deliveryPerson?.toString() !== userId
+    ) {
+      throw new ForbiddenException("You can only tag orders assigned to you");
+    }
+    if (!SCANNABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new BadRequestException(
+        `Garments can only be tagged before the order leaves the laundry (status: ${order.status})`,
+      );
+    }
+    return this.tagOrder(order, userId);
+  }
+
+  /**
+   * All garments of an order, in tag order.
+   */
+  async getOrderGarments(orderId: string): Promise<GarmentDocument[]> {
+    return this.garmentModel
+      .find({ order: new Types.ObjectId(orderId) })
+      .sort({ tagCode: 1 })
+      .exec();
+  }
+
+  /**
+   * Look up a garment by its tag code.
+   */
+  async getByTag(tagCode: string): Promise<GarmentDocument> {
+    const garment = await this.garmentModel
+      .findOne({ tagCode: tagCode.trim().toUpperCase() })
+      .populate("order", "status customer")
+      .exec();
+    if (!garment) {
+      throw new NotFoundException("No garment with this tag");
+    }
+    return garment;
+  }
+
+  /**
+   * Record a scan at a laundry station and advance the garment.
+   */
+  async scan(dto: ScanGarmentDto, staffId: string): Promise<GarmentDocument> {
+    const garment = await this.garmentModel
+      .findOne({ tagCode: dto.tagCode.trim().toUpperCase() })
+      .exec();
+    if (!garment) {
+      throw new NotFoundException("No garment with this tag");
+    }
+
+    const order = await this.orderModel
+      .findById(garment.order)
+      .select("status")
+      .exec();
+    if (!order || !SCANNABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new BadRequestException(
+        `Order is ${order?.status ?? "missing"}; its garments can no longer be scanned`,
+      );
+    }
+
+    if (!isGarmentStatusAdvance(garment.status, dto.status)) {
+      throw new BadRequestException(
+        `Garment ${garment.tagCode} is already ${garment.status}`,
+      );
+    }
+
+    garment.status = dto.status;
+    garment.scans.push({
+      status: dto.status,
+      scannedAt: new Date(),
+      scannedBy: new Types.ObjectId(staffId),
+      note: dto.note,
+    });
+    return garment.save();
+  }
+
+  /**
+   * Fail unless every tagged garment of an order is packed, or if an
+   * order that should have been tagged at pickup has no tags.
+   * Orders picked up before tagging existed pass.
+   */
+  async assertAllPacked(order: OrderDocument): Promise<void> {
+    const garments = await this.garmentModel
+      .find({ order: order._id })
+      .select("tagCode status")
+      .sort({ tagCode: 1 })
+      .exec();
+    if (garments.length === 0 && order.tagsRequired) {
+      throw new BadRequestException(
+        "This order's garments were never tagged; tag them before it goes out",
+      );
+    }
+
+    const unpacked = garments.filter(
+      (garment) => garment.status !== GarmentStatus.PACKED,
+    );
+    if (unpacked.length > 0) {
+      const tags = unpacked
+        .map((garment) => `${garment.tagCode} (${garment.status})`)
+        .join(", ");
+      throw new BadRequestException(
+        `${unpacked.length} garment(s) not packed yet: ${tags}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { OrderPricingService } from './order-pricing.service';
+import { CatalogModule } from '../catalog/catalog.module';
+import { ZonesModule } from '../zones/zones.module';
+
+/**
+ * Order pricing module - item and delivery pricing, kept apart from the
+ * Orders module so coupon checks can price a cart the way checkout does.
+ */
+@Module({
+  imports: [
+    CatalogModule, // For item prices
+    ZonesModule, // For zone-based delivery charges
+  ],
+  providers: [OrderPricingService],
+  exports: [OrderPricingService], // Export for use in Orders and Coupons modules
+})
+export class OrderPricingModule {}
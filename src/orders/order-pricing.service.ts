@@ -0,0 +1,171 @@
+import { Injectable, BadRequestException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Types } from "mongoose";
+import { CatalogService } from "../catalog/catalog.service";
+import { ZonesService, ZoneLookupAddress } from "../zones/zones.service";
+import { DeliveryChargeRule } from "../zones/enums/delivery-charge-rule.enum";
+import { OrderItem, OrderPricing } from "./schemas/order.schema";
+import { OrderItemDto } from "./dto/create-order.dto";
+
+/**
+ * Delivery charge for an order and where it came from.
+ */
+export interface DeliveryQuote {
+  deliveryCharge: number;
+  deliveryZone?: Types.ObjectId;
+  deliveryZoneName?: string;
+  deliveryChargeRule: DeliveryChargeRule;
+}
+
+/**
+ * Order pricing service - turns requested items into priced order lines
+ * and works out order charges. Shared by order creation and edits.
+ */
+@Injectable()
+export class OrderPricingService {
+  constructor(
+    private catalogService: CatalogService,
+    private zonesService: ZonesService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Price each requested item against the current catalog.
+   */
+  async priceItems(
+    items: OrderItemDto[],
+  ): Promise<{ items: OrderItem[]; itemsTotal: number }> {
+    const itemsWithPricing: OrderItem[] = [];
+    let itemsTotal = 0;
+
+    for (const item of items) {
+      const clothingItem = await this.catalogService.getClothingItemById(
+        item.clothingItemId,
+      );
+
+      // Calculate price for each service
+      let unitPrice = 0;
+      for (const serviceType of item.services) {
+        try {
+          const price = await this.catalogService.getItemPrice(
+            item.clothingItemId,
+            serviceType,
+            item.category,
+          );
+          unitPrice += price;
+        } catch {
+          throw new BadRequestException(
+            `Pricing not found for ${clothingItem.name.en} - ${serviceType}`,
+          );
+        }
+      }
+
+      const subtotal = unitPrice * item.quantity;
+      itemsTotal += subtotal;
+
+      itemsWithPricing.push({
+        clothingItem: new Types.ObjectId(item.clothingItemId),
+        clothingItemName: clothingItem.name.en,
+        category: item.category,
+        services: item.services,
+        quantity: item.quantity,
+        unitPrice,
+        subtotal,
+      });
+    }
+
+    return { items: itemsWithPricing, itemsTotal };
+  }
+
+  /**
+   * Amount charged for an order: items, delivery and re-delivery fees
+   * less coupon and points discounts. Never below zero, e.g. when points
+   * were spent on an order that shrank at pickup. A cancelled order only
+   * owes its cancellation fee.
+   */
+  computeGrandTotal(
+    pricing: Pick<OrderPricing, "itemsTotal" | "deliveryCharge"> &
+      Partial<
+        Pick<
+          OrderPricing,
+          "discount" | "pointsDiscount" | "redeliveryFee" | "cancellationFee"
+        >
+      >,
+    cancelled = false,
+  ): number {
+    if (cancelled) {
+      return pricing.cancellationFee || 0;
+    }
+    return Math.max(
+      0,
+      pricing.itemsTotal +
+        pricing.deliveryCharge +
+        (pricing.redeliveryFee || 0) -
+        (pricing.discount || 0) -
+        (pricing.pointsDiscount || 0),
+    );
+  }
+
+  /**
+   * Flat delivery charge from config, used until zones are set up.
+   */
+  getDefaultDeliveryCharge(): number {
+    return Number(this.configService.get("DEFAULT_DELIVERY_CHARGE", 60));
+  }
+
+  /**
+   * Work out the delivery charge from the zone serving the delivery address.
+   * Both addresses must fall inside an active zone, and the items total
+   * must meet the delivery zone's minimum order value unless
+   * enforceMinimum is off (e.g. repricing clothes already collected).
+   */
+  async quoteDelivery(
+    pickupAddress: ZoneLookupAddress,
+    deliveryAddress: ZoneLookupAddress,
+    itemsTotal: number,
+    enforceMinimum = true,
+  ): Promise<DeliveryQuote> {
+    const zones = await this.zonesService.getActiveZones();
+
+    if (zones.length === 0) {
+      return {
+        deliveryCharge: this.getDefaultDeliveryCharge(),
+        deliveryZone: undefined,
+        deliveryZoneName: undefined,
+        deliveryChargeRule: DeliveryChargeRule.DEFAULT,
+      };
+    }
+
+    if (!this.zonesService.matchZone(zones, pickupAddress)) {
+      throw new BadRequestException(
+        "Sorry, we don't serve the pickup address yet",
+      );
+    }
+
+    const zone = this.zonesService.matchZone(zones, deliveryAddress);
+    if (!zone) {
+      throw new BadRequestException(
+        "Sorry, we don't serve the delivery address yet",
+      );
+    }
+
+    if (enforceMinimum && itemsTotal < zone.minimumOrderValue) {
+      throw new BadRequestException(
+        `Minimum order value for ${zone.name} is ${zone.minimumOrderValue} BDT`,
+      );
+    }
+
+    const isFree =
+      zone.freeDeliveryThreshold > 0 &&
+      itemsTotal >= zone.freeDeliveryThreshold;
+
+    return {
+      deliveryCharge: isFree ? 0 : zone.deliveryFee,
+      deliveryZone: zone._id as Types.ObjectId,
+      deliveryZoneName: zone.name,
+      deliveryChargeRule: isFree
+        ? DeliveryChargeRule.FREE_DELIVERY_THRESHOLD
+        : DeliveryChargeRule.ZONE_FEE,
+    };
+  }
+}
@@ -7,22 +7,43 @@ import {
   Param,
   Query,
   UseGuards,
+  UseInterceptors,
+  UploadedFiles,
+  ParseEnumPipe,
+  StreamableFile,
 } from "@nestjs/common";
+import { FileFieldsInterceptor } from "@nestjs/platform-express";
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
   ApiQuery,
+  ApiConsumes,
 } from "@nestjs/swagger";
-import { OrdersService } from "./orders.service";
+import {
+  OrdersService,
+  ProofFiles,
+  MAX_PROOF_PHOTOS,
+} from "./orders.service";
+import { DispatchService } from "./dispatch.service";
 import { CreateOrderDto } from "./dto/create-order.dto";
 import { UpdateOrderStatusDto } from "./dto/update-order-status.dto";
 import { AssignDeliveryDto } from "./dto/assign-delivery.dto";
+import { CancelOrderDto } from "./dto/cancel-order.dto";
+import { UpdateOrderDto } from "./dto/update-order.dto";
+import { VerifyPickupDto } from "./dto/verify-pickup.dto";
+import { UpdateProcessingStageDto } from "./dto/update-processing-stage.dto";
+import { FailedDeliveryDto } from "./dto/failed-delivery.dto";
+import { RescheduleDeliveryDto } from "./dto/reschedule-delivery.dto";
+import { OverrideOrderStatusDto } from "./dto/override-order-status.dto";
+import { RespondPickupVerificationDto } from "./dto/respond-pickup-verification.dto";
 import { JwtAuthGuard, RolesGuard, CurrentUser, Roles } from "../common";
 import { UserRole } from "../users/enums/user-role.enum";
 import { User, UserDocument } from "../users/schemas/user.schema";
 import { OrderStatus } from "./enums/order-status.enum";
+import { DispatchStrategy } from "./enums/dispatch-strategy.enum";
+import { MAX_UPLOAD_BYTES } from "../storage/storage.service";
 
 /**
  * Orders controller - order management endpoints.
@@ -32,7 +53,10 @@ import { OrderStatus } from "./enums/order-status.enum";
 @Controller("orders")
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class OrdersController {
-  constructor(private readonly ordersService: OrdersService) {}
+  constructor(
+    private readonly ordersService: OrdersService,
+    private readonly dispatchService: DispatchService,
+  ) {}
 
   // ========== Customer Endpoints ==========
 
@@ -62,6 +86,96 @@ export class OrdersController {
     return this.ordersService.getCustomerOrders(userId);
   }
 
+  /**
+   * Edit own order before pickup (customer).
+   */
+  @Patch(":id")
+  @Roles(UserRole.CUSTOMER)
+  @ApiOperation({ summary: "Edit my order before pickup (Customer only)" })
+  @ApiResponse({ status: 200, description: "Order updated and repriced" })
+  @ApiResponse({ status: 400, description: "Order can no longer be edited" })
+  @ApiResponse({ status: 403, description: "Not your order" })
+  @ApiResponse({ status: 404, description: "Order not found" })
+  async updateOrder(
+    @Param("id") orderId: string,
+    @CurrentUser("_id") userId: string,
+    @Body() dto: UpdateOrderDto,
+  ) {
+    return this.ordersService.updateOrder(orderId, userId, dto);
+  }
+
+  /**
+   * Cancel own order (customer).
+   */
+  @Post(":id/cancel")
+  @Roles(UserRole.CUSTOMER)
+  @ApiOperation({ summary: "Cancel my order (Customer only)" })
+  @ApiResponse({ status: 201, description: "Order cancelled" })
+  @ApiResponse({ status: 400, description: "Order can no longer be cancelled" })
+  @ApiResponse({ status: 403, description: "Not your order" })
+  @ApiResponse({ status: 404, description: "Order not found" })
+  async cancelOrder(
+    @Param("id") orderId: string,
+    @CurrentUser("_id") userId: string,
+    @Body() dto: CancelOrderDto,
+  ) {
+    return this.ordersService.cancelOrder(orderId, userId, dto);
+  }
+
+  /**
+   * Get the handoff code to give the rider (customer).
+   */
+  @Get(":id/handoff-code")
+  @Roles(UserRole.CUSTOMER)
+  @ApiOperation({ summary: "Get delivery handoff code (Customer only)" })
+  @ApiResponse({ status: 200, description: "Handoff code" })
+  @ApiResponse({ status: 400, description: "Order is not out for delivery" })
+  @ApiResponse({ status: 403, description: "Not your order" })
+  async getHandoffCode(
+    @Param("id") orderId: string,
+    @CurrentUser("_id") userId: string,
+  ) {
+    return this.ordersService.getHandoffCode(orderId, userId);
+  }
+
+  /**
+   * Book a new delivery slot after a failed attempt (customer).
+   */
+  @Post(":id/redelivery")
+  @Roles(UserRole.CUSTOMER)
+  @ApiOperation({ summary: "Reschedule a failed delivery (Customer only)" })
+  @ApiResponse({ status: 201, description: "Re-delivery booked" })
+  @ApiResponse({
+    status: 400,
+    description: "No failed delivery to reschedule, or escalated to admin",
+  })
+  @ApiResponse({ status: 403, description: "Not your order" })
+  @ApiResponse({ status: 409, description: "Selected slot is fully booked" })
+  async rescheduleDelivery(
+    @Param("id") orderId: string,
+    @CurrentUser("_id") userId: string,
+    @Body() dto: RescheduleDeliveryDto,
+  ) {
+    return this.ordersService.rescheduleDelivery(orderId, userId, dto);
+  }
+
+  /**
+   * Accept or reject the items counted at pickup (customer).
+   */
+  @Post(":id/pickup-verification/respond")
+  @Roles(UserRole.CUSTOMER, UserRole.ADMIN)
+  @ApiOperation({ summary: "Respond to pickup count (Customer/Admin)" })
+  @ApiResponse({ status: 201, description: "Response recorded" })
+  @ApiResponse({ status: 400, description: "No pickup count awaiting response" })
+  @ApiResponse({ status: 403, description: "Not your order" })
+  async respondToPickupVerification(
+    @Param("id") orderId: string,
+    @Body() dto: RespondPickupVerificationDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.ordersService.respondToPickupVerification(orderId, dto, user);
+  }
+
   // ========== Delivery Endpoints ==========
 
   /**
@@ -98,20 +212,110 @@ export class OrdersController {
   }
 
   /**
-   * Update order status (delivery person).
+   * Update order status (delivery person, laundry staff or admin).
+   * Who may set each status is defined in ORDER_STATUS_RULES.
+   * Accepts JSON, or multipart with proof photos and a signature image.
    */
   @Patch(":id/status")
-  @Roles(UserRole.DELIVERY, UserRole.ADMIN)
-  @ApiOperation({ summary: "Update order status (Delivery/Admin)" })
+  @Roles(UserRole.DELIVERY, UserRole.LAUNDRY_STAFF, UserRole.ADMIN)
+  @UseInterceptors(
+    FileFieldsInterceptor(
+      [
+        { name: "photos", maxCount: MAX_PROOF_PHOTOS },
+        { name: "signature", maxCount: 1 },
+      ],
+      { limits: { fileSize: MAX_UPLOAD_BYTES } },
+    ),
+  )
+  @ApiConsumes("application/json", "multipart/form-data")
+  @ApiOperation({ summary: "Update order status (Delivery/Laundry staff/Admin)" })
   @ApiResponse({ status: 200, description: "Status updated successfully" })
-  @ApiResponse({ status: 400, description: "Invalid status transition" })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid status transition or handoff code",
+  })
+  @ApiResponse({
+    status: 403,
+    description: "Role may not set this status, or too many incorrect handoff codes",
+  })
   @ApiResponse({ status: 404, description: "Order not found" })
   async updateOrderStatus(
     @Param("id") orderId: string,
     @Body() dto: UpdateOrderStatusDto,
     @CurrentUser() user: UserDocument,
+    @UploadedFiles() files?: ProofFiles,
+  ) {
+    return this.ordersService.updateOrderStatus(orderId, dto, user, files);
+  }
+
+  /**
+   * Log a failed delivery attempt (delivery person).
+   */
+  @Post(":id/failed-delivery")
+  @Roles(UserRole.DELIVERY, UserRole.ADMIN)
+  @ApiOperation({ summary: "Log failed delivery attempt (Delivery/Admin)" })
+  @ApiResponse({ status: 201, description: "Attempt logged" })
+  @ApiResponse({ status: 400, description: "Order is not out for delivery" })
+  @ApiResponse({ status: 403, description: "Not assigned to this order" })
+  async recordFailedDelivery(
+    @Param("id") orderId: string,
+    @Body() dto: FailedDeliveryDto,
+    @CurrentUser() user: UserDocument,
   ) {
-    return this.ordersService.updateOrderStatus(orderId, dto, user);
+    return this.ordersService.recordFailedDelivery(orderId, dto, user);
+  }
+
+  /**
+   * Record the items collected at pickup (delivery person).
+   */
+  @Post(":id/pickup-verification")
+  @Roles(UserRole.DELIVERY, UserRole.ADMIN)
+  @ApiOperation({ summary: "Record items collected at pickup (Delivery/Admin)" })
+  @ApiResponse({ status: 201, description: "Order repriced from the count" })
+  @ApiResponse({ status: 400, description: "Order is past pickup" })
+  @ApiResponse({ status: 403, description: "Not assigned to this order" })
+  async verifyPickup(
+    @Param("id") orderId: string,
+    @Body() dto: VerifyPickupDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.ordersService.verifyPickup(orderId, dto, user);
+  }
+
+  /**
+   * Download a proof photo or signature for an order.
+   */
+  @Get(":id/proof/:fileName")
+  @ApiOperation({ summary: "Get proof photo or signature" })
+  @ApiResponse({ status: 200, description: "Image file" })
+  @ApiResponse({ status: 403, description: "Access denied to this order" })
+  @ApiResponse({ status: 404, description: "File not found" })
+  async getProofFile(
+    @Param("id") orderId: string,
+    @Param("fileName") fileName: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const file = await this.ordersService.getProofFile(orderId, fileName, user);
+    return new StreamableFile(file.stream, { type: file.contentType });
+  }
+
+  // ========== Laundry Endpoints ==========
+
+  /**
+   * Move an order to another laundry processing stage.
+   */
+  @Patch(":id/processing-stage")
+  @Roles(UserRole.LAUNDRY_STAFF, UserRole.ADMIN)
+  @ApiOperation({ summary: "Update processing stage (Laundry staff/Admin)" })
+  @ApiResponse({ status: 200, description: "Processing stage updated" })
+  @ApiResponse({ status: 400, description: "Order is not in laundry" })
+  @ApiResponse({ status: 404, description: "Order not found" })
+  async updateProcessingStage(
+    @Param("id") orderId: string,
+    @Body() dto: UpdateProcessingStageDto,
+    @CurrentUser("_id") staffId: string,
+  ) {
+    return this.ordersService.updateProcessingStage(orderId, dto, staffId);
   }
 
   // ========== Admin Endpoints ==========
@@ -145,6 +349,17 @@ export class OrdersController {
     return this.ordersService.getUnassignedOrders();
   }
 
+  /**
+   * Get orders escalated after repeated failed deliveries (admin).
+   */
+  @Get("escalated")
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: "Get escalated deliveries (Admin only)" })
+  @ApiResponse({ status: 200, description: "Escalated orders, oldest first" })
+  async getEscalatedOrders() {
+    return this.ordersService.getEscalatedOrders();
+  }
+
   /**
    * Get order statistics (admin dashboard).
    */
@@ -184,7 +399,71 @@ export class OrdersController {
   async assignDeliveryPerson(
     @Param("id") orderId: string,
     @Body() dto: AssignDeliveryDto,
+    @CurrentUser("_id") adminId: string,
   ) {
-    return this.ordersService.assignDeliveryPerson(orderId, dto);
+    return this.ordersService.assignDeliveryPerson(orderId, dto, adminId);
+  }
+
+  /**
+   * Force an order into any status, e.g. to undo a mistaken update (admin).
+   */
+  @Post(":id/status-override")
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: "Override order status (Admin only)" })
+  @ApiResponse({ status: 201, description: "Status overridden" })
+  @ApiResponse({ status: 400, description: "Order is already in that status" })
+  @ApiResponse({ status: 404, description: "Order not found" })
+  async overrideStatus(
+    @Param("id") orderId: string,
+    @Body() dto: OverrideOrderStatusDto,
+    @CurrentUser("_id") adminId: string,
+  ) {
+    return this.ordersService.overrideStatus(orderId, dto, adminId);
+  }
+
+  // ========== Dispatch Endpoints ==========
+
+  /**
+   * Auto-assign every unassigned order (admin).
+   */
+  @Post("dispatch")
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: "Auto-assign all unassigned orders (Admin only)" })
+  @ApiQuery({ name: "strategy", required: false, enum: DispatchStrategy })
+  @ApiResponse({ status: 201, description: "Dispatch summary" })
+  async dispatchPending(
+    @Query("strategy", new ParseEnumPipe(DispatchStrategy, { optional: true }))
+    strategy?: DispatchStrategy,
+  ) {
+    return this.dispatchService.dispatchPending(strategy);
+  }
+
+  /**
+   * Auto-assign a single order (admin).
+   */
+  @Post(":id/dispatch")
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: "Auto-assign order to a rider (Admin only)" })
+  @ApiQuery({ name: "strategy", required: false, enum: DispatchStrategy })
+  @ApiResponse({ status: 201, description: "Dispatch log entry" })
+  @ApiResponse({ status: 400, description: "Order already assigned" })
+  async dispatchOrder(
+    @Param("id") orderId: string,
+    @Query("strategy", new ParseEnumPipe(DispatchStrategy, { optional: true }))
+    strategy?: DispatchStrategy,
+  ) {
+    return this.dispatchService.autoAssign(orderId, strategy);
+  }
+
+  /**
+   * Get the dispatch log for an order (admin).
+   */
+  @Get(":id/dispatch-log")
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: "Get dispatch log for order (Admin only)" })
+  @ApiResponse({ status: 200, description: "Dispatch attempts, newest first" })
+  @ApiResponse({ status: 404, description: "Order not found" })
+  async getDispatchLogs(@Param("id") orderId: string) {
+    return this.dispatchService.getDispatchLogs(orderId);
   }
 }
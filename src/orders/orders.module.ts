@@ -2,21 +2,52 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { OrdersService } from './orders.service';
 import { OrdersController } from './orders.controller';
+import { OrderPricingModule } from './order-pricing.module';
+import { DispatchService } from './dispatch.service';
+import { GarmentsService } from './garments.service';
+import { GarmentsController } from './garments.controller';
 import { Order, OrderSchema } from './schemas/order.schema';
+import { DispatchLog, DispatchLogSchema } from './schemas/dispatch-log.schema';
+import { Garment, GarmentSchema } from './schemas/garment.schema';
 import { CatalogModule } from '../catalog/catalog.module';
 import { UsersModule } from '../users/users.module';
+import { SmsModule } from '../sms/sms.module';
+import { TimeSlotsModule } from '../time-slots/time-slots.module';
+import { ZonesModule } from '../zones/zones.module';
+import { GeocodingModule } from '../geocoding/geocoding.module';
+import { RidersModule } from '../riders/riders.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { StorageModule } from '../storage/storage.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { CouponsModule } from '../coupons/coupons.module';
+import { LoyaltyModule } from '../loyalty/loyalty.module';
 
 /**
  * Orders module - order management and tracking.
  */
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Order.name, schema: OrderSchema }]),
+    MongooseModule.forFeature([
+      { name: Order.name, schema: OrderSchema },
+      { name: DispatchLog.name, schema: DispatchLogSchema },
+      { name: Garment.name, schema: GarmentSchema },
+    ]),
     CatalogModule, // For pricing calculations
-    UsersModule, // For delivery person validation
+    OrderPricingModule, // For item and delivery pricing
+    UsersModule, // For delivery person validation and saved addresses
+    SmsModule, // For customer status notifications
+    TimeSlotsModule, // For pickup/delivery slot booking
+    ZonesModule, // For zone-based delivery charges and dispatch
+    GeocodingModule, // For coordinates on inline addresses
+    RidersModule, // For rider availability
+    RealtimeModule, // For live order updates
+    StorageModule, // For proof of pickup/delivery photos
+    PaymentsModule, // For cash collected at delivery
+    CouponsModule, // For coupon discounts at checkout
+    LoyaltyModule, // For earning and redeeming points
   ],
-  controllers: [OrdersController],
-  providers: [OrdersService],
+  controllers: [OrdersController, GarmentsController],
+  providers: [OrdersService, DispatchService, GarmentsService],
   exports: [OrdersService],
 })
 export class OrdersModule {}
@@ -3,35 +3,496 @@ import {
   NotFoundException,
   BadRequestException,
   ForbiddenException,
+  Logger,
 } from "@nestjs/common";
 import { InjectModel } from "@nestjs/mongoose";
 import { Model, Types } from "mongoose";
 import { ConfigService } from "@nestjs/config";
-import { Order, OrderDocument } from "./schemas/order.schema";
-import { CreateOrderDto } from "./dto/create-order.dto";
+import { Readable } from "stream";
+import { randomInt, timingSafeEqual } from "crypto";
+import {
+  Order,
+  OrderDocument,
+  OrderAddress,
+  OrderAttachment,
+  OrderItem,
+  StatusProof,
+} from "./schemas/order.schema";
+import { CreateOrderDto, AddressDto } from "./dto/create-order.dto";
 import { UpdateOrderStatusDto } from "./dto/update-order-status.dto";
 import { AssignDeliveryDto } from "./dto/assign-delivery.dto";
+import { CancelOrderDto } from "./dto/cancel-order.dto";
+import { UpdateOrderDto } from "./dto/update-order.dto";
+import { UpdateProcessingStageDto } from "./dto/update-processing-stage.dto";
+import { FailedDeliveryDto } from "./dto/failed-delivery.dto";
+import { RescheduleDeliveryDto } from "./dto/reschedule-delivery.dto";
+import { OverrideOrderStatusDto } from "./dto/override-order-status.dto";
+import { VerifyPickupDto } from "./dto/verify-pickup.dto";
+import { RespondPickupVerificationDto } from "./dto/respond-pickup-verification.dto";
 import {
   OrderStatus,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_RULES,
+  LEGACY_ORDER_STATUS,
+  CUSTOMER_CANCELLABLE_STATUSES,
   isValidStatusTransition,
 } from "./enums/order-status.enum";
-import { CatalogService } from "../catalog/catalog.service";
+import { ProcessingStage } from "./enums/processing-stage.enum";
+import { PickupVerificationStatus } from "./enums/pickup-verification-status.enum";
+import { CancellationReason } from "./enums/cancellation-reason.enum";
+import { OrderPricingService } from "./order-pricing.service";
+import { DispatchService } from "./dispatch.service";
+import { GarmentsService } from "./garments.service";
 import { UsersService } from "../users/users.service";
-import { UserRole } from "../users/enums/user-role.enum";
+import { UserAddressesService } from "../users/user-addresses.service";
+import { RidersService } from "../riders/riders.service";
+import { GeocodingService } from "../geocoding/geocoding.service";
+import { SmsService } from "../sms/sms.service";
+import { SmsTemplate } from "../sms/templates/sms-templates";
+import { RealtimeService } from "../realtime/realtime.service";
+import { RealtimeEventType } from "../realtime/enums/realtime-event-type.enum";
+import { StorageService, UploadedFileData } from "../storage/storage.service";
+import { PaymentsService } from "../payments/payments.service";
+import { PaymentMethod } from "../payments/enums/payment-method.enum";
+import { OrderPaymentStatus } from "../payments/enums/order-payment-status.enum";
+import { CouponsService, AppliedCoupon } from "../coupons/coupons.service";
+import { LoyaltyService, PointsRedemption } from "../loyalty/loyalty.service";
+import { TimeSlotsService } from "../time-slots/time-slots.service";
+import { TimeSlotDocument } from "../time-slots/schemas/time-slot.schema";
+import { SlotType } from "../time-slots/enums/slot-type.enum";
+import { UserRole, USER_ROLE_LABELS } from "../users/enums/user-role.enum";
 import { UserDocument } from "../users/schemas/user.schema";
 
+/**
+ * Most proof photos accepted on one status update.
+ */
+export const MAX_PROOF_PHOTOS = 5;
+
+/**
+ * Files uploaded with a status update.
+ */
+export interface ProofFiles {
+  photos?: UploadedFileData[];
+  signature?: UploadedFileData[];
+}
+
 /**
  * Orders service - handles order creation, status updates, and queries.
  */
 @Injectable()
 export class OrdersService {
+  private readonly logger = new Logger(OrdersService.name);
+
   constructor(
     @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
-    private catalogService: CatalogService,
+    private orderPricingService: OrderPricingService,
+    private dispatchService: DispatchService,
+    private garmentsService: GarmentsService,
     private usersService: UsersService,
+    private userAddressesService: UserAddressesService,
+    private geocodingService: GeocodingService,
+    private ridersService: RidersService,
+    private smsService: SmsService,
+    private realtimeService: RealtimeService,
+    private storageService: StorageService,
+    private paymentsService: PaymentsService,
+    private couponsService: CouponsService,
+    private loyaltyService: LoyaltyService,
+    private timeSlotsService: TimeSlotsService,
     private configService: ConfigService,
   ) {}
 
+  /**
+   * Build an order address from a saved address ID or an inline address.
+   * Saved addresses are copied so later edits don't change the order;
+   * inline addresses without a map pin are geocoded.
+   */
+  private async resolveAddress(
+    userId: string,
+    address?: AddressDto,
+    addressId?: string,
+  ): Promise<OrderAddress | undefined> {
+    if (address && addressId) {
+      throw new BadRequestException(
+        "Provide either an address or a saved address ID, not both",
+      );
+    }
+
+    if (addressId) {
+      const saved = await this.userAddressesService.getAddress(
+        userId,
+        addressId,
+      );
+      return {
+        fullAddress: saved.fullAddress,
+        landmark: saved.landmark,
+        contactPhone: saved.contactPhone,
+        area: saved.area,
+        location: saved.location
+          ? { lat: saved.location.lat, lng: saved.location.lng }
+          : undefined,
+        label: saved.label,
+        savedAddress: saved._id,
+      };
+    }
+
+    if (!address || address.location) {
+      return address;
+    }
+
+    const result = await this.geocodingService.geocode(address);
+    return {
+      ...address,
+      area: address.area || result?.area,
+      location: result ? { lat: result.lat, lng: result.lng } : undefined,
+    };
+  }
+
+  /**
+   * Reserve a pickup slot by ID, or the slot covering a requested time.
+   * A requested time must fall inside the chosen slot. New orders must
+   * pick one once pickup slots are set up.
+   */
+  private async reservePickupSlot(
+    dto: {
+      pickupSlotId?: string;
+      scheduledPickupTime?: string;
+    },
+    isNewOrder = false,
+  ): Promise<TimeSlotDocument | null> {
+    if (dto.pickupSlotId) {
+      const slot = await this.timeSlotsService.reserve(
+        dto.pickupSlotId,
+        SlotType.PICKUP,
+      );
+      const time = dto.scheduledPickupTime
+        ? new Date(dto.scheduledPickupTime)
+        : null;
+      if (time && (time < slot.startsAt || time >= slot.endsAt)) {
+        await this.timeSlotsService.release(slot._id as Types.ObjectId);
+        throw new BadRequestException(
+          "scheduledPickupTime must fall inside the selected pickup slot",
+        );
+      }
+      return slot;
+    }
+    if (dto.scheduledPickupTime) {
+      return this.timeSlotsService.reserveCovering(
+        SlotType.PICKUP,
+        new Date(dto.scheduledPickupTime),
+      );
+    }
+    if (
+      isNewOrder &&
+      (await this.timeSlotsService.hasUpcomingSlots(SlotType.PICKUP))
+    ) {
+      throw new BadRequestException(
+        "Choose a pickup slot (see GET time-slots/available)",
+      );
+    }
+    return null;
+  }
+
+  /**
+   * Ensure the delivery slot leaves enough time to process the laundry.
+   */
+  private assertDeliveryAfterPickup(
+    pickupEndsAt: Date,
+    deliverySlot: TimeSlotDocument,
+  ): void {
+    const turnaroundHours = Number(
+      this.configService.get("SLOT_MIN_TURNAROUND_HOURS", 24),
+    );
+    const earliest = pickupEndsAt.getTime() + turnaroundHours * 60 * 60 * 1000;
+    if (deliverySlot.startsAt.getTime() < earliest) {
+      throw new BadRequestException(
+        `Delivery slot must start at least ${turnaroundHours} hours after pickup`,
+      );
+    }
+  }
+
+
+  /**
+   * Unlink slots of the given types from an order, returning their IDs so
+   * they can be released once the order is saved.
+   */
+  private detachSlots(
+    order: OrderDocument,
+    types: SlotType[],
+  ): Types.ObjectId[] {
+    const detached: Types.ObjectId[] = [];
+    if (types.includes(SlotType.PICKUP) && order.pickupSlot) {
+      detached.push(order.pickupSlot);
+      order.set("pickupSlot", undefined);
+    }
+    if (types.includes(SlotType.DELIVERY) && order.deliverySlot) {
+      detached.push(order.deliverySlot);
+      order.set("deliverySlot", undefined);
+    }
+    return detached;
+  }
+
+  /**
+   * Short human-readable order reference for messages.
+   */
+  private getOrderRef(order: OrderDocument): string {
+    return "#" + order._id.toString().slice(-6).toUpperCase();
+  }
+
+  /**
+   * Text the customer about a status change.
+   * Runs in the background; SMS failures never block the status update.
+   */
+  private notifyCustomerOfStatus(order: OrderDocument): void {
+    const send = async () => {
+      const customer = await this.usersService.findById(
+        order.customer.toString(),
+      );
+      if (!customer) {
+        return;
+      }
+      await this.smsService.sendTemplate(
+        customer.phoneNumber,
+        SmsTemplate.ORDER_STATUS,
+        {
+          orderRef: this.getOrderRef(order),
+          status: ORDER_STATUS_LABELS[order.status],
+        },
+        {
+          language: customer.preferredLanguage,
+          context: { orderId: order._id.toString(), status: order.status },
+        },
+      );
+    };
+
+    send().catch((error) =>
+      this.logger.warn(
+        `Status SMS for order ${order._id.toString()} failed: ${error}`,
+      ),
+    );
+  }
+
+  /**
+   * Give the customer loyalty points for a delivered order.
+   * Runs in the background; awarding twice only restores points taken
+   * back when an earlier delivery was reversed.
+   */
+  private awardPoints(order: OrderDocument): void {
+    this.loyaltyService
+      .earnForOrder(order)
+      .catch((error) =>
+        this.logger.warn(
+          `Awarding points for order ${order._id.toString()} failed: ${error}`,
+        ),
+      );
+  }
+
+  /**
+   * Points an order keeps after it was repriced: no more than the
+   * redemption cap allows on the new total after coupons.
+   */
+  private capPoints(order: OrderDocument, payable: number): PointsRedemption {
+    return this.loyaltyService.capRedemption(
+      {
+        points: order.pricing.pointsRedeemed || 0,
+        discount: order.pricing.pointsDiscount || 0,
+      },
+      payable,
+    );
+  }
+
+  /**
+   * Give back points a repriced order no longer uses.
+   */
+  private async returnExcessPoints(order: OrderDocument): Promise<void> {
+    await this.loyaltyService.returnRedeemedPoints(
+      order._id as Types.ObjectId,
+      "Points returned: order total reduced",
+      order.pricing.pointsRedeemed || 0,
+    );
+  }
+
+  /**
+   * Push the latest status to the order's live subscribers.
+   */
+  private publishStatusChange(order: OrderDocument): void {
+    const latest = order.statusHistory[order.statusHistory.length - 1];
+    this.realtimeService.publishOrderEvent(
+      order,
+      RealtimeEventType.ORDER_STATUS,
+      {
+        status: LEGACY_ORDER_STATUS[order.status],
+        detailedStatus: order.status,
+        processingStage: order.processingStage,
+        note: latest?.note,
+        timestamp: latest?.timestamp,
+      },
+    );
+  }
+
+  /**
+   * Text the customer the handoff code for an order out for delivery.
+   * Runs in the background like status notifications.
+   */
+  private sendHandoffCode(order: OrderDocument): void {
+    const send = async () => {
+      const customer = await this.usersService.findById(
+        order.customer.toString(),
+      );
+      if (!customer || !order.handoff) {
+        return;
+      }
+      await this.smsService.sendTemplate(
+        customer.phoneNumber,
+        SmsTemplate.HANDOFF_CODE,
+        { orderRef: this.getOrderRef(order), code: order.handoff.code },
+        {
+          language: customer.preferredLanguage,
+          context: { orderId: order._id.toString() },
+        },
+      );
+    };
+
+    send().catch((error) =>
+      this.logger.warn(
+        `Handoff code SMS for order ${order._id.toString()} failed: ${error}`,
+      ),
+    );
+  }
+
+  /**
+   * Check the customer's handoff code for a delivery.
+   * Wrong codes are counted; after HANDOFF_MAX_ATTEMPTS only an admin
+   * can complete the delivery.
+   */
+  private async verifyHandoffCode(
+    order: OrderDocument,
+    code?: string,
+  ): Promise<void> {
+    const handoff = order.handoff!;
+    const maxAttempts = Number(
+      this.configService.get("HANDOFF_MAX_ATTEMPTS", 5),
+    );
+
+    if (handoff.failedAttempts >= maxAttempts) {
+      throw new ForbiddenException(
+        "Too many incorrect handoff codes. Ask support to confirm the delivery",
+      );
+    }
+    if (!code) {
+      throw new BadRequestException(
+        "handoffCode from the customer is required to mark the order delivered",
+      );
+    }
+
+    const matches =
+      code.length === handoff.code.length &&
+      timingSafeEqual(Buffer.from(code), Buffer.from(handoff.code));
+    if (!matches) {
+      const updated = await this.orderModel
+        .findByIdAndUpdate(
+          order._id,
+          { $inc: { "handoff.failedAttempts": 1 } },
+          { new: true },
+        )
+        .exec();
+      const attemptsLeft = Math.max(
+        maxAttempts - (updated?.handoff?.failedAttempts ?? maxAttempts),
+        0,
+      );
+      throw new BadRequestException(
+        `Incorrect handoff code (${attemptsLeft} attempts left)`,
+      );
+    }
+  }
+
+  /**
+   * Whether two item lists hold the same garments and services.
+   */
+  private isSameItems(a: OrderItem[], b: OrderItem[]): boolean {
+    const key = (items: OrderItem[]) =>
+      items
+        .map(
+          (item) =>
+            `${item.clothingItem.toString()}|${item.category}|` +
+            `${[...item.services].sort().join(",")}|${item.quantity}`,
+        )
+        .sort()
+        .join(";");
+    return key(a) === key(b);
+  }
+
+  /**
+   * Text the customer the pickup count they need to accept.
+   */
+  private notifyCustomerOfPickupCount(order: OrderDocument): void {
+    const send = async () => {
+      const customer = await this.usersService.findById(
+        order.customer.toString(),
+      );
+      if (!customer) {
+        return;
+      }
+      await this.smsService.sendTemplate(
+        customer.phoneNumber,
+        SmsTemplate.PICKUP_COUNT,
+        {
+          orderRef: this.getOrderRef(order),
+          count: order.items.reduce((sum, item) => sum + item.quantity, 0),
+          total: order.pricing.grandTotal,
+        },
+        {
+          language: customer.preferredLanguage,
+          context: { orderId: order._id.toString() },
+        },
+      );
+    };
+
+    send().catch((error) =>
+      this.logger.warn(
+        `Pickup count SMS for order ${order._id.toString()} failed: ${error}`,
+      ),
+    );
+  }
+
+  /**
+   * Tell the customer a delivery failed and what happens next.
+   */
+  private notifyCustomerOfFailedDelivery(order: OrderDocument): void {
+    const send = async () => {
+      const customer = await this.usersService.findById(
+        order.customer.toString(),
+      );
+      if (!customer) {
+        return;
+      }
+      const nextStep = order.deliveryEscalatedAt
+        ? {
+            en: "Our team will call you to arrange delivery.",
+            bn: "ডেলিভারির ব্যবস্থা করতে আমাদের টিম আপনাকে কল করবে।",
+          }
+        : {
+            en: "Please pick a new delivery slot in the app.",
+            bn: "অ্যাপে নতুন ডেলিভারি সময় বেছে নিন।",
+          };
+      await this.smsService.sendTemplate(
+        customer.phoneNumber,
+        SmsTemplate.DELIVERY_FAILED,
+        { orderRef: this.getOrderRef(order), nextStep },
+        {
+          language: customer.preferredLanguage,
+          context: { orderId: order._id.toString(), status: order.status },
+        },
+      );
+    };
+
+    send().catch((error) =>
+      this.logger.warn(
+        `Failed delivery SMS for order ${order._id.toString()} failed: ${error}`,
+      ),
+    );
+  }
+
   /**
    * Create a new order.
    */
@@ -40,78 +501,153 @@ export class OrdersService {
     dto: CreateOrderDto,
   ): Promise<OrderDocument> {
     // Calculate pricing for all items
-    const itemsWithPricing = [];
-    let itemsTotal = 0;
-
-    for (const item of dto.items) {
-      const clothingItem = await this.catalogService.getClothingItemById(
-        item.clothingItemId,
-      );
-
-      // Calculate price for each service
-      let unitPrice = 0;
-      for (const serviceType of item.services) {
-        try {
-          const price = await this.catalogService.getItemPrice(
-            item.clothingItemId,
-            serviceType,
-            item.category,
-          );
-          unitPrice += price;
-        } catch {
-          throw new BadRequestException(
-            `Pricing not found for ${clothingItem.name.en} - ${serviceType}`,
-          );
-        }
-      }
+    const { items, itemsTotal } = await this.orderPricingService.priceItems(
+      dto.items,
+    );
 
-      const subtotal = unitPrice * item.quantity;
-      itemsTotal += subtotal;
-
-      itemsWithPricing.push({
-        clothingItem: new Types.ObjectId(item.clothingItemId),
-        clothingItemName: clothingItem.name.en,
-        category: item.category,
-        services: item.services,
-        quantity: item.quantity,
-        unitPrice,
-        subtotal,
-      });
+    const pickupAddress = await this.resolveAddress(
+      userId,
+      dto.pickupAddress,
+      dto.pickupAddressId,
+    );
+    if (!pickupAddress) {
+      throw new BadRequestException(
+        "pickupAddress or pickupAddressId is required",
+      );
     }
+    const deliveryAddress =
+      (await this.resolveAddress(
+        userId,
+        dto.deliveryAddress,
+        dto.deliveryAddressId,
+      )) || pickupAddress;
 
-    // Get delivery charge from config
-    const deliveryCharge = Number(
-      this.configService.get("DEFAULT_DELIVERY_CHARGE", 60),
+    const delivery = await this.orderPricingService.quoteDelivery(
+      pickupAddress,
+      deliveryAddress,
+      itemsTotal,
     );
-    const grandTotal = itemsTotal + deliveryCharge;
 
-    // Create order
-    const order = new this.orderModel({
-      customer: new Types.ObjectId(userId),
-      items: itemsWithPricing,
-      pricing: {
+    let applied: AppliedCoupon | null = null;
+    if (dto.couponCode) {
+      applied = await this.couponsService.evaluate(dto.couponCode, userId, {
         itemsTotal,
-        deliveryCharge,
-        grandTotal,
-      },
-      pickupAddress: dto.pickupAddress,
-      deliveryAddress: dto.deliveryAddress || dto.pickupAddress,
-      notes: dto.notes,
-      scheduledPickupTime: dto.scheduledPickupTime
-        ? new Date(dto.scheduledPickupTime)
-        : undefined,
-      status: OrderStatus.REQUESTED,
-      statusHistory: [
-        {
-          status: OrderStatus.REQUESTED,
-          timestamp: new Date(),
-          note: "Order placed",
-          updatedBy: new Types.ObjectId(userId),
+        deliveryCharge: delivery.deliveryCharge,
+        items,
+      });
+    }
+    const discount = applied?.discount ?? 0;
+
+    let points: PointsRedemption | null = null;
+    if (dto.redeemPoints) {
+      points = await this.loyaltyService.quoteRedemption(
+        userId,
+        dto.redeemPoints,
+        itemsTotal + delivery.deliveryCharge - discount,
+      );
+    }
+    const pricing = {
+      itemsTotal,
+      ...delivery,
+      discount,
+      couponCode: applied?.coupon.code,
+      coupon: applied?.coupon._id as Types.ObjectId | undefined,
+      pointsRedeemed: points?.points ?? 0,
+      pointsDiscount: points?.discount ?? 0,
+    };
+    const grandTotal = this.orderPricingService.computeGrandTotal(pricing);
+
+    // Reserve time slots (released again if anything below fails)
+    const pickupSlot = await this.reservePickupSlot(dto, true);
+    let deliverySlot: TimeSlotDocument | null = null;
+    let redeemedFor: Types.ObjectId | null = null;
+    let pointsSpentOn: Types.ObjectId | null = null;
+
+    try {
+      if (dto.deliverySlotId) {
+        deliverySlot = await this.timeSlotsService.reserve(
+          dto.deliverySlotId,
+          SlotType.DELIVERY,
+        );
+        this.assertDeliveryAfterPickup(
+          pickupSlot?.endsAt ?? new Date(),
+          deliverySlot,
+        );
+      }
+
+      // Create order
+      const order = new this.orderModel({
+        customer: new Types.ObjectId(userId),
+        items,
+        pricing: { ...pricing, grandTotal },
+        payment: {
+          method: dto.paymentMethod ?? PaymentMethod.CASH_ON_DELIVERY,
+          status: OrderPaymentStatus.UNPAID,
+          paidAmount: 0,
         },
-      ],
-    });
+        pickupAddress,
+        deliveryAddress,
+        notes: dto.notes,
+        scheduledPickupTime: dto.scheduledPickupTime
+          ? new Date(dto.scheduledPickupTime)
+          : pickupSlot?.startsAt,
+        pickupSlot: pickupSlot?._id,
+        deliverySlot: deliverySlot?._id,
+        status: OrderStatus.REQUESTED,
+        statusHistory: [
+          {
+            status: OrderStatus.REQUESTED,
+            timestamp: new Date(),
+            note: "Order placed",
+            updatedBy: new Types.ObjectId(userId),
+          },
+        ],
+      });
+
+      if (applied) {
+        await this.couponsService.redeem(
+          applied.coupon,
+          userId,
+          order._id as Types.ObjectId,
+          discount,
+        );
+        redeemedFor = order._id as Types.ObjectId;
+      }
+      if (points) {
+        await this.loyaltyService.redeemForOrder(
+          userId,
+          points.points,
+          order._id as Types.ObjectId,
+        );
+        pointsSpentOn = order._id as Types.ObjectId;
+      }
+
+      const saved = await order.save();
+
+      if (this.dispatchService.isAutoDispatchEnabled()) {
+        this.dispatchService
+          .autoAssign(saved._id.toString())
+          .catch((error) =>
+            this.logger.warn(
+              `Auto-dispatch for order ${saved._id.toString()} failed: ${error}`,
+            ),
+          );
+      }
 
-    return order.save();
+      return saved;
+    } catch (error) {
+      await Promise.all([
+        this.timeSlotsService.release(pickupSlot?._id as Types.ObjectId),
+        this.timeSlotsService.release(deliverySlot?._id as Types.ObjectId),
+        redeemedFor && this.couponsService.undoRedemption(redeemedFor),
+        pointsSpentOn &&
+          this.loyaltyService.returnRedeemedPoints(
+            pointsSpentOn,
+            "Points returned: order could not be placed",
+          ),
+      ]);
+      throw error;
+    }
   }
 
   /**
@@ -346,11 +882,15 @@ export class OrdersService {
 
   /**
    * Update order status.
+   * Riders can attach proof (photos, signature, recipient name) to the
+   * history entry, and must enter the customer's handoff code to mark an
+   * order delivered.
    */
   async updateOrderStatus(
     orderId: string,
     dto: UpdateOrderStatusDto,
     user: UserDocument,
+    files: ProofFiles = {},
   ): Promise<OrderDocument> {
     const order = await this.orderModel.findById(orderId).exec();
 
@@ -365,17 +905,143 @@ export class OrdersService {
       );
     }
 
-    // Check permissions for status updates
+    // Check permissions for the target status
+    const rule = ORDER_STATUS_RULES[dto.status];
     const userId = user._id.toString();
-    const isDelivery = order.deliveryPerson?.toString() === userId;
     const isAdmin = user.role === UserRole.ADMIN;
 
-    // Only delivery person or admin can update status
-    if (!isDelivery && !isAdmin) {
+    if (!rule.allowedRoles.includes(user.role)) {
+      throw new ForbiddenException(
+        `${USER_ROLE_LABELS[user.role].en} cannot set status ${dto.status}`,
+      );
+    }
+    // Riders can only move orders assigned to them
+    if (
+      user.role === UserRole.DELIVERY &&
+      order.deliveryPerson?.toString() !== userId
+    ) {
+      throw new ForbiddenException("This order is not assigned to you");
+    }
+    // Escalated orders wait for an admin decision
+    if (
+      order.status === OrderStatus.DELIVERY_FAILED &&
+      order.deliveryEscalatedAt &&
+      !isAdmin
+    ) {
       throw new ForbiddenException(
-        "Only delivery person or admin can update order status",
+        "Delivery has been escalated to an admin after repeated failed attempts",
       );
     }
+    if (dto.status === OrderStatus.DELIVERY_FAILED) {
+      throw new BadRequestException(
+        "Log failed deliveries with POST /orders/:id/failed-delivery",
+      );
+    }
+    if (rule.requiresNote && !dto.note?.trim()) {
+      throw new BadRequestException(
+        `A note explaining why is required for status ${dto.status}`,
+      );
+    }
+
+    // Once a pickup count is recorded the customer must agree to it before
+    // washing starts; orders picked up without one go on as declared
+    if (
+      dto.status === OrderStatus.IN_LAUNDRY &&
+      order.pickupVerification &&
+      order.pickupVerification.status !== PickupVerificationStatus.ACCEPTED
+    ) {
+      throw new BadRequestException(
+        `Customer has not accepted the pickup count (${order.pickupVerification.status})`,
+      );
+    }
+
+    // Every tagged garment must be packed before the order leaves
+    if (
+      dto.status === OrderStatus.READY_FOR_DELIVERY ||
+      dto.status === OrderStatus.OUT_FOR_DELIVERY
+    ) {
+      await this.garmentsService.assertAllPacked(order);
+    }
+    if (dto.status === OrderStatus.PICKED_UP) {
+      order.tagsRequired = true;
+    }
+
+    // Orders sent out before handoff codes existed have none to check;
+    // admins may confirm a delivery without one
+    let handoffCodeVerified: boolean | undefined;
+    if (
+      dto.status === OrderStatus.DELIVERED &&
+      order.handoff &&
+      (!isAdmin || dto.handoffCode)
+    ) {
+      await this.verifyHandoffCode(order, dto.handoffCode);
+      handoffCodeVerified = true;
+      order.handoff.verifiedAt = new Date();
+    } else if (dto.status === OrderStatus.DELIVERED && order.handoff) {
+      handoffCodeVerified = false;
+    }
+
+    // Riders record the cash taken at the door; admins confirming a
+    // delivery after the fact may leave it out
+    if (dto.cashCollected !== undefined) {
+      if (dto.status !== OrderStatus.DELIVERED) {
+        throw new BadRequestException(
+          "Cash can only be recorded when marking the order delivered",
+        );
+      }
+      this.paymentsService.assertCashCollectable(
+        order,
+        dto.cashCollected,
+        dto.note,
+      );
+    } else if (dto.status === OrderStatus.DELIVERED && !isAdmin) {
+      const amountDue = this.paymentsService.getAmountDue(order);
+      if (amountDue > 0) {
+        throw new BadRequestException(
+          `${amountDue} BDT is due; record the cash collected as cashCollected`,
+        );
+      }
+    }
+
+    const photos = files.photos || [];
+    if (photos.length > MAX_PROOF_PHOTOS) {
+      throw new BadRequestException(
+        `At most ${MAX_PROOF_PHOTOS} proof photos per update`,
+      );
+    }
+    const prefix = `orders/${order._id.toString()}`;
+    const storedPhotos: OrderAttachment[] =
+      await this.storageService.saveImages(photos, prefix);
+    let signature: OrderAttachment | undefined;
+    try {
+      if (files.signature?.[0]) {
+        signature = await this.storageService.saveImage(
+          files.signature[0],
+          prefix,
+        );
+      }
+    } catch (error) {
+      await this.storageService.removeAll(storedPhotos.map((p) => p.key));
+      throw error;
+    }
+
+    let proof: StatusProof | undefined;
+    if (
+      storedPhotos.length ||
+      signature ||
+      dto.recipientName ||
+      handoffCodeVerified !== undefined
+    ) {
+      proof = {
+        photos: storedPhotos,
+        signature,
+        recipientName: dto.recipientName,
+        handoffCodeVerified,
+      };
+    }
+
+    // Give back booked slots the order no longer needs
+    const releasedSlots = this.detachSlots(order, rule.releasesSlots);
 
     // Update status
     order.status = dto.status;
@@ -384,17 +1050,92 @@ export class OrdersService {
       timestamp: new Date(),
       note: dto.note || "",
       updatedBy: new Types.ObjectId(userId),
+      proof,
+      releasedSlots: releasedSlots.length ? releasedSlots : undefined,
     });
+    if (dto.status === OrderStatus.CANCELLED) {
+      order.pricing.grandTotal = this.orderPricingService.computeGrandTotal(
+        order.pricing,
+        true,
+      );
+      this.paymentsService.refreshPaymentStatus(order);
+    }
+
+    // Laundry work starts at the first stage; resuming keeps the stage
+    if (dto.status === OrderStatus.IN_LAUNDRY && !order.processingStage) {
+      order.processingStage = ProcessingStage.RECEIVED;
+    }
+
+    // A fresh one-time code for every trip out
+    if (dto.status === OrderStatus.OUT_FOR_DELIVERY) {
+      order.handoff = {
+        code: randomInt(0, 10000).toString().padStart(4, "0"),
+        issuedAt: new Date(),
+        failedAttempts: 0,
+      };
+    }
+
+    let saved: OrderDocument;
+    try {
+      saved = await order.save();
+    } catch (error) {
+      await this.storageService.removeAll([
+        ...storedPhotos.map((p) => p.key),
+        ...(signature ? [signature.key] : []),
+      ]);
+      throw error;
+    }
+
+    await Promise.all(
+      releasedSlots.map((slotId) => this.timeSlotsService.release(slotId)),
+    );
+    if (saved.status === OrderStatus.CANCELLED) {
+      await this.couponsService.release(saved._id as Types.ObjectId);
+      await this.loyaltyService.returnRedeemedPoints(
+        saved._id as Types.ObjectId,
+        "Points returned: order cancelled",
+      );
+    }
+    if (dto.cashCollected) {
+      await this.paymentsService.recordCashCollection(
+        saved,
+        userId,
+        dto.cashCollected,
+      );
+    }
+    if (saved.status === OrderStatus.DELIVERED) {
+      this.awardPoints(saved);
+    }
+    // Tag each garment as it leaves the customer; staff can re-run
+    // tagging if this fails
+    if (saved.status === OrderStatus.PICKED_UP) {
+      await this.garmentsService
+        .tagOrder(saved, userId)
+        .catch((error) =>
+          this.logger.warn(
+            `Tagging garments of order ${saved._id.toString()} failed: ${error}`,
+          ),
+        );
+    }
+    if (rule.notifyCustomer) {
+      this.notifyCustomerOfStatus(saved);
+    }
+    if (saved.status === OrderStatus.OUT_FOR_DELIVERY) {
+      this.sendHandoffCode(saved);
+    }
+    this.publishStatusChange(saved);
 
-    return order.save();
+    return saved;
   }
 
   /**
-   * Assign delivery person to an order (admin only).
+   * Move an order to another stage inside the laundry (laundry staff).
+   * Recorded in the status history without changing the status.
    */
-  async assignDeliveryPerson(
+  async updateProcessingStage(
     orderId: string,
-    dto: AssignDeliveryDto,
+    dto: UpdateProcessingStageDto,
+    staffId: string,
   ): Promise<OrderDocument> {
     const order = await this.orderModel.findById(orderId).exec();
 
@@ -402,21 +1143,968 @@ export class OrdersService {
       throw new NotFoundException("Order not found");
     }
 
-    // Verify delivery person exists and has delivery role
-    const deliveryPerson = await this.usersService.findById(
-      dto.deliveryPersonId,
-    );
-    if (!deliveryPerson) {
-      throw new NotFoundException("Delivery person not found");
-    }
-
-    if (deliveryPerson.role !== UserRole.DELIVERY) {
-      throw new BadRequestException("User is not a delivery person");
+    if (order.status !== OrderStatus.IN_LAUNDRY) {
+      throw new BadRequestException(
+        `Processing stage can only change while the order is in laundry (status: ${order.status})`,
+      );
     }
 
-    order.deliveryPerson = new Types.ObjectId(dto.deliveryPersonId);
-    return order.save();
-  }
+    order.processingStage = dto.stage;
+    order.statusHistory.push({
+      status: order.status,
+      timestamp: new Date(),
+      note: dto.note || "",
+      processingStage: dto.stage,
+      updatedBy: new Types.ObjectId(staffId),
+    });
+
+    const saved = await order.save();
+    this.publishStatusChange(saved);
+
+    return saved;
+  }
+
+  /**
+   * Get the handoff code for an order out for delivery (customer).
+   */
+  async getHandoffCode(
+    orderId: string,
+    userId: string,
+  ): Promise<{ code: string; issuedAt: Date }> {
+    const order = await this.orderModel.findById(orderId).exec();
+
+    if (!order) {
+      throw new NotFoundException("Order not found");
+    }
+    if (order.customer.toString() !== userId) {
+      throw new ForbiddenException("You can only view your own orders");
+    }
+    if (order.status !== OrderStatus.OUT_FOR_DELIVERY || !order.handoff) {
+      throw new BadRequestException(
+        "Handoff code is only available while the order is out for delivery",
+      );
+    }
+
+    return { code: order.handoff.code, issuedAt: order.handoff.issuedAt };
+  }
+
+  /**
+   * Open a proof photo or signature from an order's status history.
+   * Same access rules as viewing the order.
+   */
+  async getProofFile(
+    orderId: string,
+    fileName: string,
+    user: UserDocument,
+  ): Promise<{ stream: Readable; contentType: string }> {
+    const order = await this.getOrderById(orderId, user);
+    const key = `orders/${order._id.toString()}/${fileName}`;
+
+    const attachment = order.statusHistory
+      .flatMap((entry) => [
+        ...(entry.proof?.photos || []),
+        ...(entry.proof?.signature ? [entry.proof.signature] : []),
+      ])
+      .find((file) => file.key === key);
+    if (!attachment) {
+      throw new NotFoundException("File not found");
+    }
+
+    const stream = await this.storageService.open(attachment.key);
+    return { stream, contentType: attachment.contentType };
+  }
+
+  /**
+   * Edit an order before pickup (customer).
+   * Items are repriced against the current catalog and every edit is
+   * recorded in the order's revision log.
+   */
+  async updateOrder(
+    orderId: string,
+    userId: string,
+    dto: UpdateOrderDto,
+  ): Promise<OrderDocument> {
+    const order = await this.orderModel.findById(orderId).exec();
+
+    if (!order) {
+      throw new NotFoundException("Order not found");
+    }
+
+    if (order.customer.toString() !== userId.toString()) {
+      throw new ForbiddenException("You can only edit your own orders");
+    }
+
+    if (order.status !== OrderStatus.REQUESTED) {
+      throw new BadRequestException(
+        "Order can only be edited before it is picked up",
+      );
+    }
+
+    const before = order.toObject();
+    const changedFields: string[] = [];
+    const previousValues: Record<string, unknown> = {};
+    const previousItemsTotal = order.pricing.itemsTotal;
+    const previousGrandTotal = order.pricing.grandTotal;
+
+    if (dto.items) {
+      const { items, itemsTotal } = await this.orderPricingService.priceItems(
+        dto.items,
+      );
+      previousValues.items = before.items;
+      order.items = items;
+      order.pricing.itemsTotal = itemsTotal;
+      changedFields.push("items");
+    }
+
+    const pickupAddress = await this.resolveAddress(
+      userId,
+      dto.pickupAddress,
+      dto.pickupAddressId,
+    );
+    if (pickupAddress) {
+      previousValues.pickupAddress = before.pickupAddress;
+      order.pickupAddress = pickupAddress;
+      changedFields.push("pickupAddress");
+    }
+
+    const deliveryAddress = await this.resolveAddress(
+      userId,
+      dto.deliveryAddress,
+      dto.deliveryAddressId,
+    );
+    if (deliveryAddress) {
+      previousValues.deliveryAddress = before.deliveryAddress;
+      order.deliveryAddress = deliveryAddress;
+      changedFields.push("deliveryAddress");
+    }
+
+    if (dto.notes !== undefined) {
+      previousValues.notes = before.notes;
+      order.notes = dto.notes;
+      changedFields.push("notes");
+    }
+
+    // Items and addresses both feed into the zone's delivery charge
+    if (dto.items || pickupAddress || deliveryAddress) {
+      const delivery = await this.orderPricingService.quoteDelivery(
+        order.pickupAddress,
+        order.deliveryAddress,
+        order.pricing.itemsTotal,
+      );
+      if (delivery.deliveryCharge !== order.pricing.deliveryCharge) {
+        previousValues.deliveryCharge = order.pricing.deliveryCharge;
+      }
+      Object.assign(order.pricing, delivery);
+      const discount = await this.couponsService.recalculateDiscount(
+        order.pricing.coupon,
+        {
+          itemsTotal: order.pricing.itemsTotal,
+          deliveryCharge: delivery.deliveryCharge,
+          items: order.items,
+        },
+      );
+      if (discount !== (order.pricing.discount || 0)) {
+        previousValues.discount = order.pricing.discount;
+      }
+      order.pricing.discount = discount;
+      const points = this.capPoints(
+        order,
+        order.pricing.itemsTotal + delivery.deliveryCharge - discount,
+      );
+      if (points.points !== (order.pricing.pointsRedeemed || 0)) {
+        previousValues.pointsRedeemed = order.pricing.pointsRedeemed;
+        previousValues.pointsDiscount = order.pricing.pointsDiscount;
+      }
+      order.pricing.pointsRedeemed = points.points;
+      order.pricing.pointsDiscount = points.discount;
+      order.pricing.grandTotal = this.orderPricingService.computeGrandTotal(
+        order.pricing,
+      );
+      this.paymentsService.refreshPaymentStatus(order);
+    }
+
+    const reschedulesPickup = !!(dto.pickupSlotId || dto.scheduledPickupTime);
+    if (changedFields.length === 0 && !reschedulesPickup && !dto.deliverySlotId) {
+      throw new BadRequestException("No changes provided");
+    }
+
+    // Reserve any new slots first; old ones are released only after saving
+    const newPickupSlot = await this.reservePickupSlot(dto);
+    let newDeliverySlot: TimeSlotDocument | null = null;
+
+    try {
+      if (reschedulesPickup) {
+        previousValues.scheduledPickupTime = before.scheduledPickupTime;
+        previousValues.pickupSlot = before.pickupSlot;
+        order.scheduledPickupTime = dto.scheduledPickupTime
+          ? new Date(dto.scheduledPickupTime)
+          : (newPickupSlot?.startsAt as Date);
+        order.pickupSlot = newPickupSlot?._id as Types.ObjectId;
+        changedFields.push("scheduledPickupTime");
+      }
+
+      if (dto.deliverySlotId) {
+        newDeliverySlot = await this.timeSlotsService.reserve(
+          dto.deliverySlotId,
+          SlotType.DELIVERY,
+        );
+        previousValues.deliverySlot = before.deliverySlot;
+        order.deliverySlot = newDeliverySlot._id as Types.ObjectId;
+        changedFields.push("deliverySlot");
+      }
+
+      // Re-check turnaround if either side moved
+      if (order.deliverySlot && (newPickupSlot || newDeliverySlot)) {
+        const pickupSlot = order.pickupSlot
+          ? newPickupSlot ||
+            (await this.timeSlotsService.getSlotById(order.pickupSlot.toString()))
+          : null;
+        const deliverySlot =
+          newDeliverySlot ||
+          (await this.timeSlotsService.getSlotById(
+            order.deliverySlot.toString(),
+          ));
+        this.assertDeliveryAfterPickup(
+          pickupSlot?.endsAt ?? new Date(),
+          deliverySlot,
+        );
+      }
+
+      order.revisions.push({
+        revisedAt: new Date(),
+        revisedBy: new Types.ObjectId(userId),
+        changedFields,
+        previousValues,
+        previousItemsTotal,
+        newItemsTotal: order.pricing.itemsTotal,
+        previousGrandTotal,
+        newGrandTotal: order.pricing.grandTotal,
+      });
+
+      const saved = await order.save();
+
+      if (reschedulesPickup) {
+        await this.timeSlotsService.release(before.pickupSlot);
+      }
+      await this.returnExcessPoints(saved);
+      if (newDeliverySlot) {
+        await this.timeSlotsService.release(before.deliverySlot);
+      }
+
+      this.realtimeService.publishOrderEvent(
+        saved,
+        RealtimeEventType.ORDER_UPDATED,
+        { changedFields },
+      );
+
+      return saved;
+    } catch (error) {
+      await Promise.all([
+        this.timeSlotsService.release(newPickupSlot?._id as Types.ObjectId),
+        this.timeSlotsService.release(newDeliverySlot?._id as Types.ObjectId),
+      ]);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel an order on behalf of its customer.
+   * Free while REQUESTED; a configurable fee applies once picked up.
+   */
+  async cancelOrder(
+    orderId: string,
+    userId: string,
+    dto: CancelOrderDto,
+  ): Promise<OrderDocument> {
+    const order = await this.orderModel.findById(orderId).exec();
+
+    if (!order) {
+      throw new NotFoundException("Order not found");
+    }
+
+    if (order.customer.toString() !== userId.toString()) {
+      throw new ForbiddenException("You can only cancel your own orders");
+    }
+
+    if (!CUSTOMER_CANCELLABLE_STATUSES.includes(order.status)) {
+      throw new BadRequestException(
+        `Order can no longer be cancelled (status: ${order.status})`,
+      );
+    }
+
+    // Free until the clothes have been collected
+    const fee =
+      order.status !== OrderStatus.PICKED_UP
+        ? 0
+        : Number(this.configService.get("ORDER_CANCELLATION_FEE", 50));
+    const now = new Date();
+
+    order.cancellation = {
+      reason: dto.reason,
+      note: dto.note || "",
+      statusAtCancellation: order.status,
+      fee,
+      cancelledBy: new Types.ObjectId(userId),
+      cancelledByRole: UserRole.CUSTOMER,
+      cancelledAt: now,
+    };
+    order.pricing.cancellationFee = fee;
+    // From here on the customer owes only the fee
+    order.pricing.grandTotal = this.orderPricingService.computeGrandTotal(
+      order.pricing,
+      true,
+    );
+    this.paymentsService.refreshPaymentStatus(order);
+    const releasedSlots = this.detachSlots(
+      order,
+      ORDER_STATUS_RULES[OrderStatus.CANCELLED].releasesSlots,
+    );
+
+    order.status = OrderStatus.CANCELLED;
+    order.statusHistory.push({
+      status: OrderStatus.CANCELLED,
+      timestamp: now,
+      note:
+        `Cancelled by customer` +
+        (fee > 0 ? ` (cancellation fee ${fee} BDT)` : "") +
+        (dto.note ? `: ${dto.note}` : ""),
+      reason: dto.reason,
+      updatedBy: new Types.ObjectId(userId),
+      releasedSlots: releasedSlots.length ? releasedSlots : undefined,
+    });
+
+    const saved = await order.save();
+    await Promise.all(
+      releasedSlots.map((slotId) => this.timeSlotsService.release(slotId)),
+    );
+    // The customer can use the coupon and points again on another order
+    await this.couponsService.release(saved._id as Types.ObjectId);
+    await this.loyaltyService.returnRedeemedPoints(
+      saved._id as Types.ObjectId,
+      "Points returned: order cancelled",
+    );
+    this.notifyCustomerOfStatus(saved);
+    this.publishStatusChange(saved);
+
+    return saved;
+  }
+
+  /**
+   * Record the items actually collected at pickup (rider or admin).
+   * The order is repriced from the catalog; if the count differs from
+   * what the customer declared they must accept it before laundry.
+   */
+  async verifyPickup(
+    orderId: string,
+    dto: VerifyPickupDto,
+    user: UserDocument,
+  ): Promise<OrderDocument> {
+    const order = await this.orderModel.findById(orderId).exec();
+
+    if (!order) {
+      throw new NotFoundException("Order not found");
+    }
+
+    const userId = user._id.toString();
+    const isDelivery = order.deliveryPerson?.toString() === userId;
+    const isAdmin = user.role === UserRole.ADMIN;
+    if (!isDelivery && !isAdmin) {
+      throw new ForbiddenException(
+        "Only the assigned delivery person or admin can verify pickup",
+      );
+    }
+
+    if (
+      order.status !== OrderStatus.REQUESTED &&
+      order.status !== OrderStatus.PICKED_UP
+    ) {
+      throw new BadRequestException(
+        `Pickup can only be verified before the order goes to laundry (status: ${order.status})`,
+      );
+    }
+
+    const before = order.toObject();
+    // Keep the customer's original list across recounts
+    const declaredItems =
+      order.pickupVerification?.declaredItems ?? before.items;
+    const declaredGrandTotal =
+      order.pickupVerification?.declaredGrandTotal ?? order.pricing.grandTotal;
+
+    const { items, itemsTotal } = await this.orderPricingService.priceItems(
+      dto.items,
+    );
+    // The clothes are already in hand, so the zone minimum no longer applies
+    const delivery = await this.orderPricingService.quoteDelivery(
+      order.pickupAddress,
+      order.deliveryAddress,
+      itemsTotal,
+      false,
+    );
+    const discount = await this.couponsService.recalculateDiscount(
+      order.pricing.coupon,
+      { itemsTotal, deliveryCharge: delivery.deliveryCharge, items },
+    );
+    const points = this.capPoints(
+      order,
+      itemsTotal + delivery.deliveryCharge - discount,
+    );
+    const grandTotal = this.orderPricingService.computeGrandTotal({
+      itemsTotal,
+      deliveryCharge: delivery.deliveryCharge,
+      discount,
+      pointsDiscount: points.discount,
+      redeliveryFee: order.pricing.redeliveryFee,
+    });
+    const itemsChanged = !this.isSameItems(before.items, items);
+    const matchesDeclared = this.isSameItems(declaredItems, items);
+    const retag = itemsChanged && order.status === OrderStatus.PICKED_UP;
+    if (retag) {
+      await this.garmentsService.assertRetaggable(orderId);
+    }
+
+    if (itemsChanged) {
+      order.revisions.push({
+        revisedAt: new Date(),
+        revisedBy: new Types.ObjectId(userId),
+        changedFields: ["items"],
+        previousValues: {
+          items: before.items,
+          deliveryCharge: order.pricing.deliveryCharge,
+          discount: order.pricing.discount,
+          pointsDiscount: order.pricing.pointsDiscount,
+        },
+        previousItemsTotal: order.pricing.itemsTotal,
+        newItemsTotal: itemsTotal,
+        previousGrandTotal: order.pricing.grandTotal,
+        newGrandTotal: grandTotal,
+      });
+      order.items = items;
+      order.pricing.itemsTotal = itemsTotal;
+      Object.assign(order.pricing, delivery);
+      order.pricing.discount = discount;
+      order.pricing.pointsRedeemed = points.points;
+      order.pricing.pointsDiscount = points.discount;
+      order.pricing.grandTotal = grandTotal;
+      this.paymentsService.refreshPaymentStatus(order);
+    }
+
+    order.pickupVerification = {
+      status: matchesDeclared
+        ? PickupVerificationStatus.ACCEPTED
+        : PickupVerificationStatus.PENDING,
+      declaredItems,
+      verifiedItems: items,
+      declaredGrandTotal,
+      verifiedGrandTotal: grandTotal,
+      note: dto.note,
+      verifiedBy: new Types.ObjectId(userId),
+      verifiedAt: new Date(),
+    };
+
+    const saved = await order.save();
+
+    await this.returnExcessPoints(saved);
+    // Tags already printed at pickup must follow the new list
+    if (retag) {
+      await this.garmentsService.retagOrder(saved, userId);
+    }
+    if (!matchesDeclared) {
+      this.notifyCustomerOfPickupCount(saved);
+    }
+    this.realtimeService.publishOrderEvent(
+      saved,
+      RealtimeEventType.ORDER_UPDATED,
+      {
+        changedFields: itemsChanged
+          ? ["items", "pickupVerification"]
+          : ["pickupVerification"],
+        pickupVerification: saved.pickupVerification!.status,
+      },
+    );
+
+    return saved;
+  }
+
+  /**
+   * Accept or reject the items counted at pickup (customer, or admin on
+   * the customer's behalf).
+   */
+  async respondToPickupVerification(
+    orderId: string,
+    dto: RespondPickupVerificationDto,
+    user: UserDocument,
+  ): Promise<OrderDocument> {
+    const order = await this.orderModel.findById(orderId).exec();
+
+    if (!order) {
+      throw new NotFoundException("Order not found");
+    }
+
+    const userId = user._id.toString();
+    const isCustomer = order.customer.toString() === userId;
+    const isAdmin = user.role === UserRole.ADMIN;
+    if (!isCustomer && !isAdmin) {
+      throw new ForbiddenException("You can only respond for your own orders");
+    }
+
+    const verification = order.pickupVerification;
+    if (verification?.status !== PickupVerificationStatus.PENDING) {
+      throw new BadRequestException(
+        "There is no pickup count waiting for your response",
+      );
+    }
+
+    verification.status = dto.accept
+      ? PickupVerificationStatus.ACCEPTED
+      : PickupVerificationStatus.REJECTED;
+    verification.respondedBy = new Types.ObjectId(userId);
+    verification.respondedAt = new Date();
+    verification.responseNote = dto.note;
+
+    const saved = await order.save();
+    this.realtimeService.publishOrderEvent(
+      saved,
+      RealtimeEventType.ORDER_UPDATED,
+      {
+        changedFields: ["pickupVerification"],
+        pickupVerification: verification.status,
+      },
+    );
+
+    return saved;
+  }
+
+  /**
+   * Log a failed delivery attempt (rider or admin).
+   * The order waits in delivery_failed for the customer to book a new
+   * slot; after DELIVERY_MAX_ATTEMPTS it is escalated to an admin.
+   */
+  async recordFailedDelivery(
+    orderId: string,
+    dto: FailedDeliveryDto,
+    user: UserDocument,
+  ): Promise<OrderDocument> {
+    const order = await this.orderModel.findById(orderId).exec();
+
+    if (!order) {
+      throw new NotFoundException("Order not found");
+    }
+
+    const userId = user._id.toString();
+    if (
+      user.role !== UserRole.ADMIN &&
+      order.deliveryPerson?.toString() !== userId
+    ) {
+      throw new ForbiddenException("This order is not assigned to you");
+    }
+
+    if (order.status !== OrderStatus.OUT_FOR_DELIVERY) {
+      throw new BadRequestException(
+        `Only orders out for delivery can fail delivery (status: ${order.status})`,
+      );
+    }
+
+    const now = new Date();
+    order.deliveryAttempts.push({
+      attemptedAt: now,
+      rider: order.deliveryPerson,
+      reason: dto.reason,
+      note: dto.note,
+      recordedBy: new Types.ObjectId(userId),
+    });
+    const failedAttempts = order.deliveryAttempts.length;
+    const maxAttempts = Number(
+      this.configService.get("DELIVERY_MAX_ATTEMPTS", 3),
+    );
+    const escalated = failedAttempts >= maxAttempts;
+    if (escalated) {
+      order.deliveryEscalatedAt = now;
+    }
+
+    const releasedSlots = this.detachSlots(
+      order,
+      ORDER_STATUS_RULES[OrderStatus.DELIVERY_FAILED].releasesSlots,
+    );
+    order.status = OrderStatus.DELIVERY_FAILED;
+    order.statusHistory.push({
+      status: OrderStatus.DELIVERY_FAILED,
+      timestamp: now,
+      note:
+        `Delivery attempt ${failedAttempts} failed` +
+        (escalated ? " (escalated to admin)" : "") +
+        (dto.note ? `: ${dto.note}` : ""),
+      reason: dto.reason,
+      updatedBy: new Types.ObjectId(userId),
+      releasedSlots: releasedSlots.length ? releasedSlots : undefined,
+    });
+
+    const saved = await order.save();
+    await Promise.all(
+      releasedSlots.map((slotId) => this.timeSlotsService.release(slotId)),
+    );
+    this.notifyCustomerOfFailedDelivery(saved);
+    this.publishStatusChange(saved);
+    if (escalated) {
+      this.realtimeService.publishOrderEvent(
+        saved,
+        RealtimeEventType.ORDER_ESCALATED,
+        { failedAttempts, reason: dto.reason },
+      );
+    }
+
+    return saved;
+  }
+
+  /**
+   * Book a new delivery slot after a failed attempt (customer).
+   * Adds REDELIVERY_FEE to the order total.
+   */
+  async rescheduleDelivery(
+    orderId: string,
+    userId: string,
+    dto: RescheduleDeliveryDto,
+  ): Promise<OrderDocument> {
+    const order = await this.orderModel.findById(orderId).exec();
+
+    if (!order) {
+      throw new NotFoundException("Order not found");
+    }
+
+    if (order.customer.toString() !== userId.toString()) {
+      throw new ForbiddenException("You can only reschedule your own orders");
+    }
+
+    if (order.status !== OrderStatus.DELIVERY_FAILED) {
+      throw new BadRequestException(
+        "Delivery can only be rescheduled after a failed attempt",
+      );
+    }
+    if (order.deliveryEscalatedAt) {
+      throw new BadRequestException(
+        "Our team will contact you to arrange this delivery",
+      );
+    }
+
+    const slot = await this.timeSlotsService.reserve(
+      dto.deliverySlotId,
+      SlotType.DELIVERY,
+    );
+
+    try {
+      const fee = Number(this.configService.get("REDELIVERY_FEE", 50));
+      order.deliverySlot = slot._id as Types.ObjectId;
+      order.pricing.redeliveryFee = (order.pricing.redeliveryFee || 0) + fee;
+      order.pricing.grandTotal = this.orderPricingService.computeGrandTotal(
+        order.pricing,
+      );
+      this.paymentsService.refreshPaymentStatus(order);
+
+      order.status = OrderStatus.READY_FOR_DELIVERY;
+      order.statusHistory.push({
+        status: OrderStatus.READY_FOR_DELIVERY,
+        timestamp: new Date(),
+        note:
+          "Re-delivery booked by customer" +
+          (fee > 0 ? ` (re-delivery fee ${fee} BDT)` : ""),
+        updatedBy: new Types.ObjectId(userId),
+      });
+
+      const saved = await order.save();
+      this.publishStatusChange(saved);
+
+      return saved;
+    } catch (error) {
+      await this.timeSlotsService.release(slot._id as Types.ObjectId);
+      throw error;
+    }
+  }
+
+  /**
+   * Force an order into any status, including rolling back (admin only).
+   * Side effects of the status being left are reversed where possible:
+   * released slots are re-booked, cancellation fees waived, coupon uses
+   * reclaimed, failed attempts and delivery confirmations undone, and
+   * cash collected at a reversed delivery voided along with the points
+   * it earned. Rider earnings follow automatically since they are
+   * derived from delivered orders.
+   */
+  async overrideStatus(
+    orderId: string,
+    dto: OverrideOrderStatusDto,
+    adminId: string,
+  ): Promise<OrderDocument> {
+    const order = await this.orderModel.findById(orderId).exec();
+
+    if (!order) {
+      throw new NotFoundException("Order not found");
+    }
+
+    const fromStatus = order.status;
+    if (dto.status === fromStatus) {
+      throw new BadRequestException(`Order is already ${fromStatus}`);
+    }
+
+    // Cash taken at the door goes with the delivery; checked before
+    // anything is changed since settled cash blocks the override
+    const voidableCash =
+      fromStatus === OrderStatus.DELIVERED
+        ? await this.paymentsService.getVoidableCash(order)
+        : [];
+
+    const now = new Date();
+    const effects: string[] = [];
+    const restoredSlots: Types.ObjectId[] = [];
+
+    // ----- Undo what the current status did -----
+    const leaving = [...order.statusHistory]
+      .reverse()
+      .find((entry) => entry.status === fromStatus);
+    if (dto.status !== OrderStatus.CANCELLED) {
+      for (const slotId of leaving?.releasedSlots || []) {
+        const slot = await this.timeSlotsService.restore(slotId);
+        if (!slot) {
+          effects.push(`slot ${slotId.toString()} is full and was not re-booked`);
+          continue;
+        }
+        restoredSlots.push(slot._id as Types.ObjectId);
+        if (slot.type === SlotType.PICKUP) {
+          order.pickupSlot = slot._id as Types.ObjectId;
+        } else {
+          order.deliverySlot = slot._id as Types.ObjectId;
+        }
+        effects.push(`${slot.type} slot re-booked`);
+      }
+    }
+
+    if (fromStatus === OrderStatus.CANCELLED) {
+      if (order.pricing.cancellationFee > 0) {
+        effects.push(
+          `cancellation fee of ${order.pricing.cancellationFee} BDT waived`,
+        );
+      }
+      order.set("cancellation", undefined);
+      order.pricing.cancellationFee = 0;
+    }
+
+    if (fromStatus === OrderStatus.DELIVERED && order.handoff?.verifiedAt) {
+      order.handoff.verifiedAt = undefined;
+      effects.push("delivery confirmation undone");
+    }
+    const cashToVoid = voidableCash.reduce((sum, p) => sum + p.amount, 0);
+    if (cashToVoid > 0) {
+      effects.push(`cash collection of ${cashToVoid} BDT voided`);
+    }
+
+    // Going back out means the failed attempt didn't count
+    if (
+      fromStatus === OrderStatus.DELIVERY_FAILED &&
+      dto.status === OrderStatus.OUT_FOR_DELIVERY &&
+      order.deliveryAttempts.length > 0
+    ) {
+      order.deliveryAttempts.pop();
+      const maxAttempts = Number(
+        this.configService.get("DELIVERY_MAX_ATTEMPTS", 3),
+      );
+      if (order.deliveryAttempts.length < maxAttempts) {
+        order.set("deliveryEscalatedAt", undefined);
+      }
+      effects.push("last failed attempt removed");
+    }
+
+    // ----- Apply what the target status does -----
+    const releasedSlots = this.detachSlots(
+      order,
+      ORDER_STATUS_RULES[dto.status].releasesSlots,
+    );
+
+    if (dto.status === OrderStatus.CANCELLED) {
+      order.cancellation = {
+        reason: CancellationReason.OTHER,
+        note: dto.justification,
+        statusAtCancellation: fromStatus,
+        fee: 0,
+        cancelledBy: new Types.ObjectId(adminId),
+        cancelledByRole: UserRole.ADMIN,
+        cancelledAt: now,
+      };
+    }
+
+    if (dto.status === OrderStatus.IN_LAUNDRY && !order.processingStage) {
+      order.processingStage = ProcessingStage.RECEIVED;
+    }
+
+    // Keep the code the customer already has when resuming the same trip
+    const issuesHandoffCode =
+      dto.status === OrderStatus.OUT_FOR_DELIVERY &&
+      !(
+        order.handoff &&
+        (fromStatus === OrderStatus.DELIVERED ||
+          fromStatus === OrderStatus.DELIVERY_FAILED)
+      );
+    if (issuesHandoffCode) {
+      order.handoff = {
+        code: randomInt(0, 10000).toString().padStart(4, "0"),
+        issuedAt: now,
+        failedAttempts: 0,
+      };
+    }
+
+    order.status = dto.status;
+    order.statusHistory.push({
+      status: dto.status,
+      timestamp: now,
+      note:
+        dto.justification + (effects.length ? ` (${effects.join("; ")})` : ""),
+      reason: "admin_override",
+      updatedBy: new Types.ObjectId(adminId),
+      isOverride: true,
+      previousStatus: fromStatus,
+      releasedSlots: releasedSlots.length ? releasedSlots : undefined,
+    });
+    // Cancelling leaves only the (waived) fee owed; restoring the full total
+    if (
+      dto.status === OrderStatus.CANCELLED ||
+      fromStatus === OrderStatus.CANCELLED
+    ) {
+      order.pricing.grandTotal = this.orderPricingService.computeGrandTotal(
+        order.pricing,
+        dto.status === OrderStatus.CANCELLED,
+      );
+      this.paymentsService.refreshPaymentStatus(order);
+    }
+
+    let saved: OrderDocument;
+    try {
+      saved = await order.save();
+    } catch (error) {
+      await Promise.all(
+        restoredSlots.map((slotId) => this.timeSlotsService.release(slotId)),
+      );
+      throw error;
+    }
+
+    await Promise.all(
+      releasedSlots.map((slotId) => this.timeSlotsService.release(slotId)),
+    );
+    if (fromStatus === OrderStatus.DELIVERED) {
+      await this.loyaltyService.reverseEarnedPoints(
+        saved._id as Types.ObjectId,
+      );
+    }
+    if (voidableCash.length > 0) {
+      await this.paymentsService.voidCashCollection(
+        saved,
+        voidableCash,
+        `Delivery reversed by admin: ${dto.justification}`,
+      );
+    }
+    if (saved.status === OrderStatus.CANCELLED) {
+      await this.couponsService.release(saved._id as Types.ObjectId);
+      await this.loyaltyService.returnRedeemedPoints(
+        saved._id as Types.ObjectId,
+        "Points returned: order cancelled",
+      );
+    } else if (fromStatus === OrderStatus.CANCELLED) {
+      await this.couponsService.reinstate(saved._id as Types.ObjectId);
+      await this.loyaltyService.reclaimReturnedPoints(
+        saved._id as Types.ObjectId,
+        saved.pricing.pointsRedeemed || 0,
+      );
+    }
+    if (saved.status === OrderStatus.DELIVERED) {
+      this.awardPoints(saved);
+    }
+    this.logger.log(
+      `Admin ${adminId} moved order ${saved._id.toString()} from ${fromStatus} to ${saved.status}`,
+    );
+
+    if (dto.notifyCustomer) {
+      this.notifyCustomerOfStatus(saved);
+    }
+    if (issuesHandoffCode) {
+      this.sendHandoffCode(saved);
+    }
+    this.publishStatusChange(saved);
+
+    return saved;
+  }
+
+  /**
+   * Assign delivery person to an order (admin only).
+   * Overrides any automatic assignment and is recorded in the dispatch log.
+   */
+  async assignDeliveryPerson(
+    orderId: string,
+    dto: AssignDeliveryDto,
+    adminId?: string,
+  ): Promise<OrderDocument> {
+    const order = await this.orderModel.findById(orderId).exec();
+
+    if (!order) {
+      throw new NotFoundException("Order not found");
+    }
+
+    // Verify delivery person exists and has delivery role
+    const deliveryPerson = await this.usersService.findById(
+      dto.deliveryPersonId,
+    );
+    if (!deliveryPerson) {
+      throw new NotFoundException("Delivery person not found");
+    }
+
+    if (deliveryPerson.role !== UserRole.DELIVERY) {
+      throw new BadRequestException("User is not a delivery person");
+    }
+
+    // Refuse unavailable riders unless the admin explicitly forces it
+    const availability = await this.ridersService.getRiderAvailability(
+      dto.deliveryPersonId,
+      this.dispatchService.getAssignmentTime(order),
+    );
+    if (!availability.available && !dto.force) {
+      throw new BadRequestException(
+        `${deliveryPerson.fullName} is unavailable (${availability.reasons.join(", ")}). ` +
+          "Set force to assign anyway.",
+      );
+    }
+
+    const previousDeliveryPerson = order.deliveryPerson;
+    order.deliveryPerson = new Types.ObjectId(dto.deliveryPersonId);
+    const saved = await order.save();
+
+    await this.usersService.recordAssignment(dto.deliveryPersonId);
+
+    this.realtimeService.publishOrderEvent(
+      saved,
+      RealtimeEventType.ORDER_ASSIGNED,
+      {
+        deliveryPerson: {
+          id: deliveryPerson._id.toString(),
+          fullName: deliveryPerson.fullName,
+          phoneNumber: deliveryPerson.phoneNumber,
+        },
+      },
+    );
+    if (
+      previousDeliveryPerson &&
+      !previousDeliveryPerson.equals(saved.deliveryPerson)
+    ) {
+      this.realtimeService.publishToUsers(
+        [previousDeliveryPerson],
+        RealtimeEventType.ORDER_UNASSIGNED,
+        { orderId: saved._id.toString() },
+      );
+    }
+    await this.dispatchService.logManualAssignment(
+      saved,
+      deliveryPerson,
+      adminId,
+      previousDeliveryPerson,
+      dto.note,
+    );
+
+    return saved;
+  }
 
   /**
    * Get unassigned orders (for admin to assign delivery).
@@ -432,6 +2120,21 @@ export class OrdersService {
       .exec();
   }
 
+  /**
+   * Get orders escalated after repeated failed deliveries (admin).
+   */
+  async getEscalatedOrders(): Promise<OrderDocument[]> {
+    return this.orderModel
+      .find({
+        status: OrderStatus.DELIVERY_FAILED,
+        deliveryEscalatedAt: { $exists: true },
+      })
+      .sort({ deliveryEscalatedAt: 1 }) // Oldest first
+      .populate("customer", "fullName phoneNumber")
+      .populate("deliveryPerson", "fullName phoneNumber")
+      .exec();
+  }
+
   /**
    * Get order statistics (admin dashboard).
    */
@@ -441,13 +2144,20 @@ export class OrdersService {
     inProgressOrders: number;
     completedOrders: number;
     cancelledOrders: number;
+    onHoldOrders: number;
+    failedPickups: number;
+    failedDeliveries: number;
     todayOrders: number;
     todayRevenue: number;
+    cancellationReasons: Record<string, number>;
+    cancellationFeesTotal: number;
+    refundedOrders: number;
+    refundsTotal: number;
   }> {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
 
-    const [stats, todayStats] = await Promise.all([
+    const [stats, todayStats, cancellationStats, refundStats] = await Promise.all([
       this.orderModel.aggregate([
         {
           $group: {
@@ -466,7 +2176,36 @@ export class OrdersService {
           $group: {
             _id: null,
             count: { $sum: 1 },
-            revenue: { $sum: "$pricing.grandTotal" },
+            // Net of money returned to customers
+            revenue: {
+              $sum: {
+                $subtract: [
+                  "$pricing.grandTotal",
+                  { $ifNull: ["$pricing.refundedAmount", 0] },
+                ],
+              },
+            },
+          },
+        },
+      ]),
+      // Cancellations grouped by reason (admin cancellations have none)
+      this.orderModel.aggregate([
+        { $match: { status: OrderStatus.CANCELLED } },
+        {
+          $group: {
+            _id: { $ifNull: ["$cancellation.reason", "unspecified"] },
+            count: { $sum: 1 },
+            fees: { $sum: { $ifNull: ["$cancellation.fee", 0] } },
+          },
+        },
+      ]),
+      this.orderModel.aggregate([
+        { $match: { "pricing.refundedAmount": { $gt: 0 } } },
+        {
+          $group: {
+            _id: null,
+            count: { $sum: 1 },
+            total: { $sum: "$pricing.refundedAmount" },
           },
         },
       ]),
@@ -480,21 +2219,40 @@ export class OrdersService {
       {} as Record<string, number>,
     );
 
+    const cancellationReasons: Record<string, number> = {};
+    let cancellationFeesTotal = 0;
+    for (const item of cancellationStats) {
+      cancellationReasons[item._id as string] = item.count as number;
+      cancellationFeesTotal += item.fees as number;
+    }
+
     const totalOrders: number = (
       Object.values(statusCounts) as number[]
     ).reduce((a, b) => a + b, 0);
 
     return {
       totalOrders,
-      pendingOrders: statusCounts[OrderStatus.REQUESTED] || 0,
+      pendingOrders:
+        (statusCounts[OrderStatus.REQUESTED] || 0) +
+        (statusCounts[OrderStatus.PICKUP_FAILED] || 0),
       inProgressOrders:
         (statusCounts[OrderStatus.PICKED_UP] || 0) +
         (statusCounts[OrderStatus.IN_LAUNDRY] || 0) +
-        (statusCounts[OrderStatus.OUT_FOR_DELIVERY] || 0),
+        (statusCounts[OrderStatus.ON_HOLD] || 0) +
+        (statusCounts[OrderStatus.READY_FOR_DELIVERY] || 0) +
+        (statusCounts[OrderStatus.OUT_FOR_DELIVERY] || 0) +
+        (statusCounts[OrderStatus.DELIVERY_FAILED] || 0),
       completedOrders: statusCounts[OrderStatus.DELIVERED] || 0,
       cancelledOrders: statusCounts[OrderStatus.CANCELLED] || 0,
+      onHoldOrders: statusCounts[OrderStatus.ON_HOLD] || 0,
+      failedPickups: statusCounts[OrderStatus.PICKUP_FAILED] || 0,
+      failedDeliveries: statusCounts[OrderStatus.DELIVERY_FAILED] || 0,
       todayOrders: todayStats[0]?.count || 0,
       todayRevenue: todayStats[0]?.revenue || 0,
+      cancellationReasons,
+      cancellationFeesTotal,
+      refundedOrders: refundStats[0]?.count || 0,
+      refundsTotal: refundStats[0]?.total || 0,
     };
   }
 }
@@ -0,0 +1,93 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { DispatchStrategy } from '../enums/dispatch-strategy.enum';
+import { DispatchMode } from '../enums/dispatch-mode.enum';
+
+export type DispatchLogDocument = DispatchLog & Document;
+
+/**
+ * How one rider was evaluated for an order.
+ */
+@Schema({ _id: false })
+export class DispatchCandidate {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  rider: Types.ObjectId;
+
+  @Prop({ type: String })
+  riderName: string;
+
+  @Prop({ type: Boolean, required: true })
+  eligible: boolean;
+
+  @Prop({ type: Number, required: true })
+  activeOrders: number;
+
+  // Distance from the rider's last known position to the pickup, if known
+  @Prop({ type: Number })
+  distanceKm?: number;
+
+  @Prop({ type: Date })
+  lastAssignedAt?: Date;
+
+  // 1 = picked; unset for ineligible riders
+  @Prop({ type: Number })
+  rank?: number;
+
+  // Why the rider was excluded or how they were ranked
+  @Prop({ type: [String], default: [] })
+  reasons: string[];
+}
+
+/**
+ * Dispatch log schema.
+ * One entry per assignment attempt, automatic or manual, so admins can
+ * see why a rider was (or wasn't) picked.
+ */
+@Schema({
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class DispatchLog {
+  @Prop({ type: Types.ObjectId, ref: 'Order', required: true })
+  order: Types.ObjectId;
+
+  @Prop({ type: String, enum: DispatchMode, required: true })
+  mode: DispatchMode;
+
+  @Prop({ type: String, enum: DispatchStrategy })
+  strategy?: DispatchStrategy;
+
+  // Unset when no rider could be assigned
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  assignedTo?: Types.ObjectId;
+
+  // Admin who made a manual assignment
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  assignedBy?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  previousDeliveryPerson?: Types.ObjectId;
+
+  @Prop({ type: String, required: true })
+  summary: string;
+
+  @Prop({ type: [DispatchCandidate], default: [] })
+  candidates: DispatchCandidate[];
+
+  // Timestamp added by Mongoose
+  createdAt: Date;
+}
+
+export const DispatchLogSchema = SchemaFactory.createForClass(DispatchLog);
+
+// Indexes
+DispatchLogSchema.index({ order: 1, createdAt: -1 });
+DispatchLogSchema.index({ assignedTo: 1, createdAt: -1 });
@@ -0,0 +1,77 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { GarmentStatus } from '../enums/garment-status.enum';
+import { ServiceType } from '../../catalog/enums/service-type.enum';
+
+export type GarmentDocument = Garment & Document;
+
+/**
+ * One scan of a garment's tag.
+ */
+@Schema({ _id: false })
+export class GarmentScan {
+  @Prop({ type: String, enum: GarmentStatus, required: true })
+  status: GarmentStatus;
+
+  @Prop({ type: Date, required: true, default: Date.now })
+  scannedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  scannedBy: Types.ObjectId;
+
+  @Prop({ type: String })
+  note?: string;
+}
+
+/**
+ * A single tagged garment of an order.
+ * One is created per unit of each order item when the order is picked up.
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class Garment {
+  @Prop({ type: Types.ObjectId, ref: 'Order', required: true })
+  order: Types.ObjectId;
+
+  // Printed on the tag and encoded in its barcode
+  @Prop({ type: String, required: true, unique: true, uppercase: true })
+  tagCode: string;
+
+  // Position of the source line in order.items
+  @Prop({ type: Number, required: true, min: 0 })
+  itemIndex: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'ClothingItem', required: true })
+  clothingItem: Types.ObjectId;
+
+  @Prop({ type: String, required: true })
+  clothingItemName: string;
+
+  @Prop({ type: [String], enum: ServiceType, default: [] })
+  services: ServiceType[];
+
+  @Prop({ type: String, enum: GarmentStatus, default: GarmentStatus.TAGGED })
+  status: GarmentStatus;
+
+  @Prop({ type: [GarmentScan], default: [] })
+  scans: GarmentScan[];
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const GarmentSchema = SchemaFactory.createForClass(Garment);
+
+GarmentSchema.index({ order: 1, itemIndex: 1 });
+GarmentSchema.index({ status: 1, updatedAt: -1 });
@@ -1,8 +1,16 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
-import { OrderStatus } from '../enums/order-status.enum';
+import { OrderStatus, LEGACY_ORDER_STATUS } from '../enums/order-status.enum';
+import { ProcessingStage } from '../enums/processing-stage.enum';
+import { CancellationReason } from '../enums/cancellation-reason.enum';
+import { UserRole } from '../../users/enums/user-role.enum';
 import { ServiceType } from '../../catalog/enums/service-type.enum';
 import { ClothingCategory } from '../../catalog/enums/clothing-category.enum';
+import { DeliveryChargeRule } from '../../zones/enums/delivery-charge-rule.enum';
+import { PickupVerificationStatus } from '../enums/pickup-verification-status.enum';
+import { DeliveryFailureReason } from '../enums/delivery-failure-reason.enum';
+import { PaymentMethod } from '../../payments/enums/payment-method.enum';
+import { OrderPaymentStatus } from '../../payments/enums/order-payment-status.enum';
 
 export type OrderDocument = Order & Document;
 
@@ -54,6 +62,77 @@ export class OrderPricing {
 
   @Prop({ type: Number, required: true, min: 0 })
   grandTotal: number;
+
+  // Charged when the customer cancels after pickup
+  @Prop({ type: Number, min: 0, default: 0 })
+  cancellationFee: number;
+
+  // Charged for each delivery rebooked after a failed attempt
+  @Prop({ type: Number, min: 0, default: 0 })
+  redeliveryFee: number;
+
+  // Coupon discount, already taken off grandTotal
+  @Prop({ type: Number, min: 0, default: 0 })
+  discount: number;
+
+  @Prop({ type: String })
+  couponCode?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Coupon' })
+  coupon?: Types.ObjectId;
+
+  // Loyalty points spent on the order and the BDT they took off grandTotal
+  @Prop({ type: Number, min: 0, default: 0 })
+  pointsRedeemed: number;
+
+  @Prop({ type: Number, min: 0, default: 0 })
+  pointsDiscount: number;
+
+  // Paid money returned to the customer (see the refunds collection)
+  @Prop({ type: Number, min: 0, default: 0 })
+  refundedAmount: number;
+
+  // Zone and rule that produced the delivery charge
+  @Prop({ type: Types.ObjectId, ref: 'ServiceZone' })
+  deliveryZone?: Types.ObjectId;
+
+  @Prop({ type: String })
+  deliveryZoneName?: string;
+
+  @Prop({ type: String, enum: DeliveryChargeRule })
+  deliveryChargeRule?: DeliveryChargeRule;
+}
+
+/**
+ * Payment summary sub-document.
+ * Individual transactions live in the payments collection.
+ */
+@Schema({ _id: false })
+export class OrderPayment {
+  @Prop({ type: String, enum: PaymentMethod, default: PaymentMethod.CASH_ON_DELIVERY })
+  method: PaymentMethod;
+
+  @Prop({ type: String, enum: OrderPaymentStatus, default: OrderPaymentStatus.UNPAID })
+  status: OrderPaymentStatus;
+
+  @Prop({ type: Number, min: 0, default: 0 })
+  paidAmount: number;
+
+  // When the order was first fully paid
+  @Prop({ type: Date })
+  paidAt?: Date;
+}
+
+/**
+ * Map coordinates sub-document.
+ */
+@Schema({ _id: false })
+export class GeoLocation {
+  @Prop({ type: Number, required: true })
+  lat: number;
+
+  @Prop({ type: Number, required: true })
+  lng: number;
 }
 
 /**
@@ -65,10 +144,57 @@ export class OrderAddress {
   fullAddress: string;
 
   @Prop({ type: String })
-  landmark: string;
+  landmark?: string;
+
+  @Prop({ type: String })
+  contactPhone?: string;
+
+  @Prop({ type: String })
+  area?: string;
+
+  @Prop({ type: GeoLocation })
+  location?: GeoLocation;
+
+  // Set when copied from the customer's address book
+  @Prop({ type: String })
+  label?: string;
+
+  @Prop({ type: Types.ObjectId })
+  savedAddress?: Types.ObjectId;
+}
+
+/**
+ * Stored file attached to an order (e.g. proof photo).
+ */
+@Schema({ _id: false })
+export class OrderAttachment {
+  @Prop({ type: String, required: true })
+  key: string;
+
+  @Prop({ type: String, required: true })
+  contentType: string;
+
+  @Prop({ type: Number, required: true, min: 0 })
+  size: number;
+}
+
+/**
+ * Evidence captured by the rider at pickup or delivery.
+ */
+@Schema({ _id: false })
+export class StatusProof {
+  @Prop({ type: [OrderAttachment], default: [] })
+  photos: OrderAttachment[];
+
+  @Prop({ type: OrderAttachment })
+  signature?: OrderAttachment;
 
   @Prop({ type: String })
-  contactPhone: string;
+  recipientName?: string;
+
+  // Whether the customer's handoff code was entered for this update
+  @Prop({ type: Boolean })
+  handoffCodeVerified?: boolean;
 }
 
 /**
@@ -89,8 +215,189 @@ export class StatusHistoryEntry {
   @Prop({ type: String })
   note: string;
 
+  // Machine-readable reason code (e.g. cancellation reason)
+  @Prop({ type: String })
+  reason?: string;
+
   @Prop({ type: Types.ObjectId, ref: 'User' })
   updatedBy: Types.ObjectId;
+
+  @Prop({ type: StatusProof })
+  proof?: StatusProof;
+
+  // Set on laundry stage updates (status stays in_laundry)
+  @Prop({ type: String, enum: ProcessingStage })
+  processingStage?: ProcessingStage;
+
+  // Slots given back by this change, so an admin override can restore them
+  @Prop({ type: [Types.ObjectId], ref: 'TimeSlot', default: undefined })
+  releasedSlots?: Types.ObjectId[];
+
+  // Admin override outside the normal transitions; note holds the justification
+  @Prop({ type: Boolean })
+  isOverride?: boolean;
+
+  @Prop({ type: String, enum: OrderStatus })
+  previousStatus?: OrderStatus;
+}
+
+/**
+ * One-time delivery handoff code sub-document.
+ * The customer gives the code to the rider on receiving the order.
+ */
+@Schema({ _id: false })
+export class OrderHandoff {
+  @Prop({ type: String, required: true })
+  code: string;
+
+  @Prop({ type: Date, required: true })
+  issuedAt: Date;
+
+  @Prop({ type: Number, default: 0 })
+  failedAttempts: number;
+
+  @Prop({ type: Date })
+  verifiedAt?: Date;
+}
+
+/**
+ * Cancellation details sub-document.
+ */
+@Schema({ _id: false })
+export class OrderCancellation {
+  @Prop({
+    type: String,
+    enum: CancellationReason,
+    required: true,
+  })
+  reason: CancellationReason;
+
+  @Prop({ type: String })
+  note: string;
+
+  @Prop({
+    type: String,
+    enum: OrderStatus,
+    required: true,
+  })
+  statusAtCancellation: OrderStatus;
+
+  @Prop({ type: Number, min: 0, default: 0 })
+  fee: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  cancelledBy: Types.ObjectId;
+
+  @Prop({
+    type: String,
+    enum: UserRole,
+    required: true,
+  })
+  cancelledByRole: UserRole;
+
+  @Prop({ type: Date, required: true })
+  cancelledAt: Date;
+}
+
+/**
+ * Order revision sub-document.
+ * Records an edit (by the customer, or a pickup recount): which fields
+ * changed, their previous values and how the totals moved.
+ */
+@Schema({ _id: false })
+export class OrderRevision {
+  @Prop({ type: Date, required: true, default: Date.now })
+  revisedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  revisedBy: Types.ObjectId;
+
+  @Prop({ type: [String], required: true })
+  changedFields: string[];
+
+  @Prop({ type: Object })
+  previousValues: Record<string, unknown>;
+
+  @Prop({ type: Number, required: true })
+  previousItemsTotal: number;
+
+  @Prop({ type: Number, required: true })
+  newItemsTotal: number;
+
+  @Prop({ type: Number, required: true })
+  previousGrandTotal: number;
+
+  @Prop({ type: Number, required: true })
+  newGrandTotal: number;
+}
+
+/**
+ * Pickup verification sub-document.
+ * Items the rider counted at the door against what the customer declared.
+ */
+@Schema({ _id: false })
+export class PickupVerification {
+  @Prop({
+    type: String,
+    enum: PickupVerificationStatus,
+    required: true,
+  })
+  status: PickupVerificationStatus;
+
+  @Prop({ type: [OrderItem], required: true })
+  declaredItems: OrderItem[];
+
+  @Prop({ type: [OrderItem], required: true })
+  verifiedItems: OrderItem[];
+
+  @Prop({ type: Number, required: true, min: 0 })
+  declaredGrandTotal: number;
+
+  @Prop({ type: Number, required: true, min: 0 })
+  verifiedGrandTotal: number;
+
+  @Prop({ type: String })
+  note?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  verifiedBy: Types.ObjectId;
+
+  @Prop({ type: Date, required: true })
+  verifiedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  respondedBy?: Types.ObjectId;
+
+  @Prop({ type: Date })
+  respondedAt?: Date;
+
+  @Prop({ type: String })
+  responseNote?: string;
+}
+
+/**
+ * Failed delivery attempt sub-document.
+ */
+@Schema({ _id: false })
+export class DeliveryAttempt {
+  @Prop({ type: Date, required: true })
+  attemptedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  rider: Types.ObjectId;
+
+  @Prop({
+    type: String,
+    enum: DeliveryFailureReason,
+    required: true,
+  })
+  reason: DeliveryFailureReason;
+
+  @Prop({ type: String })
+  note?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  recordedBy: Types.ObjectId;
 }
 
 /**
@@ -104,6 +411,17 @@ export class StatusHistoryEntry {
       ret.id = ret._id;
       delete ret._id;
       delete ret.__v;
+      // `status` keeps to the original statuses for current app versions
+      ret.detailedStatus = ret.status;
+      ret.status = LEGACY_ORDER_STATUS[ret.status as OrderStatus];
+      for (const entry of (ret.statusHistory as Record<string, unknown>[]) ?? []) {
+        entry.detailedStatus = entry.status;
+        entry.status = LEGACY_ORDER_STATUS[entry.status as OrderStatus];
+      }
+      // The handoff code is only shown to the customer via its own endpoint
+      if (ret.handoff) {
+        delete (ret.handoff as Record<string, unknown>).code;
+      }
       return ret;
     },
   },
@@ -121,6 +439,10 @@ export class Order {
   @Prop({ type: OrderPricing, required: true })
   pricing: OrderPricing;
 
+  // Unset on orders placed before payments were tracked (cash on delivery)
+  @Prop({ type: OrderPayment })
+  payment?: OrderPayment;
+
   @Prop({ type: OrderAddress, required: true })
   pickupAddress: OrderAddress;
 
@@ -137,15 +459,49 @@ export class Order {
   @Prop({ type: [StatusHistoryEntry], default: [] })
   statusHistory: StatusHistoryEntry[];
 
+  @Prop({ type: String, enum: ProcessingStage })
+  processingStage?: ProcessingStage;
+
   @Prop({ type: String })
   notes: string;
 
   @Prop({ type: Date })
   scheduledPickupTime: Date;
 
+  @Prop({ type: Types.ObjectId, ref: 'TimeSlot' })
+  pickupSlot: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'TimeSlot' })
+  deliverySlot: Types.ObjectId;
+
   @Prop({ type: Date })
   estimatedDeliveryTime: Date;
 
+  @Prop({ type: OrderCancellation })
+  cancellation: OrderCancellation;
+
+  @Prop({ type: [OrderRevision], default: [] })
+  revisions: OrderRevision[];
+
+  @Prop({ type: OrderHandoff })
+  handoff?: OrderHandoff;
+
+  @Prop({ type: PickupVerification })
+  pickupVerification?: PickupVerification;
+
+  @Prop({ type: [DeliveryAttempt], default: [] })
+  deliveryAttempts: DeliveryAttempt[];
+
+  // Set once failed attempts reach DELIVERY_MAX_ATTEMPTS; only admins
+  // can move the order on from there
+  @Prop({ type: Date })
+  deliveryEscalatedAt?: Date;
+
+  // Set at pickup: the garments must be tagged (and packed) before the
+  // order goes out. Orders picked up before tagging existed have none
+  @Prop({ type: Boolean, default: false })
+  tagsRequired: boolean;
+
   // Timestamps added by Mongoose
   createdAt: Date;
   updatedAt: Date;
@@ -157,3 +513,5 @@ export const OrderSchema = SchemaFactory.createForClass(Order);
 OrderSchema.index({ customer: 1, createdAt: -1 });
 OrderSchema.index({ deliveryPerson: 1, status: 1 });
 OrderSchema.index({ status: 1, createdAt: -1 });
+OrderSchema.index({ 'cancellation.reason': 1 }, { sparse: true });
+OrderSchema.index({ deliveryEscalatedAt: -1 }, { sparse: true });
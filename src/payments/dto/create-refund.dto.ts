@@ -0,0 +1,51 @@
+import { IsEnum, IsMongoId, IsNumber, IsOptional, IsString, Min, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RefundReason } from '../enums/refund-reason.enum';
+import { RefundChannel } from '../enums/refund-channel.enum';
+
+/**
+ * DTO for refunding part or all of what a customer paid.
+ */
+export class CreateRefundDto {
+  @ApiPropertyOptional({
+    description: 'Amount to refund in BDT (defaults to everything still refundable)',
+    example: 300,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  amount?: number;
+
+  @ApiProperty({
+    description: 'Why the money is returned',
+    enum: RefundReason,
+    example: RefundReason.GARMENT_DAMAGED,
+  })
+  @IsEnum(RefundReason)
+  reason: RefundReason;
+
+  @ApiProperty({
+    description: 'Refund through the payment gateway or hand over cash',
+    enum: RefundChannel,
+    example: RefundChannel.GATEWAY,
+  })
+  @IsEnum(RefundChannel)
+  channel: RefundChannel;
+
+  @ApiPropertyOptional({
+    description: 'Online payment to refund (gateway refunds; defaults to the latest that covers the amount)',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsOptional()
+  @IsMongoId()
+  paymentId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Details for the customer and finance team',
+    example: 'Panjabi collar burnt during ironing',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
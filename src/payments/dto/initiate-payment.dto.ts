@@ -0,0 +1,16 @@
+import { IsIn } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { PaymentMethod, ONLINE_PAYMENT_METHODS } from '../enums/payment-method.enum';
+
+/**
+ * DTO for starting an online payment for an order.
+ */
+export class InitiatePaymentDto {
+  @ApiProperty({
+    description: 'Online payment method',
+    enum: ONLINE_PAYMENT_METHODS,
+    example: PaymentMethod.BKASH,
+  })
+  @IsIn(ONLINE_PAYMENT_METHODS)
+  method: PaymentMethod;
+}
@@ -0,0 +1,24 @@
+import { IsNumber, IsOptional, IsString, Min, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for recording a rider handing over collected cash.
+ */
+export class SettleCashDto {
+  @ApiProperty({
+    description: 'Cash actually received from the rider, in BDT',
+    example: 2450,
+  })
+  @IsNumber()
+  @Min(0)
+  receivedAmount: number;
+
+  @ApiPropertyOptional({
+    description: 'Note about the handover (e.g. reason for a shortfall)',
+    example: 'Short 50 BDT, rider gave change from own pocket',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
@@ -0,0 +1,14 @@
+import { IsBoolean } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for completing a payment on the simulator's "gateway page".
+ */
+export class SimulatePaymentDto {
+  @ApiProperty({
+    description: 'Whether the simulated payment goes through',
+    example: true,
+  })
+  @IsBoolean()
+  succeed: boolean;
+}
@@ -0,0 +1,12 @@
+/**
+ * Overall payment status of an order.
+ */
+export enum OrderPaymentStatus {
+  UNPAID = 'unpaid',
+  PENDING = 'pending', // Online payment started, gateway has not confirmed yet
+  PARTIALLY_PAID = 'partially_paid', // e.g. items added at pickup after prepaying
+  PAID = 'paid',
+  FAILED = 'failed', // Last online attempt failed; customer can retry or pay cash
+  PARTIALLY_REFUNDED = 'partially_refunded',
+  REFUNDED = 'refunded', // Everything paid has been returned
+}
@@ -0,0 +1,24 @@
+/**
+ * How a customer pays for an order.
+ */
+export enum PaymentMethod {
+  CASH_ON_DELIVERY = 'cash_on_delivery',
+  BKASH = 'bkash',
+  NAGAD = 'nagad',
+  CARD = 'card',
+}
+
+/**
+ * Methods paid through the payment gateway before delivery.
+ */
+export const ONLINE_PAYMENT_METHODS = [PaymentMethod.BKASH, PaymentMethod.NAGAD, PaymentMethod.CARD];
+
+/**
+ * Customer-facing payment method labels (English and Bangla).
+ */
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, { en: string; bn: string }> = {
+  [PaymentMethod.CASH_ON_DELIVERY]: { en: 'cash on delivery', bn: 'ক্যাশ অন ডেলিভারি' },
+  [PaymentMethod.BKASH]: { en: 'bKash', bn: 'বিকাশ' },
+  [PaymentMethod.NAGAD]: { en: 'Nagad', bn: 'নগদ' },
+  [PaymentMethod.CARD]: { en: 'card', bn: 'কার্ড' },
+};
@@ -0,0 +1,9 @@
+/**
+ * Status of a single payment transaction.
+ */
+export enum PaymentStatus {
+  INITIATED = 'initiated', // Sent to the gateway, waiting for its callback
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  VOIDED = 'voided', // Cash recorded at a delivery that was later reversed
+}
@@ -0,0 +1,7 @@
+/**
+ * How a refund reaches the customer.
+ */
+export enum RefundChannel {
+  GATEWAY = 'gateway', // Back to the bKash/Nagad account or card that paid
+  CASH = 'cash', // Handed over in cash and recorded manually
+}
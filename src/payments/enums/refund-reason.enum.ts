@@ -0,0 +1,11 @@
+/**
+ * Why money was returned to a customer.
+ */
+export enum RefundReason {
+  GARMENT_DAMAGED = 'garment_damaged',
+  GARMENT_LOST = 'garment_lost',
+  ORDER_CANCELLED = 'order_cancelled', // Cancelled after the customer prepaid
+  SERVICE_SKIPPED = 'service_skipped', // e.g. paid for ironing that wasn't done
+  OVERCHARGED = 'overcharged',
+  OTHER = 'other',
+}
@@ -0,0 +1,83 @@
+import { PaymentMethod } from '../enums/payment-method.enum';
+import { PaymentStatus } from '../enums/payment-status.enum';
+
+/**
+ * Injection token for the active payment gateway.
+ */
+export const PAYMENT_GATEWAY = 'PAYMENT_GATEWAY';
+
+/**
+ * Payment to start at the gateway.
+ */
+export interface PaymentInitiateRequest {
+  paymentId: string;
+  orderRef: string;
+  method: PaymentMethod;
+  amount: number;
+}
+
+/**
+ * Where to send the customer to complete a payment.
+ */
+export interface PaymentInitiateResult {
+  reference: string;
+  redirectUrl: string;
+}
+
+/**
+ * Outcome parsed from a verified gateway callback.
+ */
+export interface PaymentCallbackResult {
+  reference: string;
+  status: PaymentStatus.SUCCEEDED | PaymentStatus.FAILED;
+  amount: number;
+  failureReason?: string;
+}
+
+/**
+ * Money to return against a completed payment.
+ */
+export interface PaymentRefundRequest {
+  refundId: string;
+  paymentReference: string;
+  amount: number;
+}
+
+/**
+ * Refund accepted by the gateway.
+ */
+export interface PaymentRefundResult {
+  reference: string;
+}
+
+/**
+ * Contract every payment gateway integration implements.
+ * `initiate` and `refund` throw if the gateway refuses.
+ */
+export interface PaymentGateway {
+  readonly name: string;
+
+  /**
+   * Whether payments are simulated (no real money moves).
+   */
+  readonly isLocal: boolean;
+
+  /**
+   * Register a payment with the gateway.
+   */
+  initiate(request: PaymentInitiateRequest): Promise<PaymentInitiateResult>;
+
+  /**
+   * Return part or all of a completed payment to the customer.
+   */
+  refund(request: PaymentRefundRequest): Promise<PaymentRefundResult>;
+
+  /**
+   * Check a callback's signature and parse it, or return null if it is
+   * not authentic or not recognised.
+   */
+  verifyCallback(
+    payload: Record<string, unknown>,
+    signature: string | undefined,
+  ): PaymentCallbackResult | null;
+}
@@ -0,0 +1,96 @@
+import { Logger } from '@nestjs/common';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  PaymentGateway,
+  PaymentInitiateRequest,
+  PaymentInitiateResult,
+  PaymentCallbackResult,
+  PaymentRefundRequest,
+  PaymentRefundResult,
+} from './payment-gateway.interface';
+import { PaymentStatus } from '../enums/payment-status.enum';
+
+/**
+ * Local stand-in gateway for development and tests.
+ * No money moves: the "gateway page" is POST payments/simulator/:reference,
+ * which produces the same signed callback a real gateway would send, and
+ * is only open with PAYMENT_SIMULATOR_ENABLED=true.
+ * Callbacks are signed with HMAC-SHA256 over "reference|status|amount";
+ * without a secret every callback is rejected.
+ */
+export class SimulatorPaymentGateway implements PaymentGateway {
+  readonly name = 'simulator';
+  readonly isLocal = true;
+  private readonly logger = new Logger(SimulatorPaymentGateway.name);
+
+  constructor(private readonly options: { secret?: string; baseUrl: string }) {}
+
+  async initiate(request: PaymentInitiateRequest): Promise<PaymentInitiateResult> {
+    const reference = `SIM-${randomUUID()}`;
+    this.logger.log(
+      `Simulated ${request.method} payment of ${request.amount} BDT for order ${request.orderRef}: ${reference}`,
+    );
+    return {
+      reference,
+      redirectUrl: `${this.options.baseUrl}/payments/simulator/${reference}`,
+    };
+  }
+
+  async refund(request: PaymentRefundRequest): Promise<PaymentRefundResult> {
+    const reference = `SIMR-${randomUUID()}`;
+    this.logger.log(
+      `Simulated refund of ${request.amount} BDT against ${request.paymentReference}: ${reference}`,
+    );
+    return { reference };
+  }
+
+  verifyCallback(
+    payload: Record<string, unknown>,
+    signature: string | undefined,
+  ): PaymentCallbackResult | null {
+    const { reference, status, amount, failureReason } = payload;
+    if (
+      !this.options.secret ||
+      typeof reference !== 'string' ||
+      typeof amount !== 'number' ||
+      (status !== PaymentStatus.SUCCEEDED && status !== PaymentStatus.FAILED)
+    ) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(reference, status, amount));
+    const given = Buffer.from(signature || '');
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      return null;
+    }
+
+    return {
+      reference,
+      status,
+      amount,
+      failureReason: typeof failureReason === 'string' ? failureReason : undefined,
+    };
+  }
+
+  /**
+   * Build the signed callback the gateway would send for a payment.
+   */
+  simulate(
+    reference: string,
+    amount: number,
+    succeed: boolean,
+  ): { payload: Record<string, unknown>; signature: string } {
+    const status = succeed ? PaymentStatus.SUCCEEDED : PaymentStatus.FAILED;
+    const payload: Record<string, unknown> = { reference, status, amount };
+    if (!succeed) {
+      payload.failureReason = 'Declined by simulator';
+    }
+    return { payload, signature: this.sign(reference, status, amount) };
+  }
+
+  private sign(reference: string, status: string, amount: number): string {
+    return createHmac('sha256', this.options.secret as string)
+      .update(`${reference}|${status}|${amount}`)
+      .digest('hex');
+  }
+}
@@ -0,0 +1,230 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Headers,
+  UseGuards,
+  HttpCode,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { PaymentsService } from './payments.service';
+import { InitiatePaymentDto } from './dto/initiate-payment.dto';
+import { SimulatePaymentDto } from './dto/simulate-payment.dto';
+import { SettleCashDto } from './dto/settle-cash.dto';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { RefundReason } from './enums/refund-reason.enum';
+import { RefundChannel } from './enums/refund-channel.enum';
+import { JwtAuthGuard, RolesGuard, CurrentUser, Roles, Public } from '../common';
+import { UserRole } from '../users/enums/user-role.enum';
+import { UserDocument } from '../users/schemas/user.schema';
+
+/**
+ * Payments controller - online payments, gateway callbacks,
+ * cash-on-delivery reconciliation and refunds.
+ */
+@ApiTags('Payments')
+@ApiBearerAuth('JWT-auth')
+@Controller('payments')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class PaymentsController {
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  // ========== Customer Endpoints ==========
+
+  /**
+   * Start an online payment for an order (customer).
+   */
+  @Post('orders/:orderId/initiate')
+  @Roles(UserRole.CUSTOMER)
+  @ApiOperation({ summary: 'Pay for an order with bKash, Nagad or card (Customer only)' })
+  @ApiResponse({ status: 201, description: 'Payment started; send the customer to redirectUrl' })
+  @ApiResponse({
+    status: 400,
+    description: 'Order is cancelled or already paid, or online payments are off',
+  })
+  async initiatePayment(
+    @Param('orderId') orderId: string,
+    @CurrentUser('_id') userId: string,
+    @Body() dto: InitiatePaymentDto,
+  ) {
+    return this.paymentsService.initiatePayment(orderId, userId, dto);
+  }
+
+  /**
+   * Complete a simulated payment. Only with the local simulator gateway
+   * and PAYMENT_SIMULATOR_ENABLED=true.
+   */
+  @Post('simulator/:reference')
+  @Roles(UserRole.CUSTOMER)
+  @ApiOperation({ summary: 'Complete a simulated payment (Customer, simulator only)' })
+  @ApiResponse({ status: 201, description: 'Payment succeeded or failed as requested' })
+  @ApiResponse({ status: 404, description: 'Simulator disabled or payment not found' })
+  async simulatePayment(
+    @Param('reference') reference: string,
+    @CurrentUser('_id') userId: string,
+    @Body() dto: SimulatePaymentDto,
+  ) {
+    return this.paymentsService.simulatePayment(reference, userId, dto);
+  }
+
+  /**
+   * Payment status and transactions of an order.
+   */
+  @Get('orders/:orderId')
+  @ApiOperation({ summary: 'Get payment status of an order' })
+  @ApiResponse({ status: 200, description: 'Payment summary and transactions' })
+  @ApiResponse({ status: 403, description: 'Access denied to this order' })
+  async getOrderPayments(
+    @Param('orderId') orderId: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.paymentsService.getOrderPayments(orderId, user);
+  }
+
+  // ========== Gateway Callbacks ==========
+
+  /**
+   * Payment result callback from the gateway.
+   * Authenticated by the gateway's signature rather than a JWT.
+   */
+  @Post('webhooks/:gateway')
+  @Public()
+  @HttpCode(200)
+  @ApiHeader({ name: 'x-payment-signature', description: 'Gateway signature of the payload' })
+  @ApiOperation({ summary: 'Payment gateway callback webhook' })
+  @ApiResponse({ status: 200, description: 'Callback processed' })
+  @ApiResponse({ status: 401, description: 'Invalid signature' })
+  async gatewayCallback(
+    @Param('gateway') gateway: string,
+    @Headers('x-payment-signature') signature: string | undefined,
+    @Body() payload: Record<string, unknown>,
+  ) {
+    const processed = await this.paymentsService.handleGatewayCallback(
+      gateway,
+      payload,
+      signature,
+    );
+    return { processed };
+  }
+
+  // ========== Delivery Endpoints ==========
+
+  /**
+   * Cash collected and not yet handed over (rider).
+   */
+  @Get('cash/me')
+  @Roles(UserRole.DELIVERY)
+  @ApiOperation({ summary: 'Get my unsettled cash (Delivery only)' })
+  @ApiResponse({ status: 200, description: 'Outstanding amount and payments' })
+  async getMyUnsettledCash(@CurrentUser('_id') riderId: string) {
+    return this.paymentsService.getUnsettledCash(riderId);
+  }
+
+  // ========== Admin Endpoints ==========
+
+  /**
+   * Unsettled cash per rider (admin).
+   */
+  @Get('cash/riders')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get unsettled cash per rider (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Outstanding cash per rider, largest first' })
+  async getOutstandingCash() {
+    return this.paymentsService.getOutstandingCashByRider();
+  }
+
+  /**
+   * Unsettled cash of one rider (admin).
+   */
+  @Get('cash/riders/:riderId')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get unsettled cash of a rider (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Outstanding amount and payments' })
+  @ApiResponse({ status: 404, description: 'Invalid rider ID' })
+  async getRiderUnsettledCash(@Param('riderId') riderId: string) {
+    return this.paymentsService.getUnsettledCash(riderId);
+  }
+
+  /**
+   * Record a rider handing over their cash (admin).
+   */
+  @Post('cash/riders/:riderId/settle')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Settle rider cash (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Settlement recorded' })
+  @ApiResponse({ status: 400, description: 'Rider has no unsettled cash' })
+  @ApiResponse({ status: 404, description: 'Invalid rider ID' })
+  async settleRiderCash(
+    @Param('riderId') riderId: string,
+    @Body() dto: SettleCashDto,
+    @CurrentUser('_id') adminId: string,
+  ) {
+    return this.paymentsService.settleRiderCash(riderId, dto, adminId);
+  }
+
+  /**
+   * Past cash settlements (admin).
+   */
+  @Get('cash/settlements')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get cash settlements (Admin only)' })
+  @ApiQuery({ name: 'riderId', required: false })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Paginated settlements' })
+  @ApiResponse({ status: 400, description: 'riderId is not a valid ID' })
+  async getSettlements(
+    @Query('riderId') riderId?: string,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.paymentsService.getSettlements(riderId, page, limit);
+  }
+
+  /**
+   * Refund part or all of an order's payments (admin).
+   */
+  @Post('orders/:orderId/refunds')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Refund an order (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Refund issued' })
+  @ApiResponse({ status: 400, description: 'Amount exceeds what is refundable, or gateway refused' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async refundOrder(
+    @Param('orderId') orderId: string,
+    @Body() dto: CreateRefundDto,
+    @CurrentUser('_id') adminId: string,
+  ) {
+    return this.paymentsService.refundOrder(orderId, dto, adminId);
+  }
+
+  /**
+   * List refunds (admin).
+   */
+  @Get('refunds')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get refunds (Admin only)' })
+  @ApiQuery({ name: 'reason', required: false, enum: RefundReason })
+  @ApiQuery({ name: 'channel', required: false, enum: RefundChannel })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Paginated refunds' })
+  async getRefunds(
+    @Query('reason') reason?: RefundReason,
+    @Query('channel') channel?: RefundChannel,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.paymentsService.getRefunds({ reason, channel }, page, limit);
+  }
+}
@@ -0,0 +1,70 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { PaymentsService } from './payments.service';
+import { PaymentsController } from './payments.controller';
+import { Payment, PaymentSchema } from './schemas/payment.schema';
+import { CashSettlement, CashSettlementSchema } from './schemas/cash-settlement.schema';
+import { Refund, RefundSchema } from './schemas/refund.schema';
+import { Order, OrderSchema } from '../orders/schemas/order.schema';
+import { PAYMENT_GATEWAY, PaymentGateway } from './gateways/payment-gateway.interface';
+import { SimulatorPaymentGateway } from './gateways/simulator-payment.gateway';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { LoyaltyModule } from '../loyalty/loyalty.module';
+
+/**
+ * Pick the payment gateway from PAYMENT_GATEWAY (simulator).
+ * Callbacks cannot be verified without PAYMENT_WEBHOOK_SECRET, so the app
+ * refuses to start without it once online payments are open. Cash-only
+ * deployments may leave it unset; callbacks are then rejected.
+ */
+function createPaymentGateway(configService: ConfigService): PaymentGateway {
+  const gateway = configService.get<string>('PAYMENT_GATEWAY', 'simulator');
+  const port = configService.get<number>('PORT', 3000);
+  const apiPrefix = configService.get<string>('API_PREFIX', 'api');
+  const apiVersion = configService.get<string>('API_VERSION', 'v1');
+
+  switch (gateway) {
+    case 'simulator':
+      return new SimulatorPaymentGateway({
+        secret:
+          configService.get<string>('PAYMENT_SIMULATOR_ENABLED') === 'true'
+            ? configService.getOrThrow<string>('PAYMENT_WEBHOOK_SECRET')
+            : configService.get<string>('PAYMENT_WEBHOOK_SECRET'),
+        baseUrl: configService.get<string>(
+          'PAYMENT_SIMULATOR_BASE_URL',
+          `http://localhost:${port}/${apiPrefix}/${apiVersion}`,
+        ),
+      });
+    default:
+      throw new Error(`Unknown PAYMENT_GATEWAY "${gateway}"`);
+  }
+}
+
+/**
+ * Payments module - pluggable payment gateway, cash on delivery,
+ * rider cash settlement and refunds.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Payment.name, schema: PaymentSchema },
+      { name: CashSettlement.name, schema: CashSettlementSchema },
+      { name: Refund.name, schema: RefundSchema },
+      { name: Order.name, schema: OrderSchema },
+    ]),
+    RealtimeModule, // For live payment updates
+    LoyaltyModule, // For clawing back points on refunds
+  ],
+  controllers: [PaymentsController],
+  providers: [
+    PaymentsService,
+    {
+      provide: PAYMENT_GATEWAY,
+      useFactory: createPaymentGateway,
+      inject: [ConfigService],
+    },
+  ],
+  exports: [PaymentsService], // Export for use in Orders module
+})
+export class PaymentsModule {}
@@ -0,0 +1,952 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { Payment, PaymentDocument } from './schemas/payment.schema';
+import { Refund, RefundDocument } from './schemas/refund.schema';
+import { CashSettlement, CashSettlementDocument } from './schemas/cash-settlement.schema';
+import { InitiatePaymentDto } from './dto/initiate-payment.dto';
+import { SimulatePaymentDto } from './dto/simulate-payment.dto';
+import { SettleCashDto } from './dto/settle-cash.dto';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { PaymentMethod } from './enums/payment-method.enum';
+import { PaymentStatus } from './enums/payment-status.enum';
+import { OrderPaymentStatus } from './enums/order-payment-status.enum';
+import { RefundChannel } from './enums/refund-channel.enum';
+import { RefundReason } from './enums/refund-reason.enum';
+import {
+  PAYMENT_GATEWAY,
+  PaymentGateway,
+  PaymentCallbackResult,
+} from './gateways/payment-gateway.interface';
+import { SimulatorPaymentGateway } from './gateways/simulator-payment.gateway';
+import { Order, OrderDocument, OrderPayment } from '../orders/schemas/order.schema';
+import { OrderStatus } from '../orders/enums/order-status.enum';
+import { RealtimeService } from '../realtime/realtime.service';
+import { LoyaltyService } from '../loyalty/loyalty.service';
+import { RealtimeEventType } from '../realtime/enums/realtime-event-type.enum';
+import { UserRole } from '../users/enums/user-role.enum';
+import { UserDocument } from '../users/schemas/user.schema';
+
+/**
+ * Gateway name recorded on cash collected by riders.
+ */
+const CASH_GATEWAY = 'cash';
+
+/**
+ * Payment overview of an order.
+ */
+export interface OrderPaymentSummary {
+  payment: OrderPayment;
+  grandTotal: number;
+  amountDue: number;
+  refundedAmount: number;
+  transactions: PaymentDocument[];
+  refunds: RefundDocument[];
+}
+
+/**
+ * Cash a rider is holding that has not been handed over yet.
+ */
+export interface RiderCashBalance {
+  rider: { _id: Types.ObjectId; fullName: string; phoneNumber: string };
+  outstandingAmount: number;
+  payments: number;
+}
+
+/**
+ * Payments service - online payments through the gateway, cash collected
+ * at delivery, and riders handing that cash over.
+ */
+@Injectable()
+export class PaymentsService {
+  private readonly logger = new Logger(PaymentsService.name);
+
+  constructor(
+    @InjectModel(Payment.name) private paymentModel: Model<PaymentDocument>,
+    @InjectModel(CashSettlement.name) private settlementModel: Model<CashSettlementDocument>,
+    @InjectModel(Refund.name) private refundModel: Model<RefundDocument>,
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    @Inject(PAYMENT_GATEWAY) private gateway: PaymentGateway,
+    private realtimeService: RealtimeService,
+    private loyaltyService: LoyaltyService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Whether customers may complete payments on the simulator page.
+   * Requires an explicit opt-in and a local (no money moves) gateway.
+   */
+  private isSimulatorEnabled(): boolean {
+    return (
+      this.gateway.isLocal &&
+      this.configService.get<string>('PAYMENT_SIMULATOR_ENABLED') === 'true'
+    );
+  }
+
+  // ========== Order balance ==========
+
+  /**
+   * Amount the customer still owes on an order; for a cancelled order
+   * the grand total is its cancellation fee.
+   */
+  getAmountDue(order: OrderDocument): number {
+    return Math.max(0, order.pricing.grandTotal - (order.payment?.paidAmount ?? 0));
+  }
+
+  /**
+   * Payment summary of an order, with the default for orders placed
+   * before payments were tracked.
+   */
+  private getOrderPayment(order: OrderDocument): OrderPayment {
+    return (
+      order.payment ?? {
+        method: PaymentMethod.CASH_ON_DELIVERY,
+        status: OrderPaymentStatus.UNPAID,
+        paidAmount: 0,
+      }
+    );
+  }
+
+  /**
+   * Status of an order that has received some money.
+   * Refunds take precedence over whether the total is covered.
+   */
+  private derivePaymentStatus(order: OrderDocument, paidAmount: number): OrderPaymentStatus {
+    const refundedAmount = order.pricing.refundedAmount || 0;
+    if (refundedAmount > 0) {
+      return refundedAmount >= paidAmount
+        ? OrderPaymentStatus.REFUNDED
+        : OrderPaymentStatus.PARTIALLY_REFUNDED;
+    }
+    return paidAmount >= order.pricing.grandTotal
+      ? OrderPaymentStatus.PAID
+      : OrderPaymentStatus.PARTIALLY_PAID;
+  }
+
+  /**
+   * Add a successful payment to the order's payment summary.
+   * The amount is added atomically so concurrent payments can't overwrite
+   * each other; the status is only written if no other payment landed in
+   * between (that one writes its own). Returns the updated order.
+   */
+  private async applyPayment(
+    orderId: Types.ObjectId,
+    method: PaymentMethod,
+    amount: number,
+  ): Promise<OrderDocument | null> {
+    const order = await this.orderModel
+      .findOneAndUpdate(
+        { _id: orderId },
+        { $inc: { 'payment.paidAmount': amount }, $set: { 'payment.method': method } },
+        { new: true },
+      )
+      .exec();
+    if (!order) {
+      return null;
+    }
+
+    const paidAmount = order.payment!.paidAmount;
+    const status = this.derivePaymentStatus(order, paidAmount);
+    const paidAt =
+      order.payment!.paidAt ?? (paidAmount >= order.pricing.grandTotal ? new Date() : undefined);
+    await this.orderModel
+      .updateOne(
+        { _id: orderId, 'payment.paidAmount': paidAmount },
+        { $set: { 'payment.status': status, 'payment.paidAt': paidAt } },
+      )
+      .exec();
+    order.payment = { method, status, paidAmount, paidAt };
+    return order;
+  }
+
+  /**
+   * Recompute a part- or fully-paid order's status after its total changed
+   * (e.g. items added at pickup). The caller saves the order.
+   */
+  refreshPaymentStatus(order: OrderDocument): void {
+    if (!order.payment?.paidAmount || order.payment.status === OrderPaymentStatus.PENDING) {
+      return;
+    }
+    order.payment.status = this.derivePaymentStatus(order, order.payment.paidAmount);
+  }
+
+  private publishPaymentUpdate(order: OrderDocument): void {
+    const payment = this.getOrderPayment(order);
+    this.realtimeService.publishOrderEvent(order, RealtimeEventType.ORDER_PAYMENT, {
+      method: payment.method,
+      paymentStatus: payment.status,
+      paidAmount: payment.paidAmount,
+      amountDue: this.getAmountDue(order),
+    });
+  }
+
+  // ========== Online payments ==========
+
+  /**
+   * Start an online payment for the amount still due (customer).
+   * Any earlier attempt still waiting on the gateway is abandoned.
+   */
+  async initiatePayment(
+    orderId: string,
+    userId: string,
+    dto: InitiatePaymentDto,
+  ): Promise<{ payment: PaymentDocument; redirectUrl: string }> {
+    const order = await this.orderModel.findById(orderId).exec();
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+    if (order.customer.toString() !== userId) {
+      throw new ForbiddenException('You can only pay for your own orders');
+    }
+    // A cancelled order can still be paid for its cancellation fee
+    const amount = this.getAmountDue(order);
+    if (amount <= 0) {
+      throw new BadRequestException(
+        order.status === OrderStatus.CANCELLED ? 'Order is cancelled' : 'Order is already paid',
+      );
+    }
+    // A local gateway can only be paid through the simulator page
+    if (this.gateway.isLocal && !this.isSimulatorEnabled()) {
+      throw new BadRequestException('Online payments are not available');
+    }
+
+    await this.paymentModel.updateMany(
+      { order: order._id, status: PaymentStatus.INITIATED },
+      { $set: { status: PaymentStatus.FAILED, failureReason: 'Superseded by a new attempt' } },
+    );
+
+    const payment = new this.paymentModel({
+      order: order._id,
+      customer: order.customer,
+      method: dto.method,
+      amount,
+      status: PaymentStatus.INITIATED,
+      gateway: this.gateway.name,
+    });
+    const result = await this.gateway.initiate({
+      paymentId: payment._id.toString(),
+      orderRef: '#' + order._id.toString().slice(-6).toUpperCase(),
+      method: dto.method,
+      amount,
+    });
+    payment.gatewayReference = result.reference;
+    await payment.save();
+
+    // Only the method and status change; paidAmount may be moving under
+    // a concurrent callback
+    const current = this.getOrderPayment(order);
+    await this.orderModel
+      .updateOne(
+        { _id: order._id },
+        { $set: { 'payment.method': dto.method, 'payment.status': OrderPaymentStatus.PENDING } },
+      )
+      .exec();
+    order.payment = { ...current, method: dto.method, status: OrderPaymentStatus.PENDING };
+    this.publishPaymentUpdate(order);
+
+    return { payment, redirectUrl: result.redirectUrl };
+  }
+
+  /**
+   * Handle a payment gateway callback.
+   * Returns false if the callback is for another gateway or an unknown payment.
+   */
+  async handleGatewayCallback(
+    gatewayName: string,
+    payload: Record<string, unknown>,
+    signature: string | undefined,
+  ): Promise<boolean> {
+    if (gatewayName !== this.gateway.name) {
+      return false;
+    }
+
+    const result = this.gateway.verifyCallback(payload, signature);
+    if (!result) {
+      throw new UnauthorizedException('Invalid payment callback signature');
+    }
+
+    const payment = await this.paymentModel
+      .findOne({ gateway: this.gateway.name, gatewayReference: result.reference })
+      .exec();
+    if (!payment) {
+      return false;
+    }
+
+    await this.completePayment(payment, result);
+    return true;
+  }
+
+  /**
+   * Record the gateway's verdict on a payment and update the order.
+   */
+  private async completePayment(
+    payment: PaymentDocument,
+    result: PaymentCallbackResult,
+  ): Promise<void> {
+    // Gateways retry callbacks; a successful payment never changes again.
+    // A success after we gave up on an attempt still means money moved.
+    if (
+      payment.status === PaymentStatus.SUCCEEDED ||
+      (payment.status === PaymentStatus.FAILED && result.status === PaymentStatus.FAILED)
+    ) {
+      return;
+    }
+
+    const update: Record<string, unknown> = {
+      status: result.status,
+      completedAt: new Date(),
+    };
+    const unset: Record<string, 1> = {};
+    if (result.status === PaymentStatus.SUCCEEDED) {
+      if (result.amount !== payment.amount) {
+        this.logger.warn(
+          `Gateway confirmed ${result.amount} BDT for payment ${payment._id.toString()}, expected ${payment.amount}`,
+        );
+        update.amount = result.amount;
+      }
+      unset.failureReason = 1;
+    } else {
+      update.failureReason = result.failureReason || 'Payment failed';
+    }
+
+    // Claim the transition from the status we read, so a duplicate callback
+    // arriving at the same time is applied only once
+    const claimed = await this.paymentModel
+      .findOneAndUpdate(
+        { _id: payment._id, status: payment.status },
+        { $set: update, $unset: unset },
+        { new: true },
+      )
+      .exec();
+    if (!claimed) {
+      return;
+    }
+
+    if (claimed.status === PaymentStatus.SUCCEEDED) {
+      const order = await this.applyPayment(claimed.order, claimed.method, claimed.amount);
+      if (!order) {
+        this.logger.warn(`Payment ${claimed._id.toString()} belongs to a missing order`);
+        return;
+      }
+      this.publishPaymentUpdate(order);
+      return;
+    }
+
+    const order = await this.orderModel.findById(claimed.order).exec();
+    if (!order) {
+      this.logger.warn(`Payment ${claimed._id.toString()} belongs to a missing order`);
+      return;
+    }
+    if (order.payment?.status === OrderPaymentStatus.PENDING) {
+      const paidAmount = order.payment.paidAmount;
+      const status =
+        paidAmount > 0
+          ? this.derivePaymentStatus(order, paidAmount)
+          : OrderPaymentStatus.FAILED;
+      // Leave it alone if a payment landed meanwhile
+      await this.orderModel
+        .updateOne(
+          {
+            _id: order._id,
+            'payment.status': OrderPaymentStatus.PENDING,
+            'payment.paidAmount': paidAmount,
+          },
+          { $set: { 'payment.status': status } },
+        )
+        .exec();
+      order.payment.status = status;
+    }
+    this.publishPaymentUpdate(order);
+  }
+
+  /**
+   * Complete a payment on the simulator's "gateway page" (customer).
+   * Goes through the same signed callback path as a real gateway.
+   */
+  async simulatePayment(
+    reference: string,
+    userId: string,
+    dto: SimulatePaymentDto,
+  ): Promise<PaymentDocument> {
+    if (!this.isSimulatorEnabled() || !(this.gateway instanceof SimulatorPaymentGateway)) {
+      throw new NotFoundException('Payment simulator is not enabled');
+    }
+
+    const payment = await this.paymentModel
+      .findOne({ gateway: this.gateway.name, gatewayReference: reference })
+      .exec();
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+    if (payment.customer.toString() !== userId) {
+      throw new ForbiddenException('You can only complete your own payments');
+    }
+    if (payment.status !== PaymentStatus.INITIATED) {
+      throw new BadRequestException(`Payment is already ${payment.status}`);
+    }
+
+    const { payload, signature } = this.gateway.simulate(reference, payment.amount, dto.succeed);
+    await this.handleGatewayCallback(this.gateway.name, payload, signature);
+
+    return (await this.paymentModel.findById(payment._id).exec()) as PaymentDocument;
+  }
+
+  /**
+   * Payment status and transactions of an order.
+   * Same access rules as viewing the order.
+   */
+  async getOrderPayments(orderId: string, user: UserDocument): Promise<OrderPaymentSummary> {
+    const order = await this.orderModel.findById(orderId).exec();
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const userId = user._id.toString();
+    const isCustomer = order.customer.toString() === userId;
+    const isDelivery = order.deliveryPerson?.toString() === userId;
+    if (!isCustomer && !isDelivery && user.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Access denied to this order');
+    }
+
+    const [transactions, refunds] = await Promise.all([
+      this.paymentModel.find({ order: order._id }).sort({ createdAt: -1 }).exec(),
+      this.refundModel.find({ order: order._id }).sort({ createdAt: -1 }).exec(),
+    ]);
+
+    return {
+      payment: this.getOrderPayment(order),
+      grandTotal: order.pricing.grandTotal,
+      amountDue: this.getAmountDue(order),
+      refundedAmount: order.pricing.refundedAmount || 0,
+      transactions,
+      refunds,
+    };
+  }
+
+  // ========== Cash on delivery ==========
+
+  /**
+   * Check the cash a rider reports at delivery against what is still due.
+   * Collecting less than due needs a note explaining why.
+   */
+  assertCashCollectable(order: OrderDocument, amount: number, note?: string): void {
+    const due = this.getAmountDue(order);
+    if (amount > due) {
+      throw new BadRequestException(
+        due === 0
+          ? 'Order is already paid; there is no cash to collect'
+          : `Cash collected (${amount} BDT) is more than the ${due} BDT due`,
+      );
+    }
+    if (amount < due && !note?.trim()) {
+      throw new BadRequestException(
+        `A note is required when collecting less than the ${due} BDT due`,
+      );
+    }
+  }
+
+  /**
+   * Record cash taken at the door and add it to the order's payments.
+   * Call after assertCashCollectable; the order's payment summary is updated.
+   */
+  async recordCashCollection(
+    order: OrderDocument,
+    collectedBy: string,
+    amount: number,
+  ): Promise<PaymentDocument | null> {
+    if (amount <= 0) {
+      return null;
+    }
+
+    const payment = await this.paymentModel.create({
+      order: order._id,
+      customer: order.customer,
+      method: PaymentMethod.CASH_ON_DELIVERY,
+      amount,
+      status: PaymentStatus.SUCCEEDED,
+      gateway: CASH_GATEWAY,
+      completedAt: new Date(),
+      collectedBy: new Types.ObjectId(collectedBy),
+    });
+
+    const updated = await this.applyPayment(
+      order._id as Types.ObjectId,
+      PaymentMethod.CASH_ON_DELIVERY,
+      amount,
+    );
+    if (updated) {
+      order.payment = updated.payment;
+      this.publishPaymentUpdate(updated);
+    }
+
+    return payment;
+  }
+
+  /**
+   * Cash recorded for an order's delivery, before the delivery is reversed.
+   * Fails if the rider has already handed any of it over, or if refunds
+   * would then exceed what is left paid; refund the customer first.
+   */
+  async getVoidableCash(order: OrderDocument): Promise<PaymentDocument[]> {
+    const payments = await this.paymentModel
+      .find({ order: order._id, gateway: CASH_GATEWAY, status: PaymentStatus.SUCCEEDED })
+      .exec();
+    if (payments.some((payment) => payment.settlement)) {
+      throw new BadRequestException(
+        'Cash from this delivery has already been settled; refund it before reversing the delivery',
+      );
+    }
+
+    const cash = payments.reduce((sum, payment) => sum + payment.amount, 0);
+    const paidAmount = order.payment?.paidAmount ?? 0;
+    if (cash > 0 && paidAmount - cash < (order.pricing.refundedAmount || 0)) {
+      throw new BadRequestException(
+        'Part of the cash from this delivery has been refunded; it cannot be voided',
+      );
+    }
+    return payments;
+  }
+
+  /**
+   * Void cash recorded at a delivery that has been reversed and take it
+   * off the order's paid amount. Returns the amount voided.
+   */
+  async voidCashCollection(
+    order: OrderDocument,
+    payments: PaymentDocument[],
+    reason: string,
+  ): Promise<number> {
+    let voided = 0;
+    for (const payment of payments) {
+      const claimed = await this.paymentModel
+        .findOneAndUpdate(
+          {
+            _id: payment._id,
+            status: PaymentStatus.SUCCEEDED,
+            settlement: { $exists: false },
+          },
+          { $set: { status: PaymentStatus.VOIDED, failureReason: reason } },
+        )
+        .exec();
+      if (claimed) {
+        voided += claimed.amount;
+      }
+    }
+    if (voided === 0) {
+      return 0;
+    }
+
+    const updated = await this.orderModel
+      .findOneAndUpdate(
+        { _id: order._id },
+        { $inc: { 'payment.paidAmount': -voided } },
+        { new: true },
+      )
+      .exec();
+    if (!updated?.payment) {
+      return voided;
+    }
+
+    const paidAmount = updated.payment.paidAmount;
+    const status =
+      paidAmount > 0 ? this.derivePaymentStatus(updated, paidAmount) : OrderPaymentStatus.UNPAID;
+    const paidAt = paidAmount >= updated.pricing.grandTotal ? updated.payment.paidAt : undefined;
+    await this.orderModel
+      .updateOne(
+        { _id: order._id, 'payment.paidAmount': paidAmount },
+        { $set: { 'payment.status': status, 'payment.paidAt': paidAt } },
+      )
+      .exec();
+    order.payment = { ...updated.payment, status, paidAt };
+    this.publishPaymentUpdate(order);
+    return voided;
+  }
+
+  /**
+   * Cash a rider has collected but not handed over yet.
+   */
+  async getUnsettledCash(
+    riderId: string,
+  ): Promise<{ outstandingAmount: number; payments: PaymentDocument[] }> {
+    if (!Types.ObjectId.isValid(riderId)) {
+      throw new NotFoundException('Rider not found');
+    }
+    const payments = await this.paymentModel
+      .find({
+        gateway: CASH_GATEWAY,
+        status: PaymentStatus.SUCCEEDED,
+        collectedBy: new Types.ObjectId(riderId),
+        settlement: { $exists: false },
+      })
+      .sort({ completedAt: 1 })
+      .populate('order', 'status pricing.grandTotal')
+      .exec();
+
+    const outstandingAmount = payments.reduce((sum, payment) => sum + payment.amount, 0);
+    return { outstandingAmount, payments };
+  }
+
+  /**
+   * Unsettled cash per rider, largest first (admin).
+   */
+  async getOutstandingCashByRider(): Promise<RiderCashBalance[]> {
+    return this.paymentModel.aggregate<RiderCashBalance>([
+      {
+        $match: {
+          gateway: CASH_GATEWAY,
+          status: PaymentStatus.SUCCEEDED,
+          settlement: { $exists: false },
+        },
+      },
+      {
+        $group: {
+          _id: '$collectedBy',
+          outstandingAmount: { $sum: '$amount' },
+          payments: { $sum: 1 },
+        },
+      },
+      { $sort: { outstandingAmount: -1 } },
+      {
+        $lookup: {
+          from: 'users',
+          localField: '_id',
+          foreignField: '_id',
+          pipeline: [{ $project: { fullName: 1, phoneNumber: 1 } }],
+          as: 'rider',
+        },
+      },
+      { $unwind: { path: '$rider', preserveNullAndEmptyArrays: true } },
+      { $project: { _id: 0, rider: 1, outstandingAmount: 1, payments: 1 } },
+    ]);
+  }
+
+  /**
+   * Record a rider handing over all the cash they hold (admin).
+   * The received amount is compared with what the payments add up to.
+   */
+  async settleRiderCash(
+    riderId: string,
+    dto: SettleCashDto,
+    adminId: string,
+  ): Promise<CashSettlementDocument> {
+    // Claim the cash first so a concurrent settlement (or a void) can't
+    // count the same payments, then total what was actually claimed
+    if (!Types.ObjectId.isValid(riderId)) {
+      throw new NotFoundException('Rider not found');
+    }
+    const rider = new Types.ObjectId(riderId);
+    const settlementId = new Types.ObjectId();
+    await this.paymentModel
+      .updateMany(
+        {
+          gateway: CASH_GATEWAY,
+          status: PaymentStatus.SUCCEEDED,
+          collectedBy: rider,
+          settlement: { $exists: false },
+        },
+        { $set: { settlement: settlementId } },
+      )
+      .exec();
+    const payments = await this.paymentModel.find({ settlement: settlementId }).exec();
+    if (payments.length === 0) {
+      throw new BadRequestException('Rider has no unsettled cash');
+    }
+
+    const expectedAmount = payments.reduce((sum, payment) => sum + payment.amount, 0);
+    let settlement: CashSettlementDocument;
+    try {
+      settlement = await this.settlementModel.create({
+        _id: settlementId,
+        rider,
+        expectedAmount,
+        receivedAmount: dto.receivedAmount,
+        difference: dto.receivedAmount - expectedAmount,
+        payments: payments.map((payment) => payment._id),
+        settledBy: new Types.ObjectId(adminId),
+        note: dto.note,
+      });
+    } catch (error) {
+      await this.paymentModel
+        .updateMany({ settlement: settlementId }, { $unset: { settlement: 1 } })
+        .exec();
+      throw error;
+    }
+
+    if (settlement.difference !== 0) {
+      this.logger.warn(
+        `Cash settlement ${settlement._id.toString()} for rider ${riderId} is off by ${settlement.difference} BDT`,
+      );
+    }
+
+    return settlement;
+  }
+
+  /**
+   * Past cash settlements, optionally for one rider (admin).
+   */
+  async getSettlements(
+    riderId?: string,
+    page = 1,
+    limit = 20,
+  ): Promise<{
+    settlements: CashSettlementDocument[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    const query: Record<string, unknown> = {};
+    if (riderId) {
+      if (!Types.ObjectId.isValid(riderId)) {
+        throw new BadRequestException('riderId is not a valid ID');
+      }
+      query.rider = new Types.ObjectId(riderId);
+    }
+
+    const total = await this.settlementModel.countDocuments(query);
+    const totalPages = Math.ceil(total / limit);
+
+    const settlements = await this.settlementModel
+      .find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .populate('rider', 'fullName phoneNumber')
+      .populate('settledBy', 'fullName')
+      .exec();
+
+    return { settlements, total, page, totalPages };
+  }
+
+  // ========== Refunds ==========
+
+  /**
+   * Online payment a gateway refund goes against: the one asked for, or
+   * the latest that still has enough left to refund.
+   */
+  private async findRefundablePayment(
+    order: OrderDocument,
+    amount: number,
+    paymentId?: string,
+  ): Promise<PaymentDocument> {
+    const query: Record<string, unknown> = {
+      order: order._id,
+      status: PaymentStatus.SUCCEEDED,
+      gateway: this.gateway.name,
+    };
+    if (paymentId) {
+      query._id = new Types.ObjectId(paymentId);
+    }
+
+    const payments = await this.paymentModel.find(query).sort({ completedAt: -1 }).exec();
+    const payment = payments.find((p) => p.amount - (p.refundedAmount || 0) >= amount);
+    if (!payment) {
+      throw new BadRequestException(
+        paymentId
+          ? `Payment not found or has less than ${amount} BDT left to refund`
+          : `No online payment on this order covers ${amount} BDT; refund in parts or in cash`,
+      );
+    }
+    return payment;
+  }
+
+  /**
+   * Refund part or all of what a customer paid (admin).
+   * Gateway refunds go back to the online payment; cash refunds are a
+   * ledger entry for money handed over by the office.
+   */
+  async refundOrder(
+    orderId: string,
+    dto: CreateRefundDto,
+    adminId: string,
+  ): Promise<RefundDocument> {
+    const order = await this.orderModel.findById(orderId).exec();
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const paidAmount = order.payment?.paidAmount ?? 0;
+    const alreadyRefunded = order.pricing.refundedAmount || 0;
+    // The cancellation fee is kept out of what a cancelled order paid
+    const withheld =
+      order.status === OrderStatus.CANCELLED
+        ? Math.min(order.pricing.cancellationFee || 0, paidAmount)
+        : 0;
+    const refundable = paidAmount - alreadyRefunded - withheld;
+    if (refundable <= 0) {
+      throw new BadRequestException(
+        paidAmount > 0
+          ? withheld > 0
+            ? 'Only the cancellation fee is left, which is not refundable'
+            : 'Order has already been fully refunded'
+          : 'Nothing has been paid on this order',
+      );
+    }
+
+    const amount = dto.amount ?? refundable;
+    if (amount > refundable) {
+      throw new BadRequestException(`At most ${refundable} BDT can be refunded on this order`);
+    }
+
+    // Reserve the amount before any money moves, so concurrent refunds
+    // can't together return more than was paid
+    const reserved = await this.orderModel
+      .findOneAndUpdate(
+        {
+          _id: order._id,
+          $expr: {
+            $lte: [
+              { $add: [{ $ifNull: ['$pricing.refundedAmount', 0] }, amount, withheld] },
+              { $ifNull: ['$payment.paidAmount', 0] },
+            ],
+          },
+        },
+        { $inc: { 'pricing.refundedAmount': amount } },
+        { new: true },
+      )
+      .exec();
+    if (!reserved) {
+      throw new BadRequestException(
+        'Another refund on this order changed the refundable amount; check it and try again',
+      );
+    }
+    const releaseOrder = () =>
+      this.orderModel
+        .updateOne({ _id: order._id }, { $inc: { 'pricing.refundedAmount': -amount } })
+        .exec();
+
+    const refund = new this.refundModel({
+      order: order._id,
+      customer: order.customer,
+      amount,
+      reason: dto.reason,
+      note: dto.note,
+      channel: dto.channel,
+      issuedBy: new Types.ObjectId(adminId),
+    });
+
+    if (dto.channel === RefundChannel.GATEWAY) {
+      let payment: PaymentDocument | null;
+      try {
+        const candidate = await this.findRefundablePayment(order, amount, dto.paymentId);
+        // Same reservation on the payment being refunded
+        payment = await this.paymentModel
+          .findOneAndUpdate(
+            {
+              _id: candidate._id,
+              $expr: {
+                $lte: [{ $add: [{ $ifNull: ['$refundedAmount', 0] }, amount] }, '$amount'],
+              },
+            },
+            { $inc: { refundedAmount: amount } },
+            { new: true },
+          )
+          .exec();
+      } catch (error) {
+        await releaseOrder();
+        throw error;
+      }
+      if (!payment) {
+        await releaseOrder();
+        throw new BadRequestException(`Payment has less than ${amount} BDT left to refund`);
+      }
+      refund.payment = payment._id as Types.ObjectId;
+      refund.gateway = this.gateway.name;
+
+      try {
+        const result = await this.gateway.refund({
+          refundId: refund._id.toString(),
+          paymentReference: payment.gatewayReference as string,
+          amount,
+        });
+        refund.gatewayReference = result.reference;
+      } catch (error) {
+        await Promise.all([
+          releaseOrder(),
+          this.paymentModel
+            .updateOne({ _id: payment._id }, { $inc: { refundedAmount: -amount } })
+            .exec(),
+        ]);
+        refund.status = PaymentStatus.FAILED;
+        refund.failureReason = error instanceof Error ? error.message : String(error);
+        refund.completedAt = new Date();
+        await refund.save();
+        throw new BadRequestException(`Gateway refused the refund: ${refund.failureReason}`);
+      }
+    }
+
+    refund.status = PaymentStatus.SUCCEEDED;
+    refund.completedAt = new Date();
+    await refund.save();
+
+    // Another refund landing in between writes its own status
+    if (reserved.payment) {
+      const status = this.derivePaymentStatus(reserved, reserved.payment.paidAmount);
+      await this.orderModel
+        .updateOne(
+          { _id: order._id, 'pricing.refundedAmount': reserved.pricing.refundedAmount },
+          { $set: { 'payment.status': status } },
+        )
+        .exec();
+      reserved.payment.status = status;
+    }
+
+    this.logger.log(
+      `Refunded ${amount} BDT (${dto.reason}, ${dto.channel}) on order ${order._id.toString()}`,
+    );
+    this.publishPaymentUpdate(reserved);
+
+    // Points earned on the refunded amount are taken back
+    await this.loyaltyService
+      .clawBackForOrder(reserved)
+      .catch((error) =>
+        this.logger.warn(
+          `Clawing back points for order ${order._id.toString()} failed: ${error}`,
+        ),
+      );
+
+    return refund;
+  }
+
+  /**
+   * List refunds (admin).
+   */
+  async getRefunds(
+    filters: { reason?: RefundReason; channel?: RefundChannel },
+    page = 1,
+    limit = 20,
+  ): Promise<{
+    refunds: RefundDocument[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    const query: Record<string, unknown> = {};
+    if (filters.reason) query.reason = filters.reason;
+    if (filters.channel) query.channel = filters.channel;
+
+    const total = await this.refundModel.countDocuments(query);
+    const totalPages = Math.ceil(total / limit);
+
+    const refunds = await this.refundModel
+      .find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .populate('issuedBy', 'fullName')
+      .exec();
+
+    return { refunds, total, page, totalPages };
+  }
+}
@@ -0,0 +1,55 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CashSettlementDocument = CashSettlement & Document;
+
+/**
+ * Cash settlement schema.
+ * Records a rider handing over the cash collected on deliveries,
+ * with any shortfall or excess against what the payments add up to.
+ */
+@Schema({
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class CashSettlement {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  rider: Types.ObjectId;
+
+  // Sum of the cash payments covered by this settlement
+  @Prop({ type: Number, required: true, min: 0 })
+  expectedAmount: number;
+
+  @Prop({ type: Number, required: true, min: 0 })
+  receivedAmount: number;
+
+  // receivedAmount - expectedAmount; negative means the rider is short
+  @Prop({ type: Number, required: true })
+  difference: number;
+
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Payment' }], default: [] })
+  payments: Types.ObjectId[];
+
+  // Admin who received the cash
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  settledBy: Types.ObjectId;
+
+  @Prop({ type: String })
+  note?: string;
+
+  // Timestamp added by Mongoose
+  createdAt: Date;
+}
+
+export const CashSettlementSchema = SchemaFactory.createForClass(CashSettlement);
+
+// Indexes
+CashSettlementSchema.index({ rider: 1, createdAt: -1 });
@@ -0,0 +1,80 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { PaymentMethod } from '../enums/payment-method.enum';
+import { PaymentStatus } from '../enums/payment-status.enum';
+
+export type PaymentDocument = Payment & Document;
+
+/**
+ * Payment schema.
+ * One entry per payment attempt against an order: online payments through
+ * the gateway and cash collected by a rider at the door.
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class Payment {
+  @Prop({ type: Types.ObjectId, ref: 'Order', required: true })
+  order: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  customer: Types.ObjectId;
+
+  @Prop({ type: String, enum: PaymentMethod, required: true })
+  method: PaymentMethod;
+
+  @Prop({ type: Number, required: true, min: 0 })
+  amount: number;
+
+  @Prop({ type: String, enum: PaymentStatus, default: PaymentStatus.INITIATED })
+  status: PaymentStatus;
+
+  // Gateway that handled the payment ("cash" for rider collections)
+  @Prop({ type: String, required: true })
+  gateway: string;
+
+  // Transaction reference issued by the gateway
+  @Prop({ type: String })
+  gatewayReference?: string;
+
+  @Prop({ type: String })
+  failureReason?: string;
+
+  // Returned to the customer through the gateway so far
+  @Prop({ type: Number, min: 0, default: 0 })
+  refundedAmount: number;
+
+  @Prop({ type: Date })
+  completedAt?: Date;
+
+  // Rider (or admin) who took the cash
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  collectedBy?: Types.ObjectId;
+
+  // Set once the rider has handed the cash over to the office
+  @Prop({ type: Types.ObjectId, ref: 'CashSettlement' })
+  settlement?: Types.ObjectId;
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const PaymentSchema = SchemaFactory.createForClass(Payment);
+
+// Indexes
+PaymentSchema.index({ order: 1, createdAt: -1 });
+PaymentSchema.index(
+  { gateway: 1, gatewayReference: 1 },
+  { unique: true, partialFilterExpression: { gatewayReference: { $exists: true } } },
+);
+PaymentSchema.index({ collectedBy: 1, settlement: 1 });
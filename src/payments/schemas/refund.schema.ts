@@ -0,0 +1,78 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { RefundReason } from '../enums/refund-reason.enum';
+import { RefundChannel } from '../enums/refund-channel.enum';
+import { PaymentStatus } from '../enums/payment-status.enum';
+
+export type RefundDocument = Refund & Document;
+
+/**
+ * Refund schema.
+ * Money returned to a customer, either through the gateway against an
+ * online payment or handed over in cash.
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class Refund {
+  @Prop({ type: Types.ObjectId, ref: 'Order', required: true })
+  order: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  customer: Types.ObjectId;
+
+  @Prop({ type: Number, required: true, min: 0 })
+  amount: number;
+
+  @Prop({ type: String, enum: RefundReason, required: true })
+  reason: RefundReason;
+
+  @Prop({ type: String })
+  note?: string;
+
+  @Prop({ type: String, enum: RefundChannel, required: true })
+  channel: RefundChannel;
+
+  @Prop({ type: String, enum: PaymentStatus, default: PaymentStatus.INITIATED })
+  status: PaymentStatus;
+
+  // Online payment refunded (gateway refunds only)
+  @Prop({ type: Types.ObjectId, ref: 'Payment' })
+  payment?: Types.ObjectId;
+
+  @Prop({ type: String })
+  gateway?: string;
+
+  // Refund reference issued by the gateway
+  @Prop({ type: String })
+  gatewayReference?: string;
+
+  @Prop({ type: String })
+  failureReason?: string;
+
+  @Prop({ type: Date })
+  completedAt?: Date;
+
+  // Admin who issued the refund
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  issuedBy: Types.ObjectId;
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const RefundSchema = SchemaFactory.createForClass(Refund);
+
+// Indexes
+RefundSchema.index({ order: 1, createdAt: -1 });
+RefundSchema.index({ status: 1, createdAt: -1 });
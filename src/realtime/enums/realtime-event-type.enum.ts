@@ -0,0 +1,13 @@
+/**
+ * Event names sent over the real-time stream.
+ */
+export enum RealtimeEventType {
+  ORDER_STATUS = 'order.status', // Status changed (including cancellation)
+  ORDER_UPDATED = 'order.updated', // Customer edited items, addresses or schedule
+  ORDER_ASSIGNED = 'order.assigned', // Rider assigned or reassigned
+  ORDER_UNASSIGNED = 'order.unassigned', // Sent to a rider who was taken off an order
+  ORDER_ESCALATED = 'order.escalated', // Needs an admin (e.g. too many failed deliveries)
+  ORDER_PAYMENT = 'order.payment', // Payment received, failed or collected
+  RIDER_LOCATION = 'rider.location', // New location ping for an order in transit
+  PING = 'ping', // Keep-alive
+}
@@ -0,0 +1,33 @@
+import { Controller, Sse, UseGuards, MessageEvent } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
+import { Observable } from 'rxjs';
+import { RealtimeService } from './realtime.service';
+import { JwtStreamAuthGuard, CurrentUser } from '../common';
+import { UserDocument } from '../users/schemas/user.schema';
+
+/**
+ * Realtime controller - Server-Sent Events stream of order updates.
+ */
+@ApiTags('Realtime')
+@Controller('realtime')
+export class RealtimeController {
+  constructor(private readonly realtimeService: RealtimeService) {}
+
+  /**
+   * Open an event stream for the signed-in user.
+   * Browsers' EventSource cannot set headers, so the access token may be
+   * passed as `access_token` in the query string instead.
+   */
+  @Sse('stream')
+  @UseGuards(JwtStreamAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Subscribe to order updates (Server-Sent Events)' })
+  @ApiQuery({ name: 'access_token', required: false, description: 'JWT, if not sent as a header' })
+  @ApiResponse({
+    status: 200,
+    description: 'text/event-stream of order.status, order.assigned, rider.location, ...',
+  })
+  stream(@CurrentUser() user: UserDocument): Observable<MessageEvent> {
+    return this.realtimeService.streamFor(user);
+  }
+}
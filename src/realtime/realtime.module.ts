@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { RealtimeService } from './realtime.service';
+import { RealtimeController } from './realtime.controller';
+
+/**
+ * Realtime module - pushes order events to connected clients.
+ */
+@Module({
+  controllers: [RealtimeController],
+  providers: [RealtimeService],
+  exports: [RealtimeService], // Export for use in Orders and Tracking modules
+})
+export class RealtimeModule {}
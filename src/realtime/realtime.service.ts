@@ -0,0 +1,110 @@
+import { Injectable, MessageEvent } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Observable, Subject, interval, merge } from 'rxjs';
+import { filter, map } from 'rxjs/operators';
+import { Types } from 'mongoose';
+import { RealtimeEventType } from './enums/realtime-event-type.enum';
+import { UserDocument } from '../users/schemas/user.schema';
+import { UserRole } from '../users/enums/user-role.enum';
+
+/**
+ * Order fields that decide who may see its events.
+ * `customer` and `deliveryPerson` may be plain IDs or populated users.
+ */
+export interface OrderAudience {
+  _id: unknown;
+  customer: unknown;
+  deliveryPerson?: unknown;
+}
+
+/**
+ * An event addressed to specific users (admins receive every order event).
+ */
+interface RealtimeEvent {
+  type: RealtimeEventType;
+  recipients: string[];
+  data: Record<string, unknown>;
+}
+
+/**
+ * Realtime service - in-process event bus behind the SSE stream.
+ *
+ * Order events go to the order's customer, its assigned rider and all
+ * admins, matching the access rules of GET orders/:id. Events are not
+ * persisted; clients should refetch the order after reconnecting.
+ * With several API instances, each instance only sees its own events.
+ */
+@Injectable()
+export class RealtimeService {
+  private readonly events$ = new Subject<RealtimeEvent>();
+
+  constructor(private configService: ConfigService) {}
+
+  /**
+   * ID string from an ObjectId or a populated document.
+   */
+  private toId(value: unknown): string | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (value instanceof Types.ObjectId) {
+      return value.toString();
+    }
+    const { _id } = value as { _id?: unknown };
+    return String(_id ?? value);
+  }
+
+  /**
+   * Send an event about an order to everyone allowed to see it.
+   */
+  publishOrderEvent(
+    order: OrderAudience,
+    type: RealtimeEventType,
+    data: Record<string, unknown> = {},
+  ): void {
+    const recipients = [this.toId(order.customer), this.toId(order.deliveryPerson)].filter(
+      (id): id is string => !!id,
+    );
+
+    this.events$.next({
+      type,
+      recipients,
+      data: { orderId: this.toId(order._id), ...data },
+    });
+  }
+
+  /**
+   * Send an event to specific users only.
+   */
+  publishToUsers(
+    userIds: Array<Types.ObjectId | string>,
+    type: RealtimeEventType,
+    data: Record<string, unknown>,
+  ): void {
+    this.events$.next({ type, recipients: userIds.map((id) => id.toString()), data });
+  }
+
+  /**
+   * Live event stream for a user, with periodic keep-alive pings.
+   */
+  streamFor(user: UserDocument): Observable<MessageEvent> {
+    const userId = user._id.toString();
+    const isAdmin = user.role === UserRole.ADMIN;
+    const heartbeatSeconds = Number(this.configService.get('REALTIME_HEARTBEAT_SECONDS', 25));
+
+    const events = this.events$.pipe(
+      filter(
+        (event) =>
+          event.recipients.includes(userId) ||
+          (isAdmin && event.type !== RealtimeEventType.ORDER_UNASSIGNED),
+      ),
+      map((event): MessageEvent => ({ type: event.type, data: event.data })),
+    );
+
+    const heartbeat = interval(heartbeatSeconds * 1000).pipe(
+      map((): MessageEvent => ({ type: RealtimeEventType.PING, data: { at: new Date() } })),
+    );
+
+    return merge(events, heartbeat);
+  }
+}
@@ -0,0 +1,14 @@
+import { IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateLeaveDto {
+  @ApiProperty({ description: 'Leave date (YYYY-MM-DD, Dhaka time)', example: '2024-01-15' })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'date must be in YYYY-MM-DD format' })
+  date: string;
+
+  @ApiPropertyOptional({ example: 'Family event' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  reason?: string;
+}
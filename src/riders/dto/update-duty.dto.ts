@@ -0,0 +1,8 @@
+import { IsBoolean } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateDutyDto {
+  @ApiProperty({ description: 'Whether the rider is working right now', example: true })
+  @IsBoolean()
+  isOnDuty: boolean;
+}
@@ -0,0 +1,32 @@
+import { IsArray, IsInt, Min, Max, Matches, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class WeeklyShiftDto {
+  @ApiProperty({ description: 'Day of week (0 = Sunday ... 6 = Saturday)', example: 0 })
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  dayOfWeek: number;
+
+  @ApiProperty({ description: 'Start time (HH:mm, Dhaka time)', example: '09:00' })
+  @Matches(TIME_PATTERN, { message: 'startTime must be in HH:mm format' })
+  startTime: string;
+
+  @ApiProperty({ description: 'End time (HH:mm, Dhaka time)', example: '17:00' })
+  @Matches(TIME_PATTERN, { message: 'endTime must be in HH:mm format' })
+  endTime: string;
+}
+
+/**
+ * DTO for replacing a rider's weekly shift schedule.
+ */
+export class UpdateShiftsDto {
+  @ApiProperty({ type: [WeeklyShiftDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => WeeklyShiftDto)
+  shifts: WeeklyShiftDto[];
+}
@@ -0,0 +1,145 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { RidersService } from './riders.service';
+import { UpdateDutyDto } from './dto/update-duty.dto';
+import { UpdateShiftsDto } from './dto/update-shifts.dto';
+import { CreateLeaveDto } from './dto/create-leave.dto';
+import { JwtAuthGuard, RolesGuard, CurrentUser, Roles } from '../common';
+import { UserRole } from '../users/enums/user-role.enum';
+
+/**
+ * Riders controller - duty status, shifts, leave and rosters.
+ */
+@ApiTags('Riders')
+@ApiBearerAuth('JWT-auth')
+@Controller('riders')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class RidersController {
+  constructor(private readonly ridersService: RidersService) {}
+
+  // ========== Rider Endpoints ==========
+
+  /**
+   * Get own duty status and schedule (rider).
+   */
+  @Get('me')
+  @Roles(UserRole.DELIVERY)
+  @ApiOperation({ summary: 'Get my duty status and schedule (Delivery only)' })
+  @ApiResponse({ status: 200, description: 'Rider profile' })
+  async getMyProfile(@CurrentUser('_id') riderId: string) {
+    return this.ridersService.getProfile(riderId);
+  }
+
+  /**
+   * Go on or off duty (rider).
+   */
+  @Patch('me/duty')
+  @Roles(UserRole.DELIVERY)
+  @ApiOperation({ summary: 'Go on or off duty (Delivery only)' })
+  @ApiResponse({ status: 200, description: 'Duty status updated' })
+  async setDuty(@CurrentUser('_id') riderId: string, @Body() dto: UpdateDutyDto) {
+    return this.ridersService.setDuty(riderId, dto.isOnDuty);
+  }
+
+  // ========== Admin Endpoints ==========
+
+  /**
+   * Who is working each slot on a day (admin).
+   */
+  @Get('roster')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get rider roster for a day (Admin only)' })
+  @ApiQuery({ name: 'date', required: true, example: '2024-01-15' })
+  @ApiResponse({ status: 200, description: 'Riders per time slot' })
+  async getRoster(@Query('date') date: string) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date || '')) {
+      throw new BadRequestException('date (YYYY-MM-DD) is required');
+    }
+    return this.ridersService.getRoster(date);
+  }
+
+  /**
+   * Riders with their availability at a moment (admin).
+   */
+  @Get('availability')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get rider availability (Admin only)' })
+  @ApiQuery({ name: 'at', required: false, example: '2024-01-15T10:00:00Z' })
+  @ApiResponse({ status: 200, description: 'Riders with availability and reasons' })
+  async getAvailability(@Query('at') at?: string) {
+    const moment = at ? new Date(at) : new Date();
+    if (isNaN(moment.getTime())) {
+      throw new BadRequestException('at must be an ISO date-time');
+    }
+    return this.ridersService.getAvailableRiders(moment);
+  }
+
+  /**
+   * Get a rider's duty status and schedule (admin).
+   */
+  @Get(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get rider schedule (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Rider profile' })
+  @ApiResponse({ status: 404, description: 'Delivery person not found' })
+  async getProfile(@Param('id') riderId: string) {
+    return this.ridersService.getProfile(riderId);
+  }
+
+  /**
+   * Replace a rider's weekly shifts (admin).
+   */
+  @Put(':id/shifts')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Set weekly shifts (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Shifts updated' })
+  async setWeeklyShifts(@Param('id') riderId: string, @Body() dto: UpdateShiftsDto) {
+    return this.ridersService.setWeeklyShifts(riderId, dto);
+  }
+
+  /**
+   * Add a leave day (admin).
+   */
+  @Post(':id/leave')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Add leave day (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Leave added' })
+  @ApiResponse({ status: 409, description: 'Already on leave that day' })
+  async addLeave(
+    @Param('id') riderId: string,
+    @Body() dto: CreateLeaveDto,
+    @CurrentUser('_id') adminId: string,
+  ) {
+    return this.ridersService.addLeave(riderId, dto, adminId);
+  }
+
+  /**
+   * Cancel a leave day (admin).
+   */
+  @Delete(':id/leave/:date')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Remove leave day (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Leave removed' })
+  @ApiResponse({ status: 404, description: 'Leave day not found' })
+  async removeLeave(@Param('id') riderId: string, @Param('date') date: string) {
+    return this.ridersService.removeLeave(riderId, date);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { RidersService } from './riders.service';
+import { RidersController } from './riders.controller';
+import { RiderProfile, RiderProfileSchema } from './schemas/rider-profile.schema';
+import { UsersModule } from '../users/users.module';
+import { TimeSlotsModule } from '../time-slots/time-slots.module';
+
+/**
+ * Riders module - delivery staff availability and scheduling.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: RiderProfile.name, schema: RiderProfileSchema }]),
+    UsersModule, // For delivery personnel lookups
+    TimeSlotsModule, // For roster slots
+  ],
+  controllers: [RidersController],
+  providers: [RidersService],
+  exports: [RidersService], // Export for use in Orders module
+})
+export class RidersModule {}
@@ -0,0 +1,278 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { RiderProfile, RiderProfileDocument, WeeklyShift } from './schemas/rider-profile.schema';
+import { UpdateShiftsDto } from './dto/update-shifts.dto';
+import { CreateLeaveDto } from './dto/create-leave.dto';
+import { UsersService } from '../users/users.service';
+import { UserDocument } from '../users/schemas/user.schema';
+import { UserRole } from '../users/enums/user-role.enum';
+import { TimeSlotsService } from '../time-slots/time-slots.service';
+import {
+  toDhakaDate,
+  toDhakaDateString,
+  toDhakaTimeString,
+  getDhakaWeekday,
+} from '../common/utils/date.util';
+
+/**
+ * Whether a rider can take work at a given time, and why not.
+ */
+export interface RiderAvailability {
+  available: boolean;
+  reasons: string[];
+}
+
+/**
+ * Riders service - duty status, weekly shifts, leave and rosters.
+ */
+@Injectable()
+export class RidersService {
+  constructor(
+    @InjectModel(RiderProfile.name) private profileModel: Model<RiderProfileDocument>,
+    private usersService: UsersService,
+    private timeSlotsService: TimeSlotsService,
+  ) {}
+
+  /**
+   * Load a delivery person or fail.
+   */
+  private async getRider(riderId: string): Promise<UserDocument> {
+    const rider = Types.ObjectId.isValid(riderId)
+      ? await this.usersService.findById(riderId)
+      : null;
+    if (!rider) {
+      throw new NotFoundException('Delivery person not found');
+    }
+    if (rider.role !== UserRole.DELIVERY) {
+      throw new BadRequestException('User is not a delivery person');
+    }
+    return rider;
+  }
+
+  /**
+   * Get a rider's profile, creating an empty one on first use.
+   */
+  async getProfile(riderId: string): Promise<RiderProfileDocument> {
+    await this.getRider(riderId);
+    return this.profileModel
+      .findOneAndUpdate(
+        { rider: new Types.ObjectId(riderId) },
+        { $setOnInsert: { rider: new Types.ObjectId(riderId) } },
+        { upsert: true, new: true },
+      )
+      .exec();
+  }
+
+  // ========== Rider ==========
+
+  /**
+   * Go on or off duty (rider).
+   */
+  async setDuty(riderId: string, isOnDuty: boolean): Promise<RiderProfileDocument> {
+    const profile = await this.getProfile(riderId);
+    if (profile.isOnDuty !== isOnDuty) {
+      profile.isOnDuty = isOnDuty;
+      profile.dutyChangedAt = new Date();
+    }
+    return profile.save();
+  }
+
+  // ========== Admin ==========
+
+  /**
+   * Replace a rider's weekly shifts (admin only).
+   */
+  async setWeeklyShifts(riderId: string, dto: UpdateShiftsDto): Promise<RiderProfileDocument> {
+    const shifts = [...dto.shifts].sort(
+      (a, b) => a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime),
+    );
+
+    for (let i = 0; i < shifts.length; i++) {
+      const shift = shifts[i];
+      if (shift.endTime <= shift.startTime) {
+        throw new BadRequestException('Shift endTime must be after startTime');
+      }
+      const previous = shifts[i - 1];
+      if (previous?.dayOfWeek === shift.dayOfWeek && previous.endTime > shift.startTime) {
+        throw new BadRequestException(`Shifts overlap on day ${shift.dayOfWeek}`);
+      }
+    }
+
+    const profile = await this.getProfile(riderId);
+    profile.weeklyShifts = shifts;
+    return profile.save();
+  }
+
+  /**
+   * Give a rider a day off (admin only).
+   */
+  async addLeave(
+    riderId: string,
+    dto: CreateLeaveDto,
+    adminId: string,
+  ): Promise<RiderProfileDocument> {
+    if (isNaN(toDhakaDate(dto.date, '00:00').getTime())) {
+      throw new BadRequestException(`Invalid date ${dto.date}`);
+    }
+
+    const profile = await this.getProfile(riderId);
+    if (profile.leaveDays.some((leave) => leave.date === dto.date)) {
+      throw new ConflictException('Rider is already on leave that day');
+    }
+
+    profile.leaveDays.push({
+      date: dto.date,
+      reason: dto.reason,
+      addedBy: new Types.ObjectId(adminId),
+    });
+    profile.leaveDays.sort((a, b) => a.date.localeCompare(b.date));
+    return profile.save();
+  }
+
+  /**
+   * Cancel a leave day (admin only).
+   */
+  async removeLeave(riderId: string, date: string): Promise<RiderProfileDocument> {
+    const profile = await this.getProfile(riderId);
+    const remaining = profile.leaveDays.filter((leave) => leave.date !== date);
+    if (remaining.length === profile.leaveDays.length) {
+      throw new NotFoundException('Leave day not found');
+    }
+    profile.leaveDays = remaining;
+    return profile.save();
+  }
+
+  // ========== Availability ==========
+
+  /**
+   * Check riders' availability at a moment.
+   * A rider is unavailable when on leave that day, outside their weekly
+   * shifts (if they have any), or off duty when the moment is today.
+   */
+  async getAvailability(
+    riderIds: string[],
+    at: Date = new Date(),
+  ): Promise<Map<string, RiderAvailability>> {
+    const profiles = await this.profileModel
+      .find({ rider: { $in: riderIds.map((id) => new Types.ObjectId(id)) } })
+      .exec();
+    const byRider = new Map(profiles.map((p) => [p.rider.toString(), p]));
+
+    const date = toDhakaDateString(at);
+    const weekday = getDhakaWeekday(at);
+    const time = toDhakaTimeString(at);
+    const isToday = date === toDhakaDateString(new Date());
+
+    const result = new Map<string, RiderAvailability>();
+    for (const riderId of riderIds) {
+      const profile = byRider.get(riderId);
+      const reasons: string[] = [];
+
+      if (profile?.leaveDays.some((leave) => leave.date === date)) {
+        reasons.push(`on leave on ${date}`);
+      }
+      if (
+        profile?.weeklyShifts.length &&
+        !profile.weeklyShifts.some(
+          (shift) =>
+            shift.dayOfWeek === weekday && shift.startTime <= time && shift.endTime > time,
+        )
+      ) {
+        reasons.push(`no shift at ${time} on ${date}`);
+      }
+      if (isToday && !profile?.isOnDuty) {
+        reasons.push('off duty');
+      }
+
+      result.set(riderId, { available: reasons.length === 0, reasons });
+    }
+    return result;
+  }
+
+  /**
+   * Check one rider's availability at a moment.
+   */
+  async getRiderAvailability(riderId: string, at?: Date): Promise<RiderAvailability> {
+    const availability = await this.getAvailability([riderId], at);
+    return availability.get(riderId)!;
+  }
+
+  /**
+   * List every rider with their availability at a moment (admin only).
+   */
+  async getAvailableRiders(at: Date = new Date()) {
+    const riders = await this.usersService.findDeliveryPersonnel();
+    const availability = await this.getAvailability(
+      riders.map((rider) => rider._id.toString()),
+      at,
+    );
+
+    return riders.map((rider) => ({
+      id: rider._id.toString(),
+      fullName: rider.fullName,
+      phoneNumber: rider.phoneNumber,
+      ...availability.get(rider._id.toString())!,
+    }));
+  }
+
+  /**
+   * Who is working each time slot on a day (admin only).
+   */
+  async getRoster(date: string) {
+    const dayStart = toDhakaDate(date, '00:00');
+    if (isNaN(dayStart.getTime())) {
+      throw new BadRequestException(`Invalid date ${date}`);
+    }
+    const weekday = getDhakaWeekday(dayStart);
+
+    const [riders, slots] = await Promise.all([
+      this.usersService.findDeliveryPersonnel(),
+      this.timeSlotsService.getSlots(undefined, date, date),
+    ]);
+    const profiles = await this.profileModel
+      .find({ rider: { $in: riders.map((rider) => rider._id) } })
+      .exec();
+    const byRider = new Map(profiles.map((p) => [p.rider.toString(), p]));
+
+    const riderDays = riders.map((rider) => {
+      const profile = byRider.get(rider._id.toString());
+      const leave = profile?.leaveDays.find((l) => l.date === date);
+      const shifts: WeeklyShift[] =
+        profile?.weeklyShifts.filter((shift) => shift.dayOfWeek === weekday) || [];
+      return {
+        id: rider._id.toString(),
+        fullName: rider.fullName,
+        phoneNumber: rider.phoneNumber,
+        isOnDuty: profile?.isOnDuty ?? false,
+        hasSchedule: !!profile?.weeklyShifts.length,
+        onLeave: leave ? { reason: leave.reason } : null,
+        shifts: shifts.map(({ startTime, endTime }) => ({ startTime, endTime })),
+      };
+    });
+
+    return {
+      date,
+      dayOfWeek: weekday,
+      riders: riderDays,
+      slots: slots.map((slot) => ({
+        id: slot._id.toString(),
+        type: slot.type,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        capacity: slot.capacity,
+        bookedCount: slot.bookedCount,
+        // Riders whose shift overlaps the slot window
+        riders: riderDays
+          .filter(
+            (rider) =>
+              !rider.onLeave &&
+              rider.shifts.some(
+                (shift) => shift.startTime < slot.endTime && shift.endTime > slot.startTime,
+              ),
+          )
+          .map(({ id, fullName }) => ({ id, fullName })),
+      })),
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type RiderProfileDocument = RiderProfile & Document;
+
+/**
+ * Recurring weekly shift (Dhaka time).
+ */
+@Schema({ _id: false })
+export class WeeklyShift {
+  // 0 = Sunday ... 6 = Saturday
+  @Prop({ type: Number, required: true, min: 0, max: 6 })
+  dayOfWeek: number;
+
+  // HH:mm
+  @Prop({ type: String, required: true })
+  startTime: string;
+
+  // HH:mm, after startTime (shifts do not cross midnight)
+  @Prop({ type: String, required: true })
+  endTime: string;
+}
+
+/**
+ * A day the rider is off.
+ */
+@Schema({ _id: false })
+export class LeaveDay {
+  // YYYY-MM-DD (Dhaka date)
+  @Prop({ type: String, required: true })
+  date: string;
+
+  @Prop({ type: String })
+  reason?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  addedBy?: Types.ObjectId;
+}
+
+/**
+ * Rider profile schema.
+ * Working pattern for a delivery person: live on/off-duty status,
+ * weekly shifts and leave days.
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class RiderProfile {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, unique: true })
+  rider: Types.ObjectId;
+
+  @Prop({ type: Boolean, default: false })
+  isOnDuty: boolean;
+
+  @Prop({ type: Date })
+  dutyChangedAt?: Date;
+
+  @Prop({ type: [WeeklyShift], default: [] })
+  weeklyShifts: WeeklyShift[];
+
+  @Prop({ type: [LeaveDay], default: [] })
+  leaveDays: LeaveDay[];
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const RiderProfileSchema = SchemaFactory.createForClass(RiderProfile);
+
+// Index for roster lookups (rider already has unique: true in @Prop)
+RiderProfileSchema.index({ 'leaveDays.date': 1 });
@@ -0,0 +1,10 @@
+/**
+ * SMS delivery status.
+ * Updated as the provider accepts the message and reports delivery.
+ */
+export enum SmsStatus {
+  QUEUED = 'queued',
+  SENT = 'sent',
+  DELIVERED = 'delivered',
+  FAILED = 'failed',
+}
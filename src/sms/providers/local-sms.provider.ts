@@ -0,0 +1,41 @@
+import { Logger } from '@nestjs/common';
+import { appendFile } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { SmsProvider, SmsSendResult, SmsDeliveryReport } from './sms-provider.interface';
+import { SmsStatus } from '../enums/sms-status.enum';
+
+/**
+ * Local stand-in provider for development and tests.
+ * Logs messages to the console and optionally appends them to an outbox file
+ * (one JSON object per line) instead of sending real SMS.
+ */
+export class LocalSmsProvider implements SmsProvider {
+  readonly name = 'local';
+  readonly isLocal = true;
+  private readonly logger = new Logger(LocalSmsProvider.name);
+
+  constructor(private readonly outboxFile?: string) {}
+
+  async send(to: string, body: string, reference: string): Promise<SmsSendResult> {
+    const providerMessageId = `local-${randomUUID()}`;
+
+    this.logger.log(`SMS to ${to}: ${body}`);
+
+    if (this.outboxFile) {
+      const line = JSON.stringify({
+        id: providerMessageId,
+        reference,
+        to,
+        body,
+        sentAt: new Date().toISOString(),
+      });
+      await appendFile(this.outboxFile, line + '\n', 'utf8');
+    }
+
+    return { providerMessageId, status: SmsStatus.DELIVERED };
+  }
+
+  parseDeliveryReport(): SmsDeliveryReport | null {
+    return null;
+  }
+}
@@ -0,0 +1,57 @@
+import { SmsStatus } from '../enums/sms-status.enum';
+
+/**
+ * Injection token for the active SMS provider.
+ */
+export const SMS_PROVIDER = 'SMS_PROVIDER';
+
+/**
+ * Result of handing a message to a provider.
+ */
+export interface SmsSendResult {
+  providerMessageId?: string;
+  status: SmsStatus.SENT | SmsStatus.DELIVERED;
+}
+
+/**
+ * Delivery status parsed from a provider callback.
+ */
+export interface SmsDeliveryReport {
+  providerMessageId: string;
+  status: SmsStatus;
+  error?: string;
+}
+
+/**
+ * Contract every SMS gateway integration implements.
+ * `send` throws on failure so SmsService can retry.
+ */
+export interface SmsProvider {
+  readonly name: string;
+
+  /**
+   * Whether messages actually leave the server (false for local stand-ins).
+   */
+  readonly isLocal: boolean;
+
+  /**
+   * Send a text message. `to` is a local Bangladesh number (01XXXXXXXXX).
+   */
+  send(to: string, body: string, reference: string): Promise<SmsSendResult>;
+
+  /**
+   * Parse a delivery report callback, or return null if it is not recognised.
+   */
+  parseDeliveryReport(payload: Record<string, unknown>): SmsDeliveryReport | null;
+}
+
+/**
+ * Convert a local Bangladesh number to international digits (8801XXXXXXXXX).
+ */
+export function toInternationalNumber(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.startsWith('880')) {
+    return digits;
+  }
+  return '88' + (digits.startsWith('0') ? digits : '0' + digits);
+}
@@ -0,0 +1,64 @@
+import { SmsProvider, SmsSendResult, SmsDeliveryReport, toInternationalNumber } from './sms-provider.interface';
+import { SmsStatus } from '../enums/sms-status.enum';
+
+export interface SslWirelessConfig {
+  apiToken: string;
+  sid: string;
+  baseUrl: string;
+}
+
+/**
+ * SSL Wireless (SMS Plus) provider for Bangladesh numbers.
+ */
+export class SslWirelessSmsProvider implements SmsProvider {
+  readonly name = 'ssl_wireless';
+  readonly isLocal = false;
+
+  constructor(private readonly config: SslWirelessConfig) {}
+
+  async send(to: string, body: string, reference: string): Promise<SmsSendResult> {
+    const response = await fetch(`${this.config.baseUrl}/api/v3/send-sms`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify({
+        api_token: this.config.apiToken,
+        sid: this.config.sid,
+        msisdn: toInternationalNumber(to),
+        sms: body,
+        csms_id: reference,
+      }),
+    });
+
+    const data = (await response.json().catch(() => ({}))) as {
+      status?: string;
+      error_message?: string;
+      smsinfo?: Array<{ sms_status?: string; reference_id?: string }>;
+    };
+
+    const info = data.smsinfo?.[0];
+    if (!response.ok || data.status !== 'SUCCESS' || info?.sms_status !== 'SUCCESS') {
+      throw new Error(
+        `SSL Wireless rejected message: ${data.error_message || response.statusText}`,
+      );
+    }
+
+    // Delivery reports reference our csms_id, so track by that
+    return { providerMessageId: reference, status: SmsStatus.SENT };
+  }
+
+  parseDeliveryReport(payload: Record<string, unknown>): SmsDeliveryReport | null {
+    const id = payload.csms_id ?? payload.csmsId;
+    const status = String(payload.status ?? payload.sms_status ?? '').toUpperCase();
+    if (typeof id !== 'string' || !status) {
+      return null;
+    }
+
+    if (status === 'DELIVERED' || status === 'DELIVRD') {
+      return { providerMessageId: id, status: SmsStatus.DELIVERED };
+    }
+    if (['FAILED', 'UNDELIV', 'UNDELIVERED', 'REJECTED', 'EXPIRED'].includes(status)) {
+      return { providerMessageId: id, status: SmsStatus.FAILED, error: status };
+    }
+    return { providerMessageId: id, status: SmsStatus.SENT };
+  }
+}
@@ -0,0 +1,79 @@
+import { SmsProvider, SmsSendResult, SmsDeliveryReport, toInternationalNumber } from './sms-provider.interface';
+import { SmsStatus } from '../enums/sms-status.enum';
+
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  fromNumber: string;
+  statusCallbackUrl?: string;
+}
+
+/**
+ * Twilio Programmable Messaging provider.
+ */
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio';
+  readonly isLocal = false;
+
+  constructor(private readonly config: TwilioConfig) {}
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const params = new URLSearchParams({
+      To: '+' + toInternationalNumber(to),
+      From: this.config.fromNumber,
+      Body: body,
+    });
+    if (this.config.statusCallbackUrl) {
+      params.set('StatusCallback', this.config.statusCallbackUrl);
+    }
+
+    const credentials = Buffer.from(
+      `${this.config.accountSid}:${this.config.authToken}`,
+    ).toString('base64');
+
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.config.accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: params.toString(),
+      },
+    );
+
+    const data = (await response.json().catch(() => ({}))) as {
+      sid?: string;
+      message?: string;
+    };
+
+    if (!response.ok || !data.sid) {
+      throw new Error(`Twilio rejected message: ${data.message || response.statusText}`);
+    }
+
+    return { providerMessageId: data.sid, status: SmsStatus.SENT };
+  }
+
+  parseDeliveryReport(payload: Record<string, unknown>): SmsDeliveryReport | null {
+    const id = payload.MessageSid;
+    const status = payload.MessageStatus;
+    if (typeof id !== 'string' || typeof status !== 'string') {
+      return null;
+    }
+
+    switch (status) {
+      case 'delivered':
+        return { providerMessageId: id, status: SmsStatus.DELIVERED };
+      case 'failed':
+      case 'undelivered':
+        return {
+          providerMessageId: id,
+          status: SmsStatus.FAILED,
+          error: String(payload.ErrorCode ?? status),
+        };
+      default:
+        return { providerMessageId: id, status: SmsStatus.SENT };
+    }
+  }
+}
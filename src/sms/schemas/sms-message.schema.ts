@@ -0,0 +1,77 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { SmsStatus } from '../enums/sms-status.enum';
+import { Language } from '../../users/enums/language.enum';
+
+export type SmsMessageDocument = SmsMessage & Document;
+
+/**
+ * Outgoing SMS log.
+ * Tracks every send attempt and the delivery status reported by the provider.
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class SmsMessage {
+  @Prop({ type: String, required: true })
+  to: string;
+
+  // Sensitive messages (e.g. OTPs) are stored redacted
+  @Prop({ type: String, required: true })
+  body: string;
+
+  @Prop({ type: String })
+  template: string;
+
+  @Prop({ type: String, enum: Language })
+  language: Language;
+
+  @Prop({ type: String, required: true })
+  provider: string;
+
+  @Prop({
+    type: String,
+    enum: SmsStatus,
+    default: SmsStatus.QUEUED,
+  })
+  status: SmsStatus;
+
+  @Prop({ type: String })
+  providerMessageId: string;
+
+  @Prop({ type: Number, default: 0 })
+  attempts: number;
+
+  @Prop({ type: String })
+  lastError: string;
+
+  @Prop({ type: Date })
+  sentAt: Date;
+
+  @Prop({ type: Date })
+  deliveredAt: Date;
+
+  // Free-form reference to what triggered the message (e.g. orderId)
+  @Prop({ type: Object })
+  context: Record<string, unknown>;
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const SmsMessageSchema = SchemaFactory.createForClass(SmsMessage);
+
+// Indexes
+SmsMessageSchema.index({ provider: 1, providerMessageId: 1 });
+SmsMessageSchema.index({ to: 1, createdAt: -1 });
+SmsMessageSchema.index({ status: 1, createdAt: -1 });
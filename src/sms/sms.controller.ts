@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  UnauthorizedException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { ConfigService } from '@nestjs/config';
+import { SmsService } from './sms.service';
+import { SmsStatus } from './enums/sms-status.enum';
+import { JwtAuthGuard, RolesGuard, Roles, Public } from '../common';
+import { UserRole } from '../users/enums/user-role.enum';
+
+/**
+ * SMS controller - provider delivery callbacks and admin message log.
+ */
+@ApiTags('SMS')
+@Controller('sms')
+export class SmsController {
+  constructor(
+    private readonly smsService: SmsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Delivery report callback from the SMS provider.
+   * Providers are configured with `?token=<SMS_WEBHOOK_SECRET>` on the URL.
+   */
+  @Post('delivery-reports/:provider')
+  @Public()
+  @HttpCode(200)
+  @ApiOperation({ summary: 'SMS provider delivery report webhook' })
+  @ApiResponse({ status: 200, description: 'Report processed' })
+  @ApiResponse({ status: 401, description: 'Invalid webhook token' })
+  async deliveryReport(
+    @Param('provider') provider: string,
+    @Query('token') token: string,
+    @Body() payload: Record<string, unknown>,
+  ) {
+    const secret = this.configService.get<string>('SMS_WEBHOOK_SECRET');
+    if (!secret || token !== secret) {
+      throw new UnauthorizedException('Invalid webhook token');
+    }
+
+    const processed = await this.smsService.handleDeliveryReport(provider, payload);
+    return { processed };
+  }
+
+  /**
+   * Get sent SMS log (admin only).
+   */
+  @Get('messages')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get SMS log (Admin only)' })
+  @ApiQuery({ name: 'to', required: false })
+  @ApiQuery({ name: 'status', required: false, enum: SmsStatus })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Paginated SMS log' })
+  async getMessages(
+    @Query('to') to?: string,
+    @Query('status') status?: SmsStatus,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.smsService.getMessages({ to, status }, page, limit);
+  }
+}
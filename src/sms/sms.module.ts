@@ -0,0 +1,61 @@
+import { Module, Logger } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { SmsService } from './sms.service';
+import { SmsController } from './sms.controller';
+import { SmsMessage, SmsMessageSchema } from './schemas/sms-message.schema';
+import { SMS_PROVIDER, SmsProvider } from './providers/sms-provider.interface';
+import { LocalSmsProvider } from './providers/local-sms.provider';
+import { SslWirelessSmsProvider } from './providers/ssl-wireless-sms.provider';
+import { TwilioSmsProvider } from './providers/twilio-sms.provider';
+
+/**
+ * Pick the SMS provider from SMS_PROVIDER (local | ssl_wireless | twilio).
+ */
+function createSmsProvider(configService: ConfigService): SmsProvider {
+  const provider = configService.get<string>('SMS_PROVIDER', 'local');
+
+  switch (provider) {
+    case 'ssl_wireless':
+      return new SslWirelessSmsProvider({
+        apiToken: configService.getOrThrow<string>('SSL_WIRELESS_API_TOKEN'),
+        sid: configService.getOrThrow<string>('SSL_WIRELESS_SID'),
+        baseUrl: configService.get<string>(
+          'SSL_WIRELESS_BASE_URL',
+          'https://smsplus.sslwireless.com',
+        ),
+      });
+    case 'twilio':
+      return new TwilioSmsProvider({
+        accountSid: configService.getOrThrow<string>('TWILIO_ACCOUNT_SID'),
+        authToken: configService.getOrThrow<string>('TWILIO_AUTH_TOKEN'),
+        fromNumber: configService.getOrThrow<string>('TWILIO_FROM_NUMBER'),
+        statusCallbackUrl: configService.get<string>('TWILIO_STATUS_CALLBACK_URL'),
+      });
+    case 'local':
+      return new LocalSmsProvider(configService.get<string>('SMS_LOCAL_OUTBOX_FILE'));
+    default:
+      new Logger('SmsModule').warn(`Unknown SMS_PROVIDER "${provider}", using local`);
+      return new LocalSmsProvider(configService.get<string>('SMS_LOCAL_OUTBOX_FILE'));
+  }
+}
+
+/**
+ * SMS module - pluggable SMS gateway for OTPs and customer notifications.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: SmsMessage.name, schema: SmsMessageSchema }]),
+  ],
+  controllers: [SmsController],
+  providers: [
+    SmsService,
+    {
+      provide: SMS_PROVIDER,
+      useFactory: createSmsProvider,
+      inject: [ConfigService],
+    },
+  ],
+  exports: [SmsService], // Export for use in Auth and Orders modules
+})
+export class SmsModule {}
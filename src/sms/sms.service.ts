@@ -0,0 +1,186 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { SmsMessage, SmsMessageDocument } from './schemas/sms-message.schema';
+import { SmsStatus } from './enums/sms-status.enum';
+import { SMS_PROVIDER, SmsProvider } from './providers/sms-provider.interface';
+import {
+  SmsTemplate,
+  SmsTemplateParams,
+  SENSITIVE_SMS_TEMPLATES,
+  renderSmsTemplate,
+} from './templates/sms-templates';
+import { Language } from '../users/enums/language.enum';
+
+/**
+ * SMS service - renders templates, sends through the configured provider
+ * with retries, and tracks delivery status.
+ */
+@Injectable()
+export class SmsService {
+  private readonly logger = new Logger(SmsService.name);
+
+  constructor(
+    @InjectModel(SmsMessage.name) private smsMessageModel: Model<SmsMessageDocument>,
+    @Inject(SMS_PROVIDER) private provider: SmsProvider,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Whether the active provider is a local stand-in (no real SMS is sent).
+   */
+  isLocalProvider(): boolean {
+    return this.provider.isLocal;
+  }
+
+  /**
+   * Language used when the recipient has no preference.
+   */
+  getDefaultLanguage(): Language {
+    const language = this.configService.get<string>('SMS_DEFAULT_LANGUAGE', Language.BN);
+    return language === Language.EN ? Language.EN : Language.BN;
+  }
+
+  /**
+   * Render and send a templated message.
+   */
+  async sendTemplate(
+    to: string,
+    template: SmsTemplate,
+    params: SmsTemplateParams,
+    options: { language?: Language; context?: Record<string, unknown> } = {},
+  ): Promise<SmsMessageDocument> {
+    const language = options.language || this.getDefaultLanguage();
+    const body = renderSmsTemplate(template, language, params);
+
+    return this.send(to, body, {
+      template,
+      language,
+      context: options.context,
+      redact: SENSITIVE_SMS_TEMPLATES.includes(template),
+    });
+  }
+
+  /**
+   * Send a raw message, retrying transient provider failures.
+   * Resolves with the message log entry; check `status` for the outcome.
+   */
+  async send(
+    to: string,
+    body: string,
+    options: {
+      template?: string;
+      language?: Language;
+      context?: Record<string, unknown>;
+      redact?: boolean;
+    } = {},
+  ): Promise<SmsMessageDocument> {
+    const message = await this.smsMessageModel.create({
+      to,
+      body: options.redact ? '[redacted]' : body,
+      template: options.template,
+      language: options.language,
+      provider: this.provider.name,
+      status: SmsStatus.QUEUED,
+      context: options.context,
+    });
+
+    const maxRetries = Number(this.configService.get('SMS_MAX_RETRIES', 2));
+    const baseDelayMs = Number(this.configService.get('SMS_RETRY_DELAY_MS', 500));
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      message.attempts = attempt + 1;
+      try {
+        const result = await this.provider.send(to, body, message._id.toString());
+        message.status = result.status;
+        message.providerMessageId = result.providerMessageId || '';
+        message.sentAt = new Date();
+        if (result.status === SmsStatus.DELIVERED) {
+          message.deliveredAt = new Date();
+        }
+        message.lastError = undefined as unknown as string;
+        break;
+      } catch (error) {
+        message.lastError = error instanceof Error ? error.message : String(error);
+        message.status = SmsStatus.FAILED;
+        this.logger.warn(
+          `SMS to ${to} failed (attempt ${attempt + 1}/${maxRetries + 1}): ${message.lastError}`,
+        );
+        if (attempt < maxRetries) {
+          await new Promise((resolve) => setTimeout(resolve, baseDelayMs * 2 ** attempt));
+        }
+      }
+    }
+
+    return message.save();
+  }
+
+  /**
+   * Apply a delivery report callback from the provider.
+   * Returns false if the payload was not recognised.
+   */
+  async handleDeliveryReport(
+    providerName: string,
+    payload: Record<string, unknown>,
+  ): Promise<boolean> {
+    if (providerName !== this.provider.name) {
+      return false;
+    }
+
+    const report = this.provider.parseDeliveryReport(payload);
+    if (!report) {
+      return false;
+    }
+
+    const update: Record<string, unknown> = { status: report.status };
+    if (report.status === SmsStatus.DELIVERED) {
+      update.deliveredAt = new Date();
+    }
+    if (report.error) {
+      update.lastError = report.error;
+    }
+
+    // Never downgrade a delivered message on out-of-order callbacks
+    await this.smsMessageModel.updateOne(
+      {
+        provider: providerName,
+        providerMessageId: report.providerMessageId,
+        status: { $ne: SmsStatus.DELIVERED },
+      },
+      { $set: update },
+    );
+
+    return true;
+  }
+
+  /**
+   * List sent messages (admin).
+   */
+  async getMessages(
+    filters: { to?: string; status?: SmsStatus },
+    page = 1,
+    limit = 20,
+  ): Promise<{
+    messages: SmsMessageDocument[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    const query: Record<string, unknown> = {};
+    if (filters.to) query.to = filters.to;
+    if (filters.status) query.status = filters.status;
+
+    const total = await this.smsMessageModel.countDocuments(query);
+    const totalPages = Math.ceil(total / limit);
+
+    const messages = await this.smsMessageModel
+      .find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .exec();
+
+    return { messages, total, page, totalPages };
+  }
+}
@@ -0,0 +1,82 @@
+import { Language } from '../../users/enums/language.enum';
+
+/**
+ * Available SMS templates.
+ */
+export enum SmsTemplate {
+  OTP = 'otp',
+  ORDER_STATUS = 'order_status',
+  STAFF_INVITATION = 'staff_invitation',
+  HANDOFF_CODE = 'handoff_code',
+  PICKUP_COUNT = 'pickup_count',
+  DELIVERY_FAILED = 'delivery_failed',
+}
+
+/**
+ * Template parameter value. Localized values are resolved to the
+ * message language before rendering.
+ */
+export type SmsParamValue = string | number | Record<Language, string>;
+
+export type SmsTemplateParams = Record<string, SmsParamValue>;
+
+type TemplateRenderer = (params: Record<string, string>) => string;
+
+/**
+ * Message bodies per template and language.
+ * Keep them short - Bangla text uses UCS-2 (70 characters per SMS segment).
+ */
+const SMS_TEMPLATES: Record<SmsTemplate, Record<Language, TemplateRenderer>> = {
+  [SmsTemplate.OTP]: {
+    [Language.EN]: (p) =>
+      `Your LaundryBD code is ${p.code}. It expires in ${p.minutes} minutes. Do not share it.`,
+    [Language.BN]: (p) =>
+      `আপনার LaundryBD কোড ${p.code}। ${p.minutes} মিনিটের মধ্যে ব্যবহার করুন। কাউকে জানাবেন না।`,
+  },
+  [SmsTemplate.ORDER_STATUS]: {
+    [Language.EN]: (p) => `LaundryBD: Your order ${p.orderRef} is now ${p.status}.`,
+    [Language.BN]: (p) => `LaundryBD: আপনার অর্ডার ${p.orderRef} এখন ${p.status}।`,
+  },
+  [SmsTemplate.STAFF_INVITATION]: {
+    [Language.EN]: (p) =>
+      `You have been invited to LaundryBD as ${p.role}. Log in to the app with this number to accept.`,
+    [Language.BN]: (p) =>
+      `আপনাকে LaundryBD-তে ${p.role} হিসেবে আমন্ত্রণ জানানো হয়েছে। গ্রহণ করতে এই নম্বর দিয়ে অ্যাপে লগইন করুন।`,
+  },
+  [SmsTemplate.HANDOFF_CODE]: {
+    [Language.EN]: (p) =>
+      `LaundryBD: Order ${p.orderRef} is on its way. Give code ${p.code} to the rider only after you receive it.`,
+    [Language.BN]: (p) =>
+      `LaundryBD: অর্ডার ${p.orderRef} আসছে। হাতে পাওয়ার পরই রাইডারকে কোড ${p.code} দিন।`,
+  },
+  [SmsTemplate.PICKUP_COUNT]: {
+    [Language.EN]: (p) =>
+      `LaundryBD: We collected ${p.count} items for order ${p.orderRef}. New total ${p.total} BDT. Please accept it in the app.`,
+    [Language.BN]: (p) =>
+      `LaundryBD: অর্ডার ${p.orderRef} এর ${p.count}টি কাপড় সংগ্রহ করা হয়েছে। নতুন মোট ${p.total} টাকা। অ্যাপে গ্রহণ করুন।`,
+  },
+  [SmsTemplate.DELIVERY_FAILED]: {
+    [Language.EN]: (p) => `LaundryBD: We could not deliver order ${p.orderRef}. ${p.nextStep}`,
+    [Language.BN]: (p) => `LaundryBD: অর্ডার ${p.orderRef} ডেলিভারি করা যায়নি। ${p.nextStep}`,
+  },
+};
+
+/**
+ * Templates whose rendered body must not be stored in the SMS log.
+ */
+export const SENSITIVE_SMS_TEMPLATES: SmsTemplate[] = [SmsTemplate.OTP, SmsTemplate.HANDOFF_CODE];
+
+/**
+ * Render a template in the given language.
+ */
+export function renderSmsTemplate(
+  template: SmsTemplate,
+  language: Language,
+  params: SmsTemplateParams,
+): string {
+  const resolved: Record<string, string> = {};
+  for (const [key, value] of Object.entries(params)) {
+    resolved[key] = typeof value === 'object' ? value[language] : String(value);
+  }
+  return SMS_TEMPLATES[template][language](resolved);
+}
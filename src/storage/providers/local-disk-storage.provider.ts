@@ -0,0 +1,59 @@
+import { createReadStream } from 'fs';
+import { mkdir, writeFile, stat, unlink } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { StorageProvider } from './storage-provider.interface';
+
+export interface LocalDiskStorageConfig {
+  rootDir: string;
+}
+
+/**
+ * Local disk storage - keeps files under a directory on this server.
+ * Suitable for a single instance; use a shared backend when scaling out.
+ */
+export class LocalDiskStorageProvider implements StorageProvider {
+  readonly name = 'local';
+  private readonly rootDir: string;
+
+  constructor(config: LocalDiskStorageConfig) {
+    this.rootDir = resolve(config.rootDir);
+  }
+
+  /**
+   * Absolute path for a key, refusing anything that escapes the root.
+   */
+  private resolvePath(key: string): string {
+    const path = resolve(this.rootDir, key);
+    if (!path.startsWith(this.rootDir + sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return path;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const path = this.resolvePath(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const path = this.resolvePath(key);
+    try {
+      await stat(path);
+    } catch {
+      return null;
+    }
+    return createReadStream(path);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolvePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+}
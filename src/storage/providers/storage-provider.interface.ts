@@ -0,0 +1,29 @@
+import { Readable } from 'stream';
+
+/**
+ * Injection token for the active storage backend.
+ */
+export const STORAGE_PROVIDER = 'STORAGE_PROVIDER';
+
+/**
+ * Contract every file storage backend implements.
+ * Keys are slash-separated relative paths (e.g. "orders/<id>/<file>.jpg").
+ */
+export interface StorageProvider {
+  readonly name: string;
+
+  /**
+   * Store a file under a key, replacing any existing one.
+   */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Open a stored file, or null when the key does not exist.
+   */
+  get(key: string): Promise<Readable | null>;
+
+  /**
+   * Delete a stored file. Missing keys are ignored.
+   */
+  delete(key: string): Promise<void>;
+}
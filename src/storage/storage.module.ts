@@ -0,0 +1,40 @@
+import { Module, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StorageService } from './storage.service';
+import { STORAGE_PROVIDER, StorageProvider } from './providers/storage-provider.interface';
+import { LocalDiskStorageProvider } from './providers/local-disk-storage.provider';
+
+/**
+ * Pick the storage backend from STORAGE_PROVIDER (local).
+ */
+function createStorageProvider(configService: ConfigService): StorageProvider {
+  const provider = configService.get<string>('STORAGE_PROVIDER', 'local');
+
+  switch (provider) {
+    case 'local':
+      return new LocalDiskStorageProvider({
+        rootDir: configService.get<string>('STORAGE_LOCAL_DIR', 'uploads'),
+      });
+    default:
+      new Logger('StorageModule').warn(`Unknown STORAGE_PROVIDER "${provider}", using local`);
+      return new LocalDiskStorageProvider({
+        rootDir: configService.get<string>('STORAGE_LOCAL_DIR', 'uploads'),
+      });
+  }
+}
+
+/**
+ * Storage module - pluggable file storage for uploads.
+ */
+@Module({
+  providers: [
+    StorageService,
+    {
+      provide: STORAGE_PROVIDER,
+      useFactory: createStorageProvider,
+      inject: [ConfigService],
+    },
+  ],
+  exports: [StorageService], // Export for use in Orders module
+})
+export class StorageModule {}
@@ -0,0 +1,109 @@
+import { Injectable, Inject, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Readable } from 'stream';
+import { randomUUID } from 'crypto';
+import { STORAGE_PROVIDER, StorageProvider } from './providers/storage-provider.interface';
+
+/**
+ * Largest accepted upload, in bytes.
+ */
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Accepted image types and the extension they are stored with.
+ */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+/**
+ * An uploaded file as parsed by multer (memory storage).
+ */
+export interface UploadedFileData {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+/**
+ * Reference to a stored file, kept on the owning document.
+ */
+export interface StoredFile {
+  key: string;
+  contentType: string;
+  size: number;
+}
+
+/**
+ * Storage service - validates uploads and keeps them in the configured
+ * storage backend.
+ */
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
+
+  constructor(@Inject(STORAGE_PROVIDER) private provider: StorageProvider) {}
+
+  /**
+   * Store an uploaded image under a key prefix.
+   */
+  async saveImage(file: UploadedFileData, prefix: string): Promise<StoredFile> {
+    const extension = IMAGE_EXTENSIONS[file.mimetype];
+    if (!extension) {
+      throw new BadRequestException(
+        `${file.originalname} must be a JPEG, PNG or WebP image`,
+      );
+    }
+    if (file.size === 0 || file.size > MAX_UPLOAD_BYTES) {
+      throw new BadRequestException(
+        `${file.originalname} must be between 1 byte and ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`,
+      );
+    }
+
+    const key = `${prefix}/${randomUUID()}.${extension}`;
+    await this.provider.put(key, file.buffer, file.mimetype);
+    return { key, contentType: file.mimetype, size: file.size };
+  }
+
+  /**
+   * Store several images, removing the ones already stored if any fails.
+   */
+  async saveImages(files: UploadedFileData[], prefix: string): Promise<StoredFile[]> {
+    const stored: StoredFile[] = [];
+    try {
+      for (const file of files) {
+        stored.push(await this.saveImage(file, prefix));
+      }
+    } catch (error) {
+      await this.removeAll(stored.map((file) => file.key));
+      throw error;
+    }
+    return stored;
+  }
+
+  /**
+   * Open a stored file or fail.
+   */
+  async open(key: string): Promise<Readable> {
+    const stream = await this.provider.get(key);
+    if (!stream) {
+      throw new NotFoundException('File not found');
+    }
+    return stream;
+  }
+
+  /**
+   * Delete stored files. Best-effort: failures are only logged.
+   */
+  async removeAll(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      try {
+        await this.provider.delete(key);
+      } catch (error) {
+        this.logger.warn(`Deleting ${key} from ${this.provider.name} storage failed: ${error}`);
+      }
+    }
+  }
+}
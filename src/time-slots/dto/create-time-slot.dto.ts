@@ -0,0 +1,69 @@
+import {
+  IsEnum,
+  IsInt,
+  IsArray,
+  Matches,
+  Min,
+  ValidateNested,
+  ArrayMinSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { SlotType } from '../enums/slot-type.enum';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class SlotWindowDto {
+  @ApiProperty({ description: 'Start time (HH:mm, Dhaka time)', example: '09:00' })
+  @Matches(TIME_PATTERN, { message: 'startTime must be in HH:mm format' })
+  startTime: string;
+
+  @ApiProperty({ description: 'End time (HH:mm, Dhaka time)', example: '11:00' })
+  @Matches(TIME_PATTERN, { message: 'endTime must be in HH:mm format' })
+  endTime: string;
+}
+
+export class CreateTimeSlotDto extends SlotWindowDto {
+  @ApiProperty({ enum: SlotType, example: SlotType.PICKUP })
+  @IsEnum(SlotType)
+  type: SlotType;
+
+  @ApiProperty({ description: 'Date (YYYY-MM-DD, Dhaka time)', example: '2024-01-15' })
+  @Matches(DATE_PATTERN, { message: 'date must be in YYYY-MM-DD format' })
+  date: string;
+
+  @ApiProperty({ description: 'Number of orders that can book this slot', example: 10 })
+  @IsInt()
+  @Min(0)
+  capacity: number;
+}
+
+/**
+ * DTO for generating the same windows across a range of days.
+ */
+export class CreateTimeSlotsBulkDto {
+  @ApiProperty({ enum: SlotType, example: SlotType.PICKUP })
+  @IsEnum(SlotType)
+  type: SlotType;
+
+  @ApiProperty({ description: 'First date (YYYY-MM-DD)', example: '2024-01-15' })
+  @Matches(DATE_PATTERN, { message: 'fromDate must be in YYYY-MM-DD format' })
+  fromDate: string;
+
+  @ApiProperty({ description: 'Last date, inclusive (YYYY-MM-DD)', example: '2024-01-21' })
+  @Matches(DATE_PATTERN, { message: 'toDate must be in YYYY-MM-DD format' })
+  toDate: string;
+
+  @ApiProperty({ type: [SlotWindowDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => SlotWindowDto)
+  windows: SlotWindowDto[];
+
+  @ApiProperty({ description: 'Capacity for each generated slot', example: 10 })
+  @IsInt()
+  @Min(0)
+  capacity: number;
+}
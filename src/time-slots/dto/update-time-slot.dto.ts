@@ -0,0 +1,15 @@
+import { IsInt, IsOptional, IsBoolean, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateTimeSlotDto {
+  @ApiPropertyOptional({ description: 'New capacity (cannot go below booked count)', example: 12 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  capacity?: number;
+
+  @ApiPropertyOptional({ description: 'Open or close the slot for booking' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,8 @@
+/**
+ * Time slot type.
+ * Pickup and delivery slots are managed and booked separately.
+ */
+export enum SlotType {
+  PICKUP = 'pickup',
+  DELIVERY = 'delivery',
+}
@@ -0,0 +1,72 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { SlotType } from '../enums/slot-type.enum';
+
+export type TimeSlotDocument = TimeSlot & Document;
+
+/**
+ * Time slot schema.
+ * A bookable pickup or delivery window on a given day. Capacity is the
+ * number of orders riders can handle in the window.
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      ret.remainingCapacity = Math.max(
+        0,
+        (ret.capacity as number) - (ret.bookedCount as number),
+      );
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class TimeSlot {
+  @Prop({
+    type: String,
+    enum: SlotType,
+    required: true,
+  })
+  type: SlotType;
+
+  // Local Dhaka date (YYYY-MM-DD)
+  @Prop({ type: String, required: true })
+  date: string;
+
+  // Local Dhaka wall-clock times (HH:mm)
+  @Prop({ type: String, required: true })
+  startTime: string;
+
+  @Prop({ type: String, required: true })
+  endTime: string;
+
+  // Absolute window boundaries, derived from date + times
+  @Prop({ type: Date, required: true })
+  startsAt: Date;
+
+  @Prop({ type: Date, required: true })
+  endsAt: Date;
+
+  @Prop({ type: Number, required: true, min: 0 })
+  capacity: number;
+
+  @Prop({ type: Number, default: 0, min: 0 })
+  bookedCount: number;
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const TimeSlotSchema = SchemaFactory.createForClass(TimeSlot);
+
+// Indexes
+TimeSlotSchema.index({ type: 1, startsAt: 1 }, { unique: true });
+TimeSlotSchema.index({ type: 1, date: 1, isActive: 1 });
@@ -0,0 +1,110 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { TimeSlotsService } from './time-slots.service';
+import { CreateTimeSlotDto, CreateTimeSlotsBulkDto } from './dto/create-time-slot.dto';
+import { UpdateTimeSlotDto } from './dto/update-time-slot.dto';
+import { SlotType } from './enums/slot-type.enum';
+import { JwtAuthGuard, RolesGuard, Roles, Public } from '../common';
+import { UserRole } from '../users/enums/user-role.enum';
+
+/**
+ * Time slots controller - pickup/delivery windows.
+ */
+@ApiTags('Time Slots')
+@Controller('time-slots')
+export class TimeSlotsController {
+  constructor(private readonly timeSlotsService: TimeSlotsService) {}
+
+  /**
+   * Get bookable slots for a day (public).
+   */
+  @Get('available')
+  @Public()
+  @ApiOperation({ summary: 'Get available slots for a day' })
+  @ApiQuery({ name: 'type', required: true, enum: SlotType })
+  @ApiQuery({ name: 'date', required: true, example: '2024-01-15' })
+  @ApiResponse({ status: 200, description: 'Slots with remaining capacity' })
+  async getAvailableSlots(@Query('type') type: SlotType, @Query('date') date: string) {
+    if (!Object.values(SlotType).includes(type) || !/^\d{4}-\d{2}-\d{2}$/.test(date || '')) {
+      throw new BadRequestException('Valid type and date (YYYY-MM-DD) are required');
+    }
+    return this.timeSlotsService.getAvailableSlots(type, date);
+  }
+
+  /**
+   * Get all slots in a date range (admin only).
+   */
+  @Get()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get slots with bookings (Admin only)' })
+  @ApiQuery({ name: 'type', required: false, enum: SlotType })
+  @ApiQuery({ name: 'from', required: false, example: '2024-01-15' })
+  @ApiQuery({ name: 'to', required: false, example: '2024-01-21' })
+  @ApiResponse({ status: 200, description: 'List of slots' })
+  async getSlots(
+    @Query('type') type?: SlotType,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    return this.timeSlotsService.getSlots(type, from, to);
+  }
+
+  /**
+   * Create a slot (admin only).
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Create time slot (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Slot created' })
+  @ApiResponse({ status: 409, description: 'Slot already exists' })
+  async createSlot(@Body() dto: CreateTimeSlotDto) {
+    return this.timeSlotsService.createSlot(dto);
+  }
+
+  /**
+   * Generate slots for a date range (admin only).
+   */
+  @Post('bulk')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Generate time slots for a date range (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Slots generated' })
+  async createSlotsBulk(@Body() dto: CreateTimeSlotsBulkDto) {
+    return this.timeSlotsService.createSlotsBulk(dto);
+  }
+
+  /**
+   * Update slot capacity or availability (admin only).
+   */
+  @Patch(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Update time slot (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Slot updated' })
+  @ApiResponse({ status: 404, description: 'Slot not found' })
+  async updateSlot(@Param('id') id: string, @Body() dto: UpdateTimeSlotDto) {
+    return this.timeSlotsService.updateSlot(id, dto);
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { TimeSlotsService } from './time-slots.service';
+import { TimeSlotsController } from './time-slots.controller';
+import { TimeSlot, TimeSlotSchema } from './schemas/time-slot.schema';
+
+/**
+ * Time slots module - pickup/delivery windows with capacity limits.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: TimeSlot.name, schema: TimeSlotSchema }]),
+  ],
+  controllers: [TimeSlotsController],
+  providers: [TimeSlotsService],
+  exports: [TimeSlotsService], // Export for use in Orders module
+})
+export class TimeSlotsModule {}
@@ -0,0 +1,290 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { TimeSlot, TimeSlotDocument } from './schemas/time-slot.schema';
+import { CreateTimeSlotDto, CreateTimeSlotsBulkDto } from './dto/create-time-slot.dto';
+import { UpdateTimeSlotDto } from './dto/update-time-slot.dto';
+import { SlotType } from './enums/slot-type.enum';
+import { toDhakaDate, toDhakaDateString } from '../common/utils/date.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_BULK_DAYS = 62;
+
+/**
+ * Time slots service - admin-defined pickup/delivery windows and
+ * capacity-safe booking.
+ */
+@Injectable()
+export class TimeSlotsService {
+  constructor(
+    @InjectModel(TimeSlot.name) private timeSlotModel: Model<TimeSlotDocument>,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Slots starting before this moment can no longer be booked.
+   */
+  private getBookingCutoff(): Date {
+    const leadMinutes = Number(this.configService.get('SLOT_BOOKING_LEAD_MINUTES', 60));
+    return new Date(Date.now() + leadMinutes * 60 * 1000);
+  }
+
+  /**
+   * Resolve absolute start/end for a window, rejecting inverted ranges.
+   */
+  private resolveWindow(date: string, startTime: string, endTime: string) {
+    const startsAt = toDhakaDate(date, startTime);
+    const endsAt = toDhakaDate(date, endTime);
+    if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) {
+      throw new BadRequestException(`Invalid date ${date}`);
+    }
+    if (endsAt <= startsAt) {
+      throw new BadRequestException('endTime must be after startTime');
+    }
+    return { startsAt, endsAt };
+  }
+
+  // ========== Admin ==========
+
+  /**
+   * Create a single slot (admin only).
+   */
+  async createSlot(dto: CreateTimeSlotDto): Promise<TimeSlotDocument> {
+    const { startsAt, endsAt } = this.resolveWindow(dto.date, dto.startTime, dto.endTime);
+
+    const existing = await this.timeSlotModel.findOne({ type: dto.type, startsAt }).exec();
+    if (existing) {
+      throw new ConflictException('A slot already starts at this time');
+    }
+
+    return this.timeSlotModel.create({ ...dto, startsAt, endsAt });
+  }
+
+  /**
+   * Create the same windows for every day in a date range (admin only).
+   * Existing slots are left untouched.
+   */
+  async createSlotsBulk(dto: CreateTimeSlotsBulkDto): Promise<{ created: number; skipped: number }> {
+    const from = toDhakaDate(dto.fromDate, '00:00');
+    const to = toDhakaDate(dto.toDate, '00:00');
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to < from) {
+      throw new BadRequestException('Invalid date range');
+    }
+
+    const days = Math.round((to.getTime() - from.getTime()) / DAY_MS) + 1;
+    if (days > MAX_BULK_DAYS) {
+      throw new BadRequestException(`Date range cannot exceed ${MAX_BULK_DAYS} days`);
+    }
+
+    let created = 0;
+    let skipped = 0;
+
+    for (let i = 0; i < days; i++) {
+      const date = toDhakaDateString(new Date(from.getTime() + i * DAY_MS));
+
+      for (const window of dto.windows) {
+        const { startsAt, endsAt } = this.resolveWindow(date, window.startTime, window.endTime);
+        const result = await this.timeSlotModel.updateOne(
+          { type: dto.type, startsAt },
+          {
+            $setOnInsert: {
+              type: dto.type,
+              date,
+              startTime: window.startTime,
+              endTime: window.endTime,
+              startsAt,
+              endsAt,
+              capacity: dto.capacity,
+              bookedCount: 0,
+              isActive: true,
+            },
+          },
+          { upsert: true },
+        );
+        if (result.upsertedCount > 0) {
+          created++;
+        } else {
+          skipped++;
+        }
+      }
+    }
+
+    return { created, skipped };
+  }
+
+  /**
+   * Change capacity or open/close a slot (admin only).
+   */
+  async updateSlot(slotId: string, dto: UpdateTimeSlotDto): Promise<TimeSlotDocument> {
+    const slot = Types.ObjectId.isValid(slotId)
+      ? await this.timeSlotModel.findById(slotId).exec()
+      : null;
+    if (!slot) {
+      throw new NotFoundException('Time slot not found');
+    }
+
+    if (dto.capacity !== undefined) {
+      if (dto.capacity < slot.bookedCount) {
+        throw new BadRequestException(
+          `Capacity cannot be lower than current bookings (${slot.bookedCount})`,
+        );
+      }
+      slot.capacity = dto.capacity;
+    }
+
+    if (dto.isActive !== undefined) {
+      slot.isActive = dto.isActive;
+    }
+
+    return slot.save();
+  }
+
+  /**
+   * List all slots in a date range with booking counts (admin only).
+   */
+  async getSlots(type?: SlotType, fromDate?: string, toDate?: string): Promise<TimeSlotDocument[]> {
+    const query: Record<string, unknown> = {};
+    if (type) query.type = type;
+    if (fromDate || toDate) {
+      const range: Record<string, string> = {};
+      if (fromDate) range.$gte = fromDate;
+      if (toDate) range.$lte = toDate;
+      query.date = range;
+    }
+
+    return this.timeSlotModel.find(query).sort({ startsAt: 1 }).limit(500).exec();
+  }
+
+  // ========== Booking ==========
+
+  /**
+   * Slots that can still be booked on a given day.
+   */
+  async getAvailableSlots(type: SlotType, date: string): Promise<TimeSlotDocument[]> {
+    return this.timeSlotModel
+      .find({
+        type,
+        date,
+        isActive: true,
+        startsAt: { $gt: this.getBookingCutoff() },
+        $expr: { $lt: ['$bookedCount', '$capacity'] },
+      })
+      .sort({ startsAt: 1 })
+      .exec();
+  }
+
+  /**
+   * Whether any slot of a type can still be booked, i.e. bookings are
+   * expected to pick one.
+   */
+  async hasUpcomingSlots(type: SlotType): Promise<boolean> {
+    const slot = await this.timeSlotModel
+      .exists({ type, isActive: true, startsAt: { $gt: this.getBookingCutoff() } })
+      .exec();
+    return !!slot;
+  }
+
+  /**
+   * Get a slot by ID.
+   */
+  async getSlotById(slotId: string): Promise<TimeSlotDocument> {
+    const slot = Types.ObjectId.isValid(slotId)
+      ? await this.timeSlotModel.findById(slotId).exec()
+      : null;
+    if (!slot) {
+      throw new NotFoundException('Time slot not found');
+    }
+    return slot;
+  }
+
+  /**
+   * Atomically take one place in a slot.
+   * Fails if the slot is full, closed, of the wrong type or too soon.
+   */
+  async reserve(slotId: string, type: SlotType): Promise<TimeSlotDocument> {
+    const slot = await this.getSlotById(slotId);
+    const cutoff = this.getBookingCutoff();
+
+    if (slot.type !== type) {
+      throw new BadRequestException(`Selected slot is not a ${type} slot`);
+    }
+    if (!slot.isActive) {
+      throw new BadRequestException('Selected slot is not available');
+    }
+    if (slot.startsAt <= cutoff) {
+      throw new BadRequestException('Selected slot is in the past or too soon to book');
+    }
+
+    const reserved = await this.timeSlotModel
+      .findOneAndUpdate(
+        {
+          _id: slot._id,
+          isActive: true,
+          $expr: { $lt: ['$bookedCount', '$capacity'] },
+        },
+        { $inc: { bookedCount: 1 } },
+        { new: true },
+      )
+      .exec();
+
+    if (!reserved) {
+      throw new ConflictException('Selected slot is fully booked');
+    }
+
+    return reserved;
+  }
+
+  /**
+   * Reserve the slot whose window contains the given time.
+   */
+  async reserveCovering(type: SlotType, time: Date): Promise<TimeSlotDocument> {
+    const slot = await this.timeSlotModel
+      .findOne({
+        type,
+        isActive: true,
+        startsAt: { $lte: time },
+        endsAt: { $gt: time },
+      })
+      .exec();
+
+    if (!slot) {
+      throw new BadRequestException(`No ${type} slot is available at the requested time`);
+    }
+
+    return this.reserve(slot._id.toString(), type);
+  }
+
+  /**
+   * Take back a place that was released, e.g. when an admin undoes a
+   * cancellation. Skips the booking cutoff but still respects capacity;
+   * returns null if the slot has filled up since.
+   */
+  async restore(slotId: Types.ObjectId | string): Promise<TimeSlotDocument | null> {
+    return this.timeSlotModel
+      .findOneAndUpdate(
+        { _id: slotId, $expr: { $lt: ['$bookedCount', '$capacity'] } },
+        { $inc: { bookedCount: 1 } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Give back a place taken by reserve().
+   */
+  async release(slotId: Types.ObjectId | string | undefined | null): Promise<void> {
+    if (!slotId) {
+      return;
+    }
+    await this.timeSlotModel.updateOne(
+      { _id: slotId, bookedCount: { $gt: 0 } },
+      { $inc: { bookedCount: -1 } },
+    );
+  }
+}
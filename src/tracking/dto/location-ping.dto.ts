@@ -0,0 +1,47 @@
+import {
+  IsLatitude,
+  IsLongitude,
+  IsNumber,
+  IsOptional,
+  IsDateString,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class LocationPingDto {
+  @ApiProperty({ example: 23.7461 })
+  @IsLatitude()
+  lat: number;
+
+  @ApiProperty({ example: 90.3742 })
+  @IsLongitude()
+  lng: number;
+
+  @ApiPropertyOptional({ description: 'Accuracy in metres', example: 12 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  accuracy?: number;
+
+  @ApiPropertyOptional({ description: 'Heading in degrees from north', example: 90 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(360)
+  heading?: number;
+
+  @ApiPropertyOptional({ description: 'Speed in metres per second', example: 4.2 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  speed?: number;
+
+  @ApiPropertyOptional({
+    description: 'When the device took the fix (defaults to now)',
+    example: '2024-01-15T10:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  recordedAt?: string;
+}
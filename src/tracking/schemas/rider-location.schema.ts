@@ -0,0 +1,68 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type RiderLocationDocument = RiderLocation & Document;
+
+/**
+ * Rider location ping schema.
+ * Sent by the rider app while carrying orders; kept only for the
+ * retention window (LOCATION_RETENTION_HOURS), then dropped by MongoDB.
+ */
+@Schema({
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      delete ret.expiresAt;
+      return ret;
+    },
+  },
+})
+export class RiderLocation {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  rider: Types.ObjectId;
+
+  // Orders the rider was carrying when the ping was sent
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Order' }], required: true })
+  orders: Types.ObjectId[];
+
+  @Prop({ type: Number, required: true })
+  lat: number;
+
+  @Prop({ type: Number, required: true })
+  lng: number;
+
+  // Metres, as reported by the device
+  @Prop({ type: Number })
+  accuracy?: number;
+
+  // Degrees from north
+  @Prop({ type: Number })
+  heading?: number;
+
+  // Metres per second
+  @Prop({ type: Number })
+  speed?: number;
+
+  // Device time of the fix
+  @Prop({ type: Date, required: true })
+  recordedAt: Date;
+
+  @Prop({ type: Date, required: true })
+  expiresAt: Date;
+
+  // Timestamp added by Mongoose
+  createdAt: Date;
+}
+
+export const RiderLocationSchema = SchemaFactory.createForClass(RiderLocation);
+
+// Indexes
+RiderLocationSchema.index({ orders: 1, recordedAt: -1 });
+RiderLocationSchema.index({ rider: 1, recordedAt: -1 });
+
+// Let MongoDB drop pings after the retention window
+RiderLocationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
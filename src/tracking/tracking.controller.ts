@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { TrackingService } from './tracking.service';
+import { LocationPingDto } from './dto/location-ping.dto';
+import { JwtAuthGuard, RolesGuard, CurrentUser, Roles } from '../common';
+import { UserRole } from '../users/enums/user-role.enum';
+import { UserDocument } from '../users/schemas/user.schema';
+
+/**
+ * Tracking controller - rider location and delivery ETA.
+ */
+@ApiTags('Tracking')
+@ApiBearerAuth('JWT-auth')
+@Controller('tracking')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class TrackingController {
+  constructor(private readonly trackingService: TrackingService) {}
+
+  /**
+   * Send a location ping while carrying orders (rider).
+   */
+  @Post('pings')
+  @Roles(UserRole.DELIVERY)
+  @ApiOperation({ summary: 'Send location ping (Delivery only)' })
+  @ApiResponse({ status: 201, description: 'Ping recorded against orders in transit' })
+  @ApiResponse({ status: 400, description: 'No order in transit' })
+  async recordPing(@CurrentUser('_id') riderId: string, @Body() dto: LocationPingDto) {
+    return this.trackingService.recordPing(riderId, dto);
+  }
+
+  /**
+   * Latest rider position and ETA for an order.
+   */
+  @Get('orders/:orderId')
+  @ApiOperation({ summary: 'Get live rider position and ETA for an order' })
+  @ApiResponse({ status: 200, description: 'Rider position and ETA' })
+  @ApiResponse({ status: 403, description: 'Access denied to this order' })
+  async getOrderTracking(
+    @Param('orderId') orderId: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.trackingService.getOrderTracking(orderId, user);
+  }
+
+  /**
+   * Location history for an order (admin).
+   */
+  @Get('orders/:orderId/history')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get order location history (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Location pings, oldest first' })
+  @ApiResponse({ status: 404, description: 'Invalid order ID' })
+  async getOrderLocationHistory(@Param('orderId') orderId: string) {
+    return this.trackingService.getOrderLocationHistory(orderId);
+  }
+
+  /**
+   * Location history for a rider (admin).
+   */
+  @Get('riders/:riderId/history')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get rider location history (Admin only)' })
+  @ApiQuery({ name: 'from', required: false, example: '2024-01-15T00:00:00Z' })
+  @ApiQuery({ name: 'to', required: false, example: '2024-01-15T23:59:59Z' })
+  @ApiResponse({ status: 200, description: 'Location pings, oldest first' })
+  @ApiResponse({ status: 400, description: 'from or to is not a date-time' })
+  @ApiResponse({ status: 404, description: 'Invalid rider ID' })
+  async getRiderLocationHistory(
+    @Param('riderId') riderId: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      throw new BadRequestException('from and to must be ISO date-times');
+    }
+    return this.trackingService.getRiderLocationHistory(riderId, fromDate, toDate);
+  }
+}
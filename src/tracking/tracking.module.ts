@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { TrackingService } from './tracking.service';
+import { TrackingController } from './tracking.controller';
+import { RiderLocation, RiderLocationSchema } from './schemas/rider-location.schema';
+import { OrdersModule } from '../orders/orders.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+
+/**
+ * Tracking module - live rider location and delivery ETA.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: RiderLocation.name, schema: RiderLocationSchema }]),
+    OrdersModule, // For order access checks and in-transit orders
+    RealtimeModule, // For pushing rider location to subscribers
+  ],
+  controllers: [TrackingController],
+  providers: [TrackingService],
+})
+export class TrackingModule {}
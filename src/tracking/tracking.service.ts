@@ -0,0 +1,230 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { RiderLocation, RiderLocationDocument } from './schemas/rider-location.schema';
+import { LocationPingDto } from './dto/location-ping.dto';
+import { OrdersService } from '../orders/orders.service';
+import { OrderStatus, LEGACY_ORDER_STATUS } from '../orders/enums/order-status.enum';
+import { UserDocument } from '../users/schemas/user.schema';
+import { UserRole } from '../users/enums/user-role.enum';
+import { RealtimeService } from '../realtime/realtime.service';
+import { RealtimeEventType } from '../realtime/enums/realtime-event-type.enum';
+import { haversineDistanceKm } from '../common/utils/geo.util';
+
+/**
+ * Statuses during which the rider is carrying the order.
+ */
+const TRACKABLE_STATUSES = [OrderStatus.PICKED_UP, OrderStatus.OUT_FOR_DELIVERY];
+
+const MAX_HISTORY_POINTS = 5000;
+
+/**
+ * Live tracking view of an order.
+ */
+export interface OrderTracking {
+  orderId: string;
+  status: OrderStatus;
+  detailedStatus: OrderStatus;
+  isTrackable: boolean;
+  rider: { fullName: string; phoneNumber: string } | null;
+  location: {
+    lat: number;
+    lng: number;
+    heading?: number;
+    recordedAt: Date;
+    isStale: boolean;
+  } | null;
+  distanceKm: number | null;
+  etaMinutes: number | null;
+  estimatedArrival: Date | null;
+}
+
+/**
+ * Tracking service - rider location pings, live order position and ETA.
+ */
+@Injectable()
+export class TrackingService {
+  constructor(
+    @InjectModel(RiderLocation.name) private locationModel: Model<RiderLocationDocument>,
+    private ordersService: OrdersService,
+    private realtimeService: RealtimeService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * How long pings are kept, in milliseconds.
+   */
+  private getRetentionMs(): number {
+    const hours = Number(this.configService.get('LOCATION_RETENTION_HOURS', 72));
+    return hours * 60 * 60 * 1000;
+  }
+
+  /**
+   * Estimated minutes to cover a straight-line distance.
+   * Straight-line distance is stretched by ETA_ROUTE_FACTOR to allow for roads.
+   */
+  private estimateMinutes(distanceKm: number): number {
+    const speedKmh = Number(this.configService.get('RIDER_AVG_SPEED_KMH', 18));
+    const routeFactor = Number(this.configService.get('ETA_ROUTE_FACTOR', 1.3));
+    return Math.ceil(((distanceKm * routeFactor) / speedKmh) * 60);
+  }
+
+  // ========== Rider ==========
+
+  /**
+   * Record a location ping for every order the rider is carrying.
+   */
+  async recordPing(
+    riderId: string,
+    dto: LocationPingDto,
+  ): Promise<{ recordedAt: Date; orders: string[] }> {
+    const inTransit = (await this.ordersService.getDeliveryOrders(riderId)).filter((order) =>
+      TRACKABLE_STATUSES.includes(order.status),
+    );
+
+    if (inTransit.length === 0) {
+      throw new BadRequestException('Location is only shared while carrying an order');
+    }
+
+    const now = new Date();
+    const reported = dto.recordedAt ? new Date(dto.recordedAt) : now;
+    // Never trust a device clock that is ahead of ours
+    const recordedAt = reported > now ? now : reported;
+    if (now.getTime() - recordedAt.getTime() > this.getRetentionMs()) {
+      throw new BadRequestException('Location fix is too old');
+    }
+
+    const ping = await this.locationModel.create({
+      rider: new Types.ObjectId(riderId),
+      orders: inTransit.map((order) => order._id),
+      lat: dto.lat,
+      lng: dto.lng,
+      accuracy: dto.accuracy,
+      heading: dto.heading,
+      speed: dto.speed,
+      recordedAt,
+      expiresAt: new Date(recordedAt.getTime() + this.getRetentionMs()),
+    });
+
+    for (const order of inTransit) {
+      this.realtimeService.publishOrderEvent(order, RealtimeEventType.RIDER_LOCATION, {
+        lat: ping.lat,
+        lng: ping.lng,
+        heading: ping.heading,
+        recordedAt: ping.recordedAt,
+      });
+    }
+
+    return {
+      recordedAt: ping.recordedAt,
+      orders: inTransit.map((order) => order._id.toString()),
+    };
+  }
+
+  // ========== Customer ==========
+
+  /**
+   * Latest rider position and ETA for an order.
+   * Same access rules as viewing the order; position is only shown while
+   * the order is with the rider (admins can always see the last ping).
+   */
+  async getOrderTracking(orderId: string, user: UserDocument): Promise<OrderTracking> {
+    const order = await this.ordersService.getOrderById(orderId, user);
+    const isTrackable = TRACKABLE_STATUSES.includes(order.status);
+    const rider = order.deliveryPerson as unknown as UserDocument | undefined;
+
+    const result: OrderTracking = {
+      orderId: order._id.toString(),
+      status: LEGACY_ORDER_STATUS[order.status],
+      detailedStatus: order.status,
+      isTrackable,
+      rider: rider ? { fullName: rider.fullName, phoneNumber: rider.phoneNumber } : null,
+      location: null,
+      distanceKm: null,
+      etaMinutes: null,
+      estimatedArrival: null,
+    };
+
+    if (!isTrackable && user.role !== UserRole.ADMIN) {
+      return result;
+    }
+
+    const latest = await this.locationModel
+      .findOne({ orders: order._id })
+      .sort({ recordedAt: -1 })
+      .exec();
+    if (!latest) {
+      return result;
+    }
+
+    const staleMinutes = Number(this.configService.get('LOCATION_STALE_MINUTES', 10));
+    const isStale = Date.now() - latest.recordedAt.getTime() > staleMinutes * 60 * 1000;
+    result.location = {
+      lat: latest.lat,
+      lng: latest.lng,
+      heading: latest.heading,
+      recordedAt: latest.recordedAt,
+      isStale,
+    };
+
+    // ETA only makes sense on the way to the customer
+    const destination = order.deliveryAddress?.location;
+    if (order.status === OrderStatus.OUT_FOR_DELIVERY && destination && !isStale) {
+      const distanceKm = haversineDistanceKm(latest, destination);
+      const etaMinutes = this.estimateMinutes(distanceKm);
+      result.distanceKm = Math.round(distanceKm * 10) / 10;
+      result.etaMinutes = etaMinutes;
+      result.estimatedArrival = new Date(Date.now() + etaMinutes * 60 * 1000);
+    }
+
+    return result;
+  }
+
+  // ========== Admin ==========
+
+  /**
+   * An order's retained pings, oldest first (admin only).
+   * Capped at the most recent MAX_HISTORY_POINTS.
+   */
+  async getOrderLocationHistory(orderId: string): Promise<RiderLocationDocument[]> {
+    if (!Types.ObjectId.isValid(orderId)) {
+      throw new NotFoundException('Order not found');
+    }
+    const pings = await this.locationModel
+      .find({ orders: new Types.ObjectId(orderId) })
+      .sort({ recordedAt: -1 })
+      .limit(MAX_HISTORY_POINTS)
+      .populate('rider', 'fullName phoneNumber')
+      .exec();
+    return pings.reverse();
+  }
+
+  /**
+   * A rider's retained pings in a time range, oldest first (admin only).
+   * Capped at the most recent MAX_HISTORY_POINTS.
+   */
+  async getRiderLocationHistory(
+    riderId: string,
+    from?: Date,
+    to?: Date,
+  ): Promise<RiderLocationDocument[]> {
+    if (!Types.ObjectId.isValid(riderId)) {
+      throw new NotFoundException('Rider not found');
+    }
+    const query: Record<string, unknown> = { rider: new Types.ObjectId(riderId) };
+    if (from || to) {
+      const range: Record<string, Date> = {};
+      if (from) range.$gte = from;
+      if (to) range.$lte = to;
+      query.recordedAt = range;
+    }
+
+    const pings = await this.locationModel
+      .find(query)
+      .sort({ recordedAt: -1 })
+      .limit(MAX_HISTORY_POINTS)
+      .exec();
+    return pings.reverse();
+  }
+}
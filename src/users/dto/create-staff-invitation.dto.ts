@@ -0,0 +1,41 @@
+import { IsString, IsIn, IsOptional, Matches, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UserRole } from '../enums/user-role.enum';
+
+/**
+ * Roles an admin can invite staff into.
+ */
+export const INVITABLE_ROLES = [UserRole.DELIVERY, UserRole.LAUNDRY_STAFF, UserRole.ADMIN];
+
+/**
+ * DTO for inviting a staff member by phone number.
+ */
+export class CreateStaffInvitationDto {
+  @ApiProperty({
+    description: 'Bangladesh phone number of the invitee',
+    example: '01712345678',
+  })
+  @IsString()
+  @Matches(/^(\+880|0)?1[3-9]\d{8}$/, {
+    message: 'Please provide a valid Bangladesh phone number',
+  })
+  phoneNumber: string;
+
+  @ApiProperty({
+    description: 'Role granted on first login',
+    enum: INVITABLE_ROLES,
+    example: UserRole.DELIVERY,
+  })
+  @IsIn(INVITABLE_ROLES)
+  role: UserRole;
+
+  @ApiPropertyOptional({
+    description: 'Invitee name, used if they have not set up a profile yet',
+    example: 'করিম মিয়া',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  fullName?: string;
+}
@@ -0,0 +1,100 @@
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  ValidateNested,
+  MaxLength,
+  IsNotEmpty,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LocationDto } from '../../geocoding/dto/location.dto';
+
+export class CreateSavedAddressDto {
+  @ApiProperty({ description: 'Label for the address', example: 'Home' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  label: string;
+
+  @ApiProperty({ example: 'House 10, Road 5, Dhanmondi, Dhaka 1205' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  fullAddress: string;
+
+  @ApiPropertyOptional({ example: 'Near Star Kabab' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  landmark?: string;
+
+  @ApiPropertyOptional({ example: '01712345678' })
+  @IsOptional()
+  @IsString()
+  contactPhone?: string;
+
+  @ApiPropertyOptional({ description: 'Neighbourhood', example: 'Dhanmondi' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  area?: string;
+
+  @ApiPropertyOptional({
+    description: 'Map pin; looked up from the address when omitted',
+    type: LocationDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LocationDto)
+  location?: LocationDto;
+
+  @ApiPropertyOptional({ description: 'Use as the default address', default: false })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
+
+export class UpdateSavedAddressDto {
+  @ApiPropertyOptional({ example: 'Office' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  label?: string;
+
+  @ApiPropertyOptional({ example: 'Level 4, 12 Gulshan Avenue, Dhaka 1212' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  fullAddress?: string;
+
+  @ApiPropertyOptional({ example: 'Opposite Gulshan 1 circle' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  landmark?: string;
+
+  @ApiPropertyOptional({ example: '01712345678' })
+  @IsOptional()
+  @IsString()
+  contactPhone?: string;
+
+  @ApiPropertyOptional({ example: 'Gulshan' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  area?: string;
+
+  @ApiPropertyOptional({ type: LocationDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LocationDto)
+  location?: LocationDto;
+
+  @ApiPropertyOptional({ description: 'Make this the default address' })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
@@ -0,0 +1,12 @@
+import { IsArray, IsMongoId } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateServiceZonesDto {
+  @ApiProperty({
+    description: 'Zones the rider covers; an empty list means all zones',
+    example: ['507f1f77bcf86cd799439011'],
+  })
+  @IsArray()
+  @IsMongoId({ each: true })
+  zoneIds: string[];
+}
@@ -1,9 +1,10 @@
-import { IsString, IsOptional, MinLength, MaxLength } from 'class-validator';
+import { IsString, IsOptional, IsEnum, MinLength, MaxLength } from 'class-validator';
 import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Language } from '../enums/language.enum';
 
 /**
  * DTO for updating user profile.
- * Only name and address can be updated by the user.
+ * Only name, address and preferred language can be updated by the user.
  */
 export class UpdateUserDto {
   @ApiPropertyOptional({
@@ -27,4 +28,13 @@ export class UpdateUserDto {
   @IsString()
   @MaxLength(500)
   address?: string;
+
+  @ApiPropertyOptional({
+    description: 'Preferred language for SMS notifications',
+    enum: Language,
+    example: Language.BN,
+  })
+  @IsOptional()
+  @IsEnum(Language)
+  preferredLanguage?: Language;
 }
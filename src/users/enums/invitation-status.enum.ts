@@ -0,0 +1,9 @@
+/**
+ * Staff invitation status.
+ * Pending invitations are accepted on the invitee's first OTP login.
+ */
+export enum InvitationStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  REVOKED = 'revoked',
+}
@@ -0,0 +1,8 @@
+/**
+ * Languages supported for customer-facing messages.
+ * Stored on the user as their preferred language.
+ */
+export enum Language {
+  EN = 'en',
+  BN = 'bn',
+}
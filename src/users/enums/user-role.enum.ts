@@ -5,5 +5,16 @@
 export enum UserRole {
   CUSTOMER = 'customer',
   DELIVERY = 'delivery',
+  LAUNDRY_STAFF = 'laundry_staff',
   ADMIN = 'admin',
 }
+
+/**
+ * Role labels (English and Bangla) for messages shown to staff.
+ */
+export const USER_ROLE_LABELS: Record<UserRole, { en: string; bn: string }> = {
+  [UserRole.CUSTOMER]: { en: 'customer', bn: 'গ্রাহক' },
+  [UserRole.DELIVERY]: { en: 'delivery rider', bn: 'ডেলিভারি রাইডার' },
+  [UserRole.LAUNDRY_STAFF]: { en: 'laundry staff', bn: 'লন্ড্রি কর্মী' },
+  [UserRole.ADMIN]: { en: 'admin', bn: 'অ্যাডমিন' },
+};
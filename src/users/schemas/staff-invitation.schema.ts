@@ -0,0 +1,71 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { UserRole } from '../enums/user-role.enum';
+import { InvitationStatus } from '../enums/invitation-status.enum';
+
+export type StaffInvitationDocument = StaffInvitation & Document;
+
+/**
+ * Staff invitation schema.
+ * Admins invite delivery staff or other admins by phone number; the role is
+ * granted when that phone number next logs in with OTP.
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class StaffInvitation {
+  @Prop({
+    required: true,
+    trim: true,
+    match: /^01[3-9]\d{8}$/,
+  })
+  phoneNumber: string;
+
+  @Prop({
+    type: String,
+    enum: UserRole,
+    required: true,
+  })
+  role: UserRole;
+
+  @Prop({ type: String, trim: true })
+  fullName: string;
+
+  @Prop({
+    type: String,
+    enum: InvitationStatus,
+    default: InvitationStatus.PENDING,
+  })
+  status: InvitationStatus;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  invitedBy: Types.ObjectId;
+
+  @Prop({ type: Date, required: true })
+  expiresAt: Date;
+
+  @Prop({ type: Date })
+  acceptedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  acceptedBy: Types.ObjectId;
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const StaffInvitationSchema = SchemaFactory.createForClass(StaffInvitation);
+
+// Indexes
+StaffInvitationSchema.index({ phoneNumber: 1, status: 1 });
+StaffInvitationSchema.index({ status: 1, createdAt: -1 });
@@ -1,9 +1,67 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { Document } from 'mongoose';
+import { Document, Types } from 'mongoose';
 import { UserRole } from '../enums/user-role.enum';
+import { Language } from '../enums/language.enum';
 
 export type UserDocument = User & Document;
 
+/**
+ * Map coordinates sub-document.
+ */
+@Schema({ _id: false })
+export class AddressLocation {
+  @Prop({ type: Number, required: true })
+  lat: number;
+
+  @Prop({ type: Number, required: true })
+  lng: number;
+}
+
+/**
+ * Saved address sub-document (customer address book).
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      return ret;
+    },
+  },
+})
+export class SavedAddress {
+  _id: Types.ObjectId;
+
+  // e.g. "Home", "Office"
+  @Prop({ type: String, required: true, trim: true })
+  label: string;
+
+  @Prop({ type: String, required: true, trim: true })
+  fullAddress: string;
+
+  @Prop({ type: String, trim: true })
+  landmark?: string;
+
+  @Prop({ type: String, trim: true })
+  contactPhone?: string;
+
+  @Prop({ type: String, trim: true })
+  area?: string;
+
+  @Prop({ type: AddressLocation })
+  location?: AddressLocation;
+
+  // Where the coordinates came from: the customer's map pin or a geocoding provider
+  @Prop({ type: String })
+  locationSource?: string;
+
+  @Prop({ type: Boolean, default: false })
+  isDefault: boolean;
+}
+
+export const SavedAddressSchema = SchemaFactory.createForClass(SavedAddress);
+
 /**
  * User schema for MongoDB.
  * Phone number is the primary identifier (no password - OTP-based auth).
@@ -16,8 +74,13 @@ export type UserDocument = User & Document;
       ret.id = ret._id;
       delete ret._id;
       delete ret.__v;
-      delete ret.otpCode;
+      delete ret.otpHash;
       delete ret.otpExpiry;
+      delete ret.otpAttempts;
+      delete ret.otpLockedUntil;
+      delete ret.otpLastSentAt;
+      delete ret.otpSendCount;
+      delete ret.otpSendWindowStart;
       return ret;
     },
   },
@@ -38,6 +101,9 @@ export class User {
   @Prop({ trim: true })
   address: string;
 
+  @Prop({ type: [SavedAddressSchema], default: [] })
+  addresses: Types.DocumentArray<SavedAddress>;
+
   @Prop({
     type: String,
     enum: UserRole,
@@ -48,13 +114,45 @@ export class User {
   @Prop({ default: false })
   isVerified: boolean;
 
-  // OTP fields (not exposed in responses)
+  // Delivery staff: zones the rider covers (empty = all zones)
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'ServiceZone' }], default: [] })
+  serviceZones: Types.ObjectId[];
+
+  // Delivery staff: when the rider last got an order (round-robin dispatch)
   @Prop()
-  otpCode: string;
+  lastAssignedAt: Date;
+
+  // Language for SMS and other customer-facing messages
+  @Prop({
+    type: String,
+    enum: Language,
+    default: Language.BN,
+  })
+  preferredLanguage: Language;
+
+  // OTP fields (not exposed in responses). Only an HMAC of the code is stored.
+  @Prop()
+  otpHash: string;
 
   @Prop()
   otpExpiry: Date;
 
+  // OTP abuse protection (not exposed in responses)
+  @Prop({ default: 0 })
+  otpAttempts: number;
+
+  @Prop()
+  otpLockedUntil: Date;
+
+  @Prop()
+  otpLastSentAt: Date;
+
+  @Prop({ default: 0 })
+  otpSendCount: number;
+
+  @Prop()
+  otpSendWindowStart: Date;
+
   // Timestamps added by Mongoose
   createdAt: Date;
   updatedAt: Date;
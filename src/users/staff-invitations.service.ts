@@ -0,0 +1,156 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { StaffInvitation, StaffInvitationDocument } from './schemas/staff-invitation.schema';
+import { UserDocument } from './schemas/user.schema';
+import { CreateStaffInvitationDto } from './dto/create-staff-invitation.dto';
+import { InvitationStatus } from './enums/invitation-status.enum';
+import { USER_ROLE_LABELS } from './enums/user-role.enum';
+import { UsersService } from './users.service';
+import { SmsService } from '../sms/sms.service';
+import { SmsTemplate } from '../sms/templates/sms-templates';
+import { normalizePhone } from '../common/utils/phone.util';
+
+/**
+ * Staff invitations service - admin invites for delivery staff and admins.
+ */
+@Injectable()
+export class StaffInvitationsService {
+  private readonly logger = new Logger(StaffInvitationsService.name);
+
+  constructor(
+    @InjectModel(StaffInvitation.name)
+    private invitationModel: Model<StaffInvitationDocument>,
+    private usersService: UsersService,
+    private smsService: SmsService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Invite a phone number into a staff role (admin only).
+   */
+  async createInvitation(
+    dto: CreateStaffInvitationDto,
+    adminId: string,
+  ): Promise<StaffInvitationDocument> {
+    const phoneNumber = normalizePhone(dto.phoneNumber);
+
+    const existingUser = await this.usersService.findByPhone(phoneNumber);
+    if (existingUser?.role === dto.role) {
+      throw new ConflictException(`User already has the ${dto.role} role`);
+    }
+
+    const pending = await this.invitationModel
+      .findOne({
+        phoneNumber,
+        status: InvitationStatus.PENDING,
+        expiresAt: { $gt: new Date() },
+      })
+      .exec();
+    if (pending) {
+      throw new ConflictException('A pending invitation already exists for this phone number');
+    }
+
+    const expiryDays = Number(this.configService.get('STAFF_INVITATION_EXPIRY_DAYS', 7));
+    const invitation = await this.invitationModel.create({
+      phoneNumber,
+      role: dto.role,
+      fullName: dto.fullName,
+      invitedBy: new Types.ObjectId(adminId),
+      expiresAt: new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000),
+    });
+
+    // Let the invitee know; the invitation stands even if the SMS fails
+    this.smsService
+      .sendTemplate(
+        phoneNumber,
+        SmsTemplate.STAFF_INVITATION,
+        { role: USER_ROLE_LABELS[dto.role] },
+        {
+          language: existingUser?.preferredLanguage,
+          context: { invitationId: invitation._id.toString() },
+        },
+      )
+      .catch((error) =>
+        this.logger.warn(`Invitation SMS to ${phoneNumber} failed: ${error}`),
+      );
+
+    return invitation;
+  }
+
+  /**
+   * List invitations (admin only).
+   */
+  async getInvitations(status?: InvitationStatus): Promise<StaffInvitationDocument[]> {
+    const query = status ? { status } : {};
+    return this.invitationModel
+      .find(query)
+      .sort({ createdAt: -1 })
+      .populate('invitedBy', 'fullName phoneNumber')
+      .exec();
+  }
+
+  /**
+   * Revoke a pending invitation (admin only).
+   */
+  async revokeInvitation(invitationId: string): Promise<StaffInvitationDocument> {
+    const invitation = Types.ObjectId.isValid(invitationId)
+      ? await this.invitationModel.findById(invitationId).exec()
+      : null;
+    if (!invitation) {
+      throw new NotFoundException('Invitation not found');
+    }
+
+    if (invitation.status !== InvitationStatus.PENDING) {
+      throw new BadRequestException(`Invitation is already ${invitation.status}`);
+    }
+
+    invitation.status = InvitationStatus.REVOKED;
+    return invitation.save();
+  }
+
+  /**
+   * Grant the role from a pending invitation to a freshly verified user.
+   * Called after OTP verification; returns the (possibly updated) user.
+   */
+  async acceptPendingInvitation(user: UserDocument): Promise<UserDocument> {
+    const invitation = await this.invitationModel
+      .findOneAndUpdate(
+        {
+          phoneNumber: user.phoneNumber,
+          status: InvitationStatus.PENDING,
+          expiresAt: { $gt: new Date() },
+        },
+        {
+          $set: {
+            status: InvitationStatus.ACCEPTED,
+            acceptedAt: new Date(),
+            acceptedBy: user._id,
+          },
+        },
+        { new: true, sort: { createdAt: -1 } },
+      )
+      .exec();
+
+    if (!invitation) {
+      return user;
+    }
+
+    user.role = invitation.role;
+    if (invitation.fullName && user.fullName === 'New User') {
+      user.fullName = invitation.fullName;
+    }
+    await user.save();
+
+    this.logger.log(`User ${user.phoneNumber} accepted invitation as ${invitation.role}`);
+
+    return user;
+  }
+}
@@ -0,0 +1,158 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { User, UserDocument, SavedAddress } from './schemas/user.schema';
+import { CreateSavedAddressDto, UpdateSavedAddressDto } from './dto/saved-address.dto';
+import { GeocodingService } from '../geocoding/geocoding.service';
+
+/**
+ * User addresses service - the customer's address book.
+ * Addresses without a map pin are geocoded so riders get coordinates.
+ */
+@Injectable()
+export class UserAddressesService {
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private geocodingService: GeocodingService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Load a user or fail.
+   */
+  private async getUser(userId: string): Promise<UserDocument> {
+    const user = await this.userModel.findById(userId).exec();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  /**
+   * Fill in coordinates and area from the pin or the address text.
+   */
+  private async locate(address: SavedAddress, hasPin: boolean): Promise<void> {
+    const result = hasPin
+      ? await this.geocodingService.reverse(address.location!.lat, address.location!.lng)
+      : await this.geocodingService.geocode(address);
+
+    if (hasPin) {
+      address.locationSource = 'pin';
+    } else {
+      address.location = result ? { lat: result.lat, lng: result.lng } : undefined;
+      address.locationSource = result ? 'geocoded' : undefined;
+    }
+
+    if (!address.area && result?.area) {
+      address.area = result.area;
+    }
+  }
+
+  /**
+   * Make one address the default and clear the flag on the rest.
+   */
+  private setDefaultFlag(user: UserDocument, addressId: string): void {
+    for (const address of user.addresses) {
+      address.isDefault = address._id.toString() === addressId;
+    }
+  }
+
+  /**
+   * List saved addresses, default first.
+   */
+  async getAddresses(userId: string): Promise<SavedAddress[]> {
+    const user = await this.getUser(userId);
+    return [...user.addresses].sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+  }
+
+  /**
+   * Get a single saved address.
+   */
+  async getAddress(userId: string, addressId: string): Promise<SavedAddress> {
+    const user = await this.getUser(userId);
+    const address = user.addresses.id(addressId);
+    if (!address) {
+      throw new NotFoundException('Saved address not found');
+    }
+    return address;
+  }
+
+  /**
+   * Save a new address. The first address becomes the default.
+   */
+  async addAddress(userId: string, dto: CreateSavedAddressDto): Promise<SavedAddress> {
+    const user = await this.getUser(userId);
+
+    const maxAddresses = Number(this.configService.get('MAX_SAVED_ADDRESSES', 10));
+    if (user.addresses.length >= maxAddresses) {
+      throw new BadRequestException(`You can save up to ${maxAddresses} addresses`);
+    }
+
+    const address = user.addresses.create({ ...dto, isDefault: false });
+    await this.locate(address, !!dto.location);
+    user.addresses.push(address);
+
+    if (dto.isDefault || user.addresses.length === 1) {
+      this.setDefaultFlag(user, address._id.toString());
+    }
+
+    await user.save();
+    return address;
+  }
+
+  /**
+   * Edit a saved address. Changing the text without a new pin re-geocodes it.
+   */
+  async updateAddress(
+    userId: string,
+    addressId: string,
+    dto: UpdateSavedAddressDto,
+  ): Promise<SavedAddress> {
+    const user = await this.getUser(userId);
+    const address = user.addresses.id(addressId);
+    if (!address) {
+      throw new NotFoundException('Saved address not found');
+    }
+
+    const { isDefault, ...fields } = dto;
+    const textChanged =
+      (fields.fullAddress !== undefined && fields.fullAddress !== address.fullAddress) ||
+      (fields.area !== undefined && fields.area !== address.area);
+    address.set(fields);
+
+    if (fields.location) {
+      await this.locate(address, true);
+    } else if (textChanged && address.locationSource !== 'pin') {
+      await this.locate(address, false);
+    }
+
+    if (isDefault) {
+      this.setDefaultFlag(user, addressId);
+    }
+
+    await user.save();
+    return address;
+  }
+
+  /**
+   * Delete a saved address. If it was the default, the oldest remaining one takes over.
+   */
+  async removeAddress(userId: string, addressId: string): Promise<{ message: string }> {
+    const user = await this.getUser(userId);
+    const address = user.addresses.id(addressId);
+    if (!address) {
+      throw new NotFoundException('Saved address not found');
+    }
+
+    const wasDefault = address.isDefault;
+    address.deleteOne();
+
+    if (wasDefault && user.addresses.length > 0) {
+      user.addresses[0].isDefault = true;
+    }
+
+    await user.save();
+    return { message: 'Address deleted' };
+  }
+}
@@ -1,8 +1,11 @@
 import {
   Controller,
   Get,
+  Post,
   Patch,
+  Delete,
   Body,
+  Param,
   UseGuards,
   Query,
 } from '@nestjs/common';
@@ -14,10 +17,18 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { UsersService } from './users.service';
+import { StaffInvitationsService } from './staff-invitations.service';
+import { UserAddressesService } from './user-addresses.service';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { CreateStaffInvitationDto } from './dto/create-staff-invitation.dto';
+import { CreateSavedAddressDto, UpdateSavedAddressDto } from './dto/saved-address.dto';
+import { UpdateServiceZonesDto } from './dto/update-service-zones.dto';
+import { AdjustPointsDto } from '../loyalty/dto/adjust-points.dto';
+import { LoyaltyService } from '../loyalty/loyalty.service';
 import { JwtAuthGuard, RolesGuard, CurrentUser, Roles } from '../common';
 import { User } from './schemas/user.schema';
 import { UserRole } from './enums/user-role.enum';
+import { InvitationStatus } from './enums/invitation-status.enum';
 
 /**
  * Controller for user profile management.
@@ -27,7 +38,12 @@ import { UserRole } from './enums/user-role.enum';
 @Controller('users')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly staffInvitationsService: StaffInvitationsService,
+    private readonly userAddressesService: UserAddressesService,
+    private readonly loyaltyService: LoyaltyService,
+  ) {}
 
   /**
    * Get current user's profile.
@@ -54,6 +70,117 @@ export class UsersController {
     return this.usersService.update(userId, dto);
   }
 
+  // ========== Address Book ==========
+
+  /**
+   * List current user's saved addresses.
+   */
+  @Get('me/addresses')
+  @ApiOperation({ summary: 'Get saved addresses' })
+  @ApiResponse({ status: 200, description: 'Saved addresses, default first' })
+  async getAddresses(@CurrentUser('_id') userId: string) {
+    return this.userAddressesService.getAddresses(userId);
+  }
+
+  /**
+   * Save a new address (geocoded when no map pin is given).
+   */
+  @Post('me/addresses')
+  @ApiOperation({ summary: 'Save an address' })
+  @ApiResponse({ status: 201, description: 'Address saved' })
+  @ApiResponse({ status: 400, description: 'Address book is full' })
+  async addAddress(
+    @CurrentUser('_id') userId: string,
+    @Body() dto: CreateSavedAddressDto,
+  ) {
+    return this.userAddressesService.addAddress(userId, dto);
+  }
+
+  /**
+   * Edit a saved address or make it the default.
+   */
+  @Patch('me/addresses/:addressId')
+  @ApiOperation({ summary: 'Update a saved address' })
+  @ApiResponse({ status: 200, description: 'Address updated' })
+  @ApiResponse({ status: 404, description: 'Address not found' })
+  async updateAddress(
+    @CurrentUser('_id') userId: string,
+    @Param('addressId') addressId: string,
+    @Body() dto: UpdateSavedAddressDto,
+  ) {
+    return this.userAddressesService.updateAddress(userId, addressId, dto);
+  }
+
+  /**
+   * Delete a saved address.
+   */
+  @Delete('me/addresses/:addressId')
+  @ApiOperation({ summary: 'Delete a saved address' })
+  @ApiResponse({ status: 200, description: 'Address deleted' })
+  @ApiResponse({ status: 404, description: 'Address not found' })
+  async removeAddress(
+    @CurrentUser('_id') userId: string,
+    @Param('addressId') addressId: string,
+  ) {
+    return this.userAddressesService.removeAddress(userId, addressId);
+  }
+
+  // ========== Loyalty Wallet ==========
+
+  /**
+   * Current customer's points balance and ledger.
+   */
+  @Get('me/wallet')
+  @Roles(UserRole.CUSTOMER)
+  @ApiOperation({ summary: 'Get my loyalty points wallet (Customer only)' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Balance, next expiry, rules and transactions' })
+  async getWallet(
+    @CurrentUser('_id') userId: string,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.loyaltyService.getWallet(userId, page, limit);
+  }
+
+  /**
+   * A customer's points wallet (admin only).
+   */
+  @Get(':id/wallet')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: "Get a customer's loyalty wallet (Admin only)" })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Balance, next expiry, rules and transactions' })
+  @ApiResponse({ status: 404, description: 'Customer not found' })
+  async getUserWallet(
+    @Param('id') userId: string,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    await this.usersService.getCustomer(userId);
+    return this.loyaltyService.getWallet(userId, page, limit);
+  }
+
+  /**
+   * Add or remove a customer's points by hand (admin only).
+   */
+  @Post(':id/wallet/adjustments')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Adjust loyalty points (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Adjustment recorded' })
+  @ApiResponse({ status: 400, description: 'Customer has fewer points than removed' })
+  @ApiResponse({ status: 404, description: 'Customer not found' })
+  async adjustPoints(
+    @Param('id') userId: string,
+    @Body() dto: AdjustPointsDto,
+    @CurrentUser('_id') adminId: string,
+  ) {
+    await this.usersService.getCustomer(userId);
+    return this.loyaltyService.adjustPoints(userId, dto, adminId);
+  }
+
   /**
    * Get all users (admin only).
    */
@@ -77,4 +204,60 @@ export class UsersController {
   async getDeliveryPersonnel() {
     return this.usersService.findDeliveryPersonnel();
   }
+
+  /**
+   * Set the zones a delivery person covers (admin only).
+   */
+  @Patch(':id/service-zones')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Set rider service zones (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Service zones updated' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async setServiceZones(
+    @Param('id') userId: string,
+    @Body() dto: UpdateServiceZonesDto,
+  ) {
+    return this.usersService.setServiceZones(userId, dto.zoneIds);
+  }
+
+  // ========== Staff Invitations ==========
+
+  /**
+   * Invite a delivery person or admin by phone number (admin only).
+   */
+  @Post('invitations')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Invite staff member (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Invitation created and SMS sent' })
+  @ApiResponse({ status: 409, description: 'User already has role or invitation pending' })
+  async createInvitation(
+    @CurrentUser('_id') adminId: string,
+    @Body() dto: CreateStaffInvitationDto,
+  ) {
+    return this.staffInvitationsService.createInvitation(dto, adminId);
+  }
+
+  /**
+   * List staff invitations (admin only).
+   */
+  @Get('invitations')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get staff invitations (Admin only)' })
+  @ApiQuery({ name: 'status', required: false, enum: InvitationStatus })
+  @ApiResponse({ status: 200, description: 'Invitations list returned' })
+  async getInvitations(@Query('status') status?: InvitationStatus) {
+    return this.staffInvitationsService.getInvitations(status);
+  }
+
+  /**
+   * Revoke a pending staff invitation (admin only).
+   */
+  @Delete('invitations/:id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Revoke staff invitation (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Invitation revoked' })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  async revokeInvitation(@Param('id') invitationId: string) {
+    return this.staffInvitationsService.revokeInvitation(invitationId);
+  }
 }
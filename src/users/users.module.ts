@@ -2,17 +2,29 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
+import { StaffInvitationsService } from './staff-invitations.service';
+import { UserAddressesService } from './user-addresses.service';
 import { User, UserSchema } from './schemas/user.schema';
+import { StaffInvitation, StaffInvitationSchema } from './schemas/staff-invitation.schema';
+import { SmsModule } from '../sms/sms.module';
+import { GeocodingModule } from '../geocoding/geocoding.module';
+import { LoyaltyModule } from '../loyalty/loyalty.module';
 
 /**
  * Users module - handles user profiles and management.
  */
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema },
+      { name: StaffInvitation.name, schema: StaffInvitationSchema },
+    ]),
+    SmsModule, // For invitation texts
+    GeocodingModule, // For address book coordinates
+    LoyaltyModule, // For the points wallet
   ],
   controllers: [UsersController],
-  providers: [UsersService],
-  exports: [UsersService], // Export for use in Auth module
+  providers: [UsersService, StaffInvitationsService, UserAddressesService],
+  exports: [UsersService, StaffInvitationsService, UserAddressesService], // Export for use in Auth and Orders modules
 })
 export class UsersModule {}
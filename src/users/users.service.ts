@@ -1,9 +1,14 @@
-import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
+import { Injectable, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { timingSafeEqual } from 'crypto';
 import { User, UserDocument } from './schemas/user.schema';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { UserRole } from './enums/user-role.enum';
+import { RateLimitedException } from '../common/exceptions/rate-limited.exception';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Service for user-related business logic.
@@ -13,8 +18,35 @@ import { UserRole } from './enums/user-role.enum';
 export class UsersService {
   constructor(
     @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private configService: ConfigService,
   ) {}
 
+  /**
+   * OTP abuse limits, configurable per environment.
+   */
+  private getOtpPolicy() {
+    return {
+      maxAttempts: Number(this.configService.get('OTP_MAX_ATTEMPTS', 5)),
+      lockoutMs: Number(this.configService.get('OTP_LOCKOUT_MINUTES', 15)) * 60 * 1000,
+      resendCooldownMs:
+        Number(this.configService.get('OTP_RESEND_COOLDOWN_SECONDS', 60)) * 1000,
+      dailySendLimit: Number(this.configService.get('OTP_DAILY_SEND_LIMIT', 10)),
+    };
+  }
+
+  /**
+   * Throw if the phone number is currently locked out of OTP login.
+   */
+  private assertNotLocked(user: UserDocument, now: Date): void {
+    if (user.otpLockedUntil && user.otpLockedUntil > now) {
+      throw new RateLimitedException(
+        'Too many incorrect OTP attempts. Please try again later.',
+        (user.otpLockedUntil.getTime() - now.getTime()) / 1000,
+        'OTP_LOCKED',
+      );
+    }
+  }
+
   /**
    * Find user by phone number.
    */
@@ -29,6 +61,17 @@ export class UsersService {
     return this.userModel.findById(id).exec();
   }
 
+  /**
+   * Load a customer by ID or fail.
+   */
+  async getCustomer(id: string): Promise<UserDocument> {
+    const user = Types.ObjectId.isValid(id) ? await this.findById(id) : null;
+    if (!user || user.role !== UserRole.CUSTOMER) {
+      throw new NotFoundException('Customer not found');
+    }
+    return user;
+  }
+
   /**
    * Create a new user (called during signup).
    */
@@ -69,48 +112,164 @@ export class UsersService {
 
   /**
    * Save OTP for a phone number (creates temp user if not exists).
+   * Enforces lockout, resend cooldown and the daily send cap, atomically
+   * so concurrent requests can't get past them. Any previously issued
+   * code is replaced.
    */
-  async saveOtp(phoneNumber: string, otpCode: string, otpExpiry: Date): Promise<void> {
-    await this.userModel.updateOne(
-      { phoneNumber },
-      {
-        $set: { otpCode, otpExpiry },
-        $setOnInsert: {
-          fullName: 'New User',
-          address: '',
-          role: UserRole.CUSTOMER,
-          isVerified: false,
-        },
-      },
-      { upsert: true },
-    );
+  async saveOtp(phoneNumber: string, otpHash: string, otpExpiry: Date): Promise<void> {
+    const policy = this.getOtpPolicy();
+    const now = new Date();
+    const existing = await this.findByPhone(phoneNumber);
+
+    let sendCount = 1;
+    let sendWindowStart = now;
+
+    if (existing) {
+      this.assertNotLocked(existing, now);
+
+      if (existing.otpLastSentAt) {
+        const nextAllowed = existing.otpLastSentAt.getTime() + policy.resendCooldownMs;
+        if (nextAllowed > now.getTime()) {
+          throw new RateLimitedException(
+            'Please wait before requesting another OTP.',
+            (nextAllowed - now.getTime()) / 1000,
+            'OTP_RESEND_COOLDOWN',
+          );
+        }
+      }
+
+      const windowStart = existing.otpSendWindowStart;
+      if (windowStart && now.getTime() - windowStart.getTime() < DAY_MS) {
+        if ((existing.otpSendCount || 0) >= policy.dailySendLimit) {
+          throw new RateLimitedException(
+            'Daily OTP limit reached for this phone number.',
+            (windowStart.getTime() + DAY_MS - now.getTime()) / 1000,
+            'OTP_DAILY_LIMIT',
+          );
+        }
+        sendCount = (existing.otpSendCount || 0) + 1;
+        sendWindowStart = windowStart;
+      }
+    }
+
+    // Only write if nothing was sent or locked since the checks above,
+    // so concurrent requests can't each send a code
+    const filter = existing
+      ? {
+          _id: existing._id,
+          otpLastSentAt: existing.otpLastSentAt ?? null,
+          // Defaults to 0 when read, but may be missing in the database
+          otpSendCount: existing.otpSendCount || { $in: [0, null] },
+          otpLockedUntil: existing.otpLockedUntil ?? null,
+        }
+      : { phoneNumber, otpLastSentAt: null };
+
+    let saved: UserDocument | null = null;
+    try {
+      saved = await this.userModel
+        .findOneAndUpdate(
+          filter,
+          {
+            $set: {
+              otpHash,
+              otpExpiry,
+              otpAttempts: 0,
+              otpLastSentAt: now,
+              otpSendCount: sendCount,
+              otpSendWindowStart: sendWindowStart,
+            },
+            $setOnInsert: {
+              fullName: 'New User',
+              address: '',
+              role: UserRole.CUSTOMER,
+              isVerified: false,
+            },
+          },
+          { upsert: !existing, new: true },
+        )
+        .exec();
+    } catch (error) {
+      // A concurrent request created the user first
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+    }
+
+    if (!saved) {
+      throw new RateLimitedException(
+        'Please wait before requesting another OTP.',
+        policy.resendCooldownMs / 1000,
+        'OTP_RESEND_COOLDOWN',
+      );
+    }
   }
 
   /**
-   * Verify OTP and mark user as verified.
+   * Verify OTP (by its hash) and mark user as verified.
+   * Wrong codes count towards a lockout; the code is single-use.
    */
-  async verifyOtp(phoneNumber: string, otpCode: string): Promise<UserDocument | null> {
+  async verifyOtp(phoneNumber: string, otpHash: string): Promise<UserDocument | null> {
     const user = await this.findByPhone(phoneNumber);
 
     if (!user) {
       return null;
     }
 
-    if (user.otpCode !== otpCode) {
+    const now = new Date();
+    this.assertNotLocked(user, now);
+
+    if (!user.otpHash || (user.otpExpiry && now > user.otpExpiry)) {
       return null;
     }
 
-    if (user.otpExpiry && new Date() > user.otpExpiry) {
+    const stored = Buffer.from(user.otpHash, 'hex');
+    const given = Buffer.from(otpHash, 'hex');
+    if (stored.length !== given.length || !timingSafeEqual(stored, given)) {
+      await this.registerFailedOtpAttempt(user, now);
       return null;
     }
 
-    // Clear OTP and mark as verified
-    user.otpCode = '';
-    user.otpExpiry = undefined as unknown as Date;
-    user.isVerified = true;
-    await user.save();
+    // Consume OTP atomically so the same code cannot be used twice
+    const verified = await this.userModel
+      .findOneAndUpdate(
+        { _id: user._id, otpHash: user.otpHash },
+        {
+          $set: { isVerified: true, otpAttempts: 0 },
+          $unset: { otpHash: 1, otpExpiry: 1, otpLockedUntil: 1 },
+        },
+        { new: true },
+      )
+      .exec();
 
-    return user;
+    return verified;
+  }
+
+  /**
+   * Count a wrong OTP guess and lock the phone number once the limit is hit.
+   */
+  private async registerFailedOtpAttempt(user: UserDocument, now: Date): Promise<void> {
+    const policy = this.getOtpPolicy();
+
+    const updated = await this.userModel
+      .findOneAndUpdate({ _id: user._id }, { $inc: { otpAttempts: 1 } }, { new: true })
+      .exec();
+
+    if (updated && updated.otpAttempts >= policy.maxAttempts) {
+      const lockedUntil = new Date(now.getTime() + policy.lockoutMs);
+      await this.userModel.updateOne(
+        { _id: user._id },
+        {
+          $set: { otpLockedUntil: lockedUntil, otpAttempts: 0 },
+          $unset: { otpHash: 1, otpExpiry: 1 },
+        },
+      );
+
+      throw new RateLimitedException(
+        'Too many incorrect OTP attempts. Please try again later.',
+        policy.lockoutMs / 1000,
+        'OTP_LOCKED',
+      );
+    }
   }
 
   /**
@@ -127,4 +286,27 @@ export class UsersService {
   async findDeliveryPersonnel(): Promise<UserDocument[]> {
     return this.userModel.find({ role: UserRole.DELIVERY }).exec();
   }
+
+  /**
+   * Set the zones a delivery person covers (admin only).
+   */
+  async setServiceZones(userId: string, zoneIds: string[]): Promise<UserDocument> {
+    const user = await this.userModel.findById(userId).exec();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (user.role !== UserRole.DELIVERY) {
+      throw new BadRequestException('User is not a delivery person');
+    }
+
+    user.serviceZones = [...new Set(zoneIds)].map((id) => new Types.ObjectId(id));
+    return user.save();
+  }
+
+  /**
+   * Note that a delivery person was just given an order.
+   */
+  async recordAssignment(userId: string): Promise<void> {
+    await this.userModel.updateOne({ _id: userId }, { $set: { lastAssignedAt: new Date() } });
+  }
 }
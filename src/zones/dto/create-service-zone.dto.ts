@@ -0,0 +1,73 @@
+import {
+  IsString,
+  IsArray,
+  IsNumber,
+  IsInt,
+  IsOptional,
+  IsBoolean,
+  ArrayMinSize,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateServiceZoneDto {
+  @ApiProperty({ example: 'Dhanmondi & Lalmatia' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Neighbourhood names matched against the address area',
+    example: ['Dhanmondi', 'Lalmatia', 'Kalabagan'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  areas?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Boundary as [longitude, latitude] points; the ring is closed automatically',
+    example: [
+      [90.365, 23.735],
+      [90.39, 23.735],
+      [90.39, 23.76],
+      [90.365, 23.76],
+    ],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(3)
+  @IsArray({ each: true })
+  boundary?: number[][];
+
+  @ApiProperty({ description: 'Delivery fee in BDT', example: 60 })
+  @IsNumber()
+  @Min(0)
+  deliveryFee: number;
+
+  @ApiPropertyOptional({
+    description: 'Items total (BDT) at which delivery becomes free; 0 disables',
+    example: 1000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  freeDeliveryThreshold?: number;
+
+  @ApiPropertyOptional({ description: 'Minimum items total (BDT) to place an order', example: 200 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minimumOrderValue?: number;
+
+  @ApiPropertyOptional({ description: 'Higher priority wins when zones overlap', example: 0 })
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
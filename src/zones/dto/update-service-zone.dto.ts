@@ -0,0 +1,61 @@
+import {
+  IsString,
+  IsArray,
+  IsNumber,
+  IsInt,
+  IsOptional,
+  IsBoolean,
+  ArrayMinSize,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateServiceZoneDto {
+  @ApiPropertyOptional({ example: 'Dhanmondi & Lalmatia' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ example: ['Dhanmondi', 'Lalmatia'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  areas?: string[];
+
+  @ApiPropertyOptional({ description: 'Boundary as [longitude, latitude] points' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(3)
+  @IsArray({ each: true })
+  boundary?: number[][];
+
+  @ApiPropertyOptional({ example: 60 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  deliveryFee?: number;
+
+  @ApiPropertyOptional({ example: 1000 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  freeDeliveryThreshold?: number;
+
+  @ApiPropertyOptional({ example: 200 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minimumOrderValue?: number;
+
+  @ApiPropertyOptional({ example: 0 })
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,8 @@
+/**
+ * Rule that produced an order's delivery charge.
+ */
+export enum DeliveryChargeRule {
+  ZONE_FEE = 'zone_fee', // Zone's standard delivery fee
+  FREE_DELIVERY_THRESHOLD = 'free_delivery_threshold', // Order reached the zone's free-delivery threshold
+  DEFAULT = 'default', // No zones configured; flat DEFAULT_DELIVERY_CHARGE
+}
@@ -0,0 +1,71 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type ServiceZoneDocument = ServiceZone & Document;
+
+/**
+ * GeoJSON polygon sub-document ([longitude, latitude] pairs).
+ */
+@Schema({ _id: false })
+export class GeoPolygon {
+  @Prop({ type: String, enum: ['Polygon'], required: true, default: 'Polygon' })
+  type: 'Polygon';
+
+  @Prop({ type: [[[Number]]], required: true })
+  coordinates: number[][][];
+}
+
+/**
+ * Service zone schema.
+ * An area we pick up from and deliver to, defined by a boundary polygon
+ * and/or a list of neighbourhood names, with its own delivery pricing.
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class ServiceZone {
+  @Prop({ type: String, required: true, unique: true, trim: true })
+  name: string;
+
+  // Neighbourhood names, stored lowercase (e.g. "dhanmondi", "mohammadpur")
+  @Prop({ type: [String], default: [] })
+  areas: string[];
+
+  @Prop({ type: GeoPolygon })
+  boundary?: GeoPolygon;
+
+  @Prop({ type: Number, required: true, min: 0 })
+  deliveryFee: number;
+
+  // Delivery is free once the items total reaches this amount (0 = never free)
+  @Prop({ type: Number, min: 0, default: 0 })
+  freeDeliveryThreshold: number;
+
+  @Prop({ type: Number, min: 0, default: 0 })
+  minimumOrderValue: number;
+
+  // Higher priority wins when zones overlap
+  @Prop({ type: Number, default: 0 })
+  priority: number;
+
+  @Prop({ type: Boolean, default: true })
+  isActive: boolean;
+
+  // Timestamps added by Mongoose
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const ServiceZoneSchema = SchemaFactory.createForClass(ServiceZone);
+
+// Indexes
+ServiceZoneSchema.index({ isActive: 1, priority: -1 });
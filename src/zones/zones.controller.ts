@@ -0,0 +1,68 @@
+import { Controller, Get, Post, Patch, Body, Param, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ZonesService } from './zones.service';
+import { CreateServiceZoneDto } from './dto/create-service-zone.dto';
+import { UpdateServiceZoneDto } from './dto/update-service-zone.dto';
+import { JwtAuthGuard, RolesGuard, Roles, Public } from '../common';
+import { UserRole } from '../users/enums/user-role.enum';
+
+/**
+ * Service zones controller - where we operate and what delivery costs.
+ */
+@ApiTags('Zones')
+@Controller('zones')
+export class ZonesController {
+  constructor(private readonly zonesService: ZonesService) {}
+
+  /**
+   * Get active zones with their delivery pricing (public).
+   */
+  @Get()
+  @Public()
+  @ApiOperation({ summary: 'Get active service zones' })
+  @ApiResponse({ status: 200, description: 'List of active zones' })
+  async getActiveZones() {
+    return this.zonesService.getActiveZones();
+  }
+
+  /**
+   * Get all zones including inactive ones (admin only).
+   */
+  @Get('all')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get all service zones (Admin only)' })
+  @ApiResponse({ status: 200, description: 'List of zones' })
+  async getZones() {
+    return this.zonesService.getZones();
+  }
+
+  /**
+   * Create a zone (admin only).
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Create service zone (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Zone created' })
+  @ApiResponse({ status: 409, description: 'Zone name already exists' })
+  async createZone(@Body() dto: CreateServiceZoneDto) {
+    return this.zonesService.createZone(dto);
+  }
+
+  /**
+   * Update a zone's areas, boundary or pricing (admin only).
+   */
+  @Patch(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Update service zone (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Zone updated' })
+  @ApiResponse({ status: 404, description: 'Zone not found' })
+  async updateZone(@Param('id') id: string, @Body() dto: UpdateServiceZoneDto) {
+    return this.zonesService.updateZone(id, dto);
+  }
+}
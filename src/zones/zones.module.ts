@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ZonesService } from './zones.service';
+import { ZonesController } from './zones.controller';
+import { ServiceZone, ServiceZoneSchema } from './schemas/service-zone.schema';
+
+/**
+ * Zones module - service areas and per-zone delivery pricing.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: ServiceZone.name, schema: ServiceZoneSchema }]),
+  ],
+  controllers: [ZonesController],
+  providers: [ZonesService],
+  exports: [ZonesService], // Export for use in Orders module
+})
+export class ZonesModule {}
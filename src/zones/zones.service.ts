@@ -0,0 +1,179 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ServiceZone, ServiceZoneDocument, GeoPolygon } from './schemas/service-zone.schema';
+import { CreateServiceZoneDto } from './dto/create-service-zone.dto';
+import { UpdateServiceZoneDto } from './dto/update-service-zone.dto';
+import { isPointInPolygon } from '../common/utils/geo.util';
+
+/**
+ * Address fields used to find the zone serving it.
+ */
+export interface ZoneLookupAddress {
+  fullAddress: string;
+  area?: string;
+  location?: { lat: number; lng: number };
+}
+
+/**
+ * Zones service - admin-managed service areas and address lookup.
+ */
+@Injectable()
+export class ZonesService {
+  constructor(
+    @InjectModel(ServiceZone.name) private zoneModel: Model<ServiceZoneDocument>,
+  ) {}
+
+  /**
+   * Normalize area names for matching.
+   */
+  private normalizeArea(area: string): string {
+    return area.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  /**
+   * Build a closed GeoJSON polygon from [lng, lat] points.
+   */
+  private toPolygon(points: number[][]): GeoPolygon {
+    for (const point of points) {
+      const [lng, lat] = point;
+      if (
+        point.length !== 2 ||
+        typeof lng !== 'number' ||
+        typeof lat !== 'number' ||
+        Math.abs(lng) > 180 ||
+        Math.abs(lat) > 90
+      ) {
+        throw new BadRequestException('Boundary points must be [longitude, latitude] pairs');
+      }
+    }
+
+    const ring = points.map(([lng, lat]) => [lng, lat]);
+    const [first, last] = [ring[0], ring[ring.length - 1]];
+    if (first[0] !== last[0] || first[1] !== last[1]) {
+      ring.push([...first]);
+    }
+    if (ring.length < 4) {
+      throw new BadRequestException('Boundary needs at least three distinct points');
+    }
+
+    return { type: 'Polygon', coordinates: [ring] };
+  }
+
+  /**
+   * Map DTO fields onto stored zone fields.
+   */
+  private toZoneFields(dto: CreateServiceZoneDto | UpdateServiceZoneDto): Partial<ServiceZone> {
+    const { areas, boundary, ...rest } = dto;
+    const fields: Partial<ServiceZone> = { ...rest };
+    if (areas) {
+      fields.areas = [...new Set(areas.map((area) => this.normalizeArea(area)).filter(Boolean))];
+    }
+    if (boundary) {
+      fields.boundary = this.toPolygon(boundary);
+    }
+    return fields;
+  }
+
+  // ========== Admin ==========
+
+  /**
+   * Create a zone (admin only).
+   */
+  async createZone(dto: CreateServiceZoneDto): Promise<ServiceZoneDocument> {
+    const fields = this.toZoneFields(dto);
+    if (!fields.areas?.length && !fields.boundary) {
+      throw new BadRequestException('A zone needs a boundary or at least one area');
+    }
+
+    const existing = await this.zoneModel.findOne({ name: dto.name }).exec();
+    if (existing) {
+      throw new ConflictException('A zone with this name already exists');
+    }
+
+    return this.zoneModel.create(fields);
+  }
+
+  /**
+   * Get all zones, highest priority first (admin only).
+   */
+  async getZones(): Promise<ServiceZoneDocument[]> {
+    return this.zoneModel.find().sort({ priority: -1, name: 1 }).exec();
+  }
+
+  /**
+   * Get a zone by ID.
+   */
+  async getZoneById(id: string): Promise<ServiceZoneDocument> {
+    const zone = await this.zoneModel.findById(id).exec();
+    if (!zone) {
+      throw new NotFoundException('Service zone not found');
+    }
+    return zone;
+  }
+
+  /**
+   * Update a zone (admin only).
+   */
+  async updateZone(id: string, dto: UpdateServiceZoneDto): Promise<ServiceZoneDocument> {
+    const zone = await this.getZoneById(id);
+
+    if (dto.name && dto.name !== zone.name) {
+      const existing = await this.zoneModel.findOne({ name: dto.name }).exec();
+      if (existing) {
+        throw new ConflictException('A zone with this name already exists');
+      }
+    }
+
+    Object.assign(zone, this.toZoneFields(dto));
+
+    if (!zone.areas?.length && !zone.boundary) {
+      throw new BadRequestException('A zone needs a boundary or at least one area');
+    }
+
+    return zone.save();
+  }
+
+  // ========== Lookup ==========
+
+  /**
+   * Get active zones, highest priority first.
+   */
+  async getActiveZones(): Promise<ServiceZoneDocument[]> {
+    return this.zoneModel.find({ isActive: true }).sort({ priority: -1, name: 1 }).exec();
+  }
+
+  /**
+   * Pick the zone serving an address from a list of zones.
+   * Matches on coordinates first, then the area name, then an area
+   * name mentioned in the free-text address. Returns null if none match.
+   */
+  matchZone(zones: ServiceZoneDocument[], address: ZoneLookupAddress): ServiceZoneDocument | null {
+    const { location } = address;
+    if (location) {
+      const byLocation = zones.find(
+        (zone) =>
+          zone.boundary &&
+          isPointInPolygon([location.lng, location.lat], zone.boundary.coordinates[0]),
+      );
+      if (byLocation) {
+        return byLocation;
+      }
+    }
+
+    if (address.area) {
+      const area = this.normalizeArea(address.area);
+      const byArea = zones.find((zone) => zone.areas.includes(area));
+      if (byArea) {
+        return byArea;
+      }
+    }
+
+    const text = ` ${this.normalizeArea(address.fullAddress).replace(/[^\p{L}\p{N}]+/gu, ' ')} `;
+    return (
+      zones.find((zone) =>
+        zone.areas.some((area) => text.includes(` ${area.replace(/[^\p{L}\p{N}]+/gu, ' ')} `)),
+      ) || null
+    );
+  }
+}